@@ -0,0 +1,46 @@
+import { MalwareScanner } from '../services/scanning/malwareScanner';
+import { NoopMalwareScanner } from '../services/scanning/noop.scanner';
+import { FakeMalwareScanner } from '../services/scanning/fake.scanner';
+import { ClamAvMalwareScanner } from '../services/scanning/clamav.scanner';
+
+type MalwareScannerName = 'none' | 'fake' | 'clamav';
+
+const scannerName = (process.env.MALWARE_SCANNER ||
+  'none') as MalwareScannerName;
+
+const createScanner = (): MalwareScanner => {
+  switch (scannerName) {
+    case 'clamav':
+      return new ClamAvMalwareScanner({
+        host: process.env.CLAMAV_HOST || '127.0.0.1',
+        port: parseInt(process.env.CLAMAV_PORT || '3310'),
+        timeoutMs: parseInt(process.env.CLAMAV_TIMEOUT_MS || '30000'),
+      });
+
+    case 'fake':
+      return new FakeMalwareScanner();
+
+    case 'none':
+      return new NoopMalwareScanner();
+
+    default:
+      // Refuse to start rather than silently skip scanning
+      throw new Error(
+        `Unknown MALWARE_SCANNER "${scannerName}", expected none, fake or clamav`
+      );
+  }
+};
+
+const malwareScanner = createScanner();
+
+if (malwareScanner.name === 'none') {
+  if (process.env.NODE_ENV === 'production') {
+    console.warn(
+      '⚠️ Malware scanning is disabled. Set MALWARE_SCANNER=clamav.'
+    );
+  }
+} else {
+  console.log(`✅ ${malwareScanner.name} malware scanner configured`);
+}
+
+export { malwareScanner };
@@ -1,57 +1,97 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { StorageDriver } from '../services/storage/storageDriver';
+import { SupabaseStorageDriver } from '../services/storage/supabase.driver';
+import { S3StorageDriver } from '../services/storage/s3.driver';
+import { LocalStorageDriver } from '../services/storage/local.driver';
 
-interface StorageConfig {
-  bucket: string;
-  baseUrl: string | null;
-}
+type StorageDriverName = 'supabase' | 's3' | 'local';
 
-// Check if Supabase is configured
 const isSupabaseConfigured = !!(
   process.env.SUPABASE_URL &&
   process.env.SUPABASE_ANON_KEY &&
   process.env.SUPABASE_BUCKET
 );
 
-let supabase: SupabaseClient | null = null;
-let storageConfig: StorageConfig = {
-  bucket: process.env.SUPABASE_BUCKET || 'rentverse-uploads',
-  baseUrl: null,
-};
+// Supabase when configured; outside production, local disk otherwise so
+// uploads work offline
+const driverName = (process.env.STORAGE_DRIVER ||
+  (isSupabaseConfigured
+    ? 'supabase'
+    : process.env.NODE_ENV === 'production'
+      ? ''
+      : 'local')) as StorageDriverName | '';
+
+const createDriver = (): StorageDriver | null => {
+  switch (driverName) {
+    case 'supabase':
+      if (!isSupabaseConfigured) {
+        console.warn(
+          'Please set SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_BUCKET in your .env file'
+        );
+        return null;
+      }
+      return new SupabaseStorageDriver(
+        process.env.SUPABASE_URL!,
+        // Signing URLs for the private bucket needs the service role
+        process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY!,
+        process.env.SUPABASE_BUCKET!,
+        process.env.SUPABASE_PRIVATE_BUCKET ||
+          `${process.env.SUPABASE_BUCKET}-private`
+      );
 
-if (isSupabaseConfigured) {
-  try {
-    supabase = createClient(
-      process.env.SUPABASE_URL!,
-      process.env.SUPABASE_ANON_KEY!,
-      {
-        auth: {
-          persistSession: false
-        }
+    case 's3':
+      if (!process.env.S3_BUCKET) {
+        console.warn('Please set S3_BUCKET (and S3_REGION) in your .env file');
+        return null;
       }
-    );
+      return new S3StorageDriver({
+        bucket: process.env.S3_BUCKET,
+        privateBucket: process.env.S3_PRIVATE_BUCKET || undefined,
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        publicUrl: process.env.S3_PUBLIC_URL || undefined,
+      });
 
-    // Generate base URL for public files
-    storageConfig.baseUrl = `${process.env.SUPABASE_URL}/storage/v1/object/public/${storageConfig.bucket}`;
+    case 'local':
+      return new LocalStorageDriver(
+        process.env.LOCAL_STORAGE_DIR || 'storage',
+        process.env.LOCAL_PRIVATE_STORAGE_DIR || 'storage-private',
+        process.env.API_PUBLIC_URL ||
+          `http://localhost:${process.env.PORT || 3005}`,
+        process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET!
+      );
 
-    console.log('✅ Supabase storage configured successfully');
-    console.log(`   Bucket: ${storageConfig.bucket}`);
-    console.log(`   URL: ${process.env.SUPABASE_URL}`);
-  } catch (error) {
-    console.error('❌ Failed to configure Supabase storage:', error);
+    default:
+      if (driverName) {
+        console.warn(
+          `Unknown STORAGE_DRIVER "${driverName}", expected supabase, s3 or local`
+        );
+      }
+      return null;
   }
+};
+
+let storage: StorageDriver | null = null;
+try {
+  storage = createDriver();
+} catch (error) {
+  console.error('❌ Failed to configure storage:', error);
+}
+
+if (storage) {
+  console.log(`✅ ${storage.name} storage configured successfully`);
+  console.log(`   Bucket: ${storage.bucket}`);
+  console.log(`   URL: ${storage.baseUrl}`);
 } else {
   console.warn(
-    '⚠️ Supabase storage not configured. File upload features will be disabled.'
-  );
-  console.warn(
-    'Please set SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_BUCKET in your .env file'
+    '⚠️ Storage not configured. File upload features will be disabled.'
   );
 }
 
-export {
-  supabase,
-  storageConfig,
-  isSupabaseConfigured as isStorageConfigured,
-};
+const isStorageConfigured = !!storage;
+
+export { storage, isStorageConfigured };
 
 export const STORAGE_FOLDER_PREFIX = process.env.STORAGE_FOLDER_PREFIX || 'rentverse';
@@ -1,10 +1,10 @@
-import { pgTable, uuid, varchar, text, decimal, integer, boolean, timestamp, pgEnum, json, real } from 'drizzle-orm/pg-core';
-import { relations, sql } from 'drizzle-orm';
+import { pgTable, uuid, varchar, text, decimal, integer, boolean, timestamp, pgEnum, json, real, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql, SQLWrapper } from 'drizzle-orm';
 
 // Enums matching Prisma schema
 export const roleEnum = pgEnum('Role', ['USER', 'ADMIN', 'HOST', 'LANDLORD']);
-export const listingStatusEnum = pgEnum('ListingStatus', ['PENDING_REVIEW', 'APPROVED', 'REJECTED']);
-export const approvalStatusEnum = pgEnum('ApprovalStatus', ['PENDING', 'APPROVED', 'REJECTED']);
+export const listingStatusEnum = pgEnum('ListingStatus', ['PENDING_REVIEW', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED']);
+export const approvalStatusEnum = pgEnum('ApprovalStatus', ['PENDING', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED']);
 export const leaseStatusEnum = pgEnum('LeaseStatus', ['PENDING', 'APPROVED', 'REJECTED', 'ACTIVE', 'COMPLETED']);
 export const invoiceTypeEnum = pgEnum('InvoiceType', ['RENT', 'DEPOSIT', 'UTILITY', 'OTHER']);
 export const invoiceStatusEnum = pgEnum('InvoiceStatus', ['DUE', 'PAID', 'VOID', 'REFUNDED']);
@@ -13,6 +13,7 @@ export const paymentStatusEnum = pgEnum('PaymentStatus', ['PENDING', 'COMPLETED'
 export const bookingStatusEnum = pgEnum('BookingStatus', ['PENDING', 'CONFIRMED', 'ACTIVE', 'COMPLETED', 'CANCELLED']);
 export const paymentTypeEnum = pgEnum('PaymentType', ['CASH', 'ONLINE']);
 export const installmentStatusEnum = pgEnum('InstallmentStatus', ['UNPAID', 'PAID', 'OVERDUE']);
+export const roomTagEnum = pgEnum('RoomTag', ['LIVING_ROOM', 'BEDROOM', 'KITCHEN', 'BATHROOM', 'DINING_ROOM', 'BALCONY', 'EXTERIOR', 'FLOOR_PLAN', 'FACILITIES', 'OTHER']);
 export const landlordRegistrationStatusEnum = pgEnum('LandlordRegistrationStatus', ['PENDING', 'APPROVED', 'REJECTED']);
 
 // Property Types table
@@ -50,14 +51,24 @@ export const users = pgTable('users', {
   createdAt: timestamp('createdAt').defaultNow().notNull(),
   updatedAt: timestamp('updatedAt').defaultNow().notNull(),
   verifiedAt: timestamp('verifiedAt'),
+  deletedAt: timestamp('deletedAt'), // Set when an admin deletes the account; PII is anonymized
   // OAuth IDs
   googleId: varchar('googleId').unique(),
   facebookId: varchar('facebookId').unique(),
   appleId: varchar('appleId').unique(),
   githubId: varchar('githubId').unique(),
   twitterId: varchar('twitterId').unique(),
+  // TOTP two-factor authentication
+  twoFactorSecret: varchar('twoFactorSecret'),
+  twoFactorEnabledAt: timestamp('twoFactorEnabledAt'),
+  twoFactorLastUsedStep: integer('twoFactorLastUsedStep'),
 });
 
+// Weighted full-text document for property search. The search index is built
+// on this expression, so queries must use it unchanged to hit the index.
+export const propertySearchDocument = (columns: Record<'title' | 'projectName' | 'developer' | 'city' | 'address' | 'description', SQLWrapper>) =>
+  sql`(setweight(to_tsvector('english', coalesce(${columns.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${columns.projectName}, '') || ' ' || coalesce(${columns.developer}, '')), 'B') || setweight(to_tsvector('english', ${columns.city} || ' ' || ${columns.address}), 'B') || setweight(to_tsvector('english', coalesce(${columns.description}, '')), 'C'))`;
+
 // Properties table
 export const properties = pgTable('properties', {
   id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
@@ -87,12 +98,49 @@ export const properties = pgTable('properties', {
   code: varchar('code').notNull().unique(),
   status: listingStatusEnum('status').default('PENDING_REVIEW').notNull(),
   viewCount: integer('viewCount').default(0).notNull(),
+  // Automated pre-screening: 0-100 score and what the rules flagged
+  screeningScore: integer('screeningScore'),
+  screeningFlags: json('screeningFlags').$type<{ code: string; message: string; penalty: number; details?: Record<string, unknown> }[]>(),
+  screenedAt: timestamp('screenedAt'),
   createdAt: timestamp('createdAt').defaultNow().notNull(),
   updatedAt: timestamp('updatedAt').defaultNow().notNull(),
   // Relations
   ownerId: uuid('ownerId').notNull().references(() => users.id, { onDelete: 'cascade' }),
   propertyTypeId: uuid('propertyTypeId').notNull().references(() => propertyTypes.id),
-});
+}, table => ({
+  // Nearby and map viewport searches filter on a coordinate box first
+  locationIdx: index('properties_location_idx').on(table.latitude, table.longitude),
+  // Full-text search, and trigram indexes for typo-tolerant matching and autocomplete (needs pg_trgm)
+  searchIdx: index('properties_search_idx').using('gin', propertySearchDocument(table)),
+  titleTrgmIdx: index('properties_title_trgm_idx').using('gin', table.title.op('gin_trgm_ops')),
+  cityTrgmIdx: index('properties_city_trgm_idx').using('gin', table.city.op('gin_trgm_ops')),
+  projectNameTrgmIdx: index('properties_project_name_trgm_idx').using('gin', table.projectName.op('gin_trgm_ops')),
+  developerTrgmIdx: index('properties_developer_trgm_idx').using('gin', table.developer.op('gin_trgm_ops')),
+  // Moderation queue ordered by screening score
+  screeningIdx: index('properties_screening_idx').on(table.status, table.screeningScore),
+}));
+
+// Property Images table - properties.images keeps the ordered URLs for listing responses
+export const propertyImages = pgTable('property_images', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: uuid('propertyId').notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  url: varchar('url').notNull(),
+  // Path in our storage; null for images hosted elsewhere
+  storagePath: varchar('storagePath'),
+  position: integer('position').notNull(),
+  isCover: boolean('isCover').default(false).notNull(),
+  caption: text('caption'),
+  roomTag: roomTagEnum('roomTag'),
+  width: integer('width'),
+  height: integer('height'),
+  uploadedById: uuid('uploadedById').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('createdAt').defaultNow().notNull(),
+  updatedAt: timestamp('updatedAt').defaultNow().notNull(),
+}, table => ({
+  propertyIdx: index('property_images_property_idx').on(table.propertyId, table.position),
+  // At most one cover per listing
+  coverIdx: uniqueIndex('property_images_cover_idx').on(table.propertyId).where(sql`${table.isCover}`),
+}));
 
 // Property Amenities junction table
 export const propertyAmenities = pgTable('property_amenities', {
@@ -102,16 +150,25 @@ export const propertyAmenities = pgTable('property_amenities', {
   pk: { primaryKey: [table.propertyId, table.amenityId] }
 }));
 
-// Listing Approvals table
+// Listing Approvals table - one row per review, so the full history is kept
 export const listingApprovals = pgTable('listing_approvals', {
   id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
-  propertyId: uuid('propertyId').notNull().unique().references(() => properties.id, { onDelete: 'cascade' }),
+  propertyId: uuid('propertyId').notNull().references(() => properties.id, { onDelete: 'cascade' }),
+  // Moderator the review is assigned to, and who made the decision
   reviewerId: uuid('reviewerId').references(() => users.id),
+  assignedAt: timestamp('assignedAt'),
   status: approvalStatusEnum('status').default('PENDING').notNull(),
+  reasons: json('reasons').$type<string[]>(), // rejection reason codes
   notes: text('notes'),
+  // Fields whose edit sent an approved listing back to review
+  changedFields: json('changedFields').$type<string[]>(),
   reviewedAt: timestamp('reviewedAt'),
   createdAt: timestamp('createdAt').defaultNow().notNull(),
-});
+}, table => ({
+  propertyIdx: index('listing_approvals_property_idx').on(table.propertyId, table.createdAt),
+  // At most one open review per listing
+  openIdx: uniqueIndex('listing_approvals_open_idx').on(table.propertyId).where(sql`${table.status} = 'PENDING'`),
+}));
 
 // Leases table
 export const leases = pgTable('leases', {
@@ -361,6 +418,120 @@ export const landlordRegistrations = pgTable('landlord_registrations', {
   updatedAt: timestamp('updatedAt').defaultNow().notNull(),
 });
 
+// User Sessions table - one row per logged-in device (refresh token family)
+export const userSessions = pgTable('user_sessions', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid('userId').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  deviceId: varchar('deviceId'),
+  deviceName: varchar('deviceName'),
+  platform: varchar('platform'),
+  ipAddress: varchar('ipAddress'),
+  userAgent: text('userAgent'),
+  lastSeenAt: timestamp('lastSeenAt').defaultNow().notNull(),
+  expiresAt: timestamp('expiresAt').notNull(),
+  revokedAt: timestamp('revokedAt'),
+  revokedReason: varchar('revokedReason'),
+  createdAt: timestamp('createdAt').defaultNow().notNull(),
+  updatedAt: timestamp('updatedAt').defaultNow().notNull(),
+});
+
+// Refresh Tokens table - only the SHA-256 hash of each token is stored
+export const refreshTokens = pgTable('refresh_tokens', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: uuid('sessionId').notNull().references(() => userSessions.id, { onDelete: 'cascade' }),
+  userId: uuid('userId').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar('tokenHash').notNull().unique(),
+  expiresAt: timestamp('expiresAt').notNull(),
+  rotatedAt: timestamp('rotatedAt'),
+  replacedById: uuid('replacedById'),
+  createdAt: timestamp('createdAt').defaultNow().notNull(),
+});
+
+// Password Reset Tokens table - single-use, only the SHA-256 hash is stored
+export const passwordResetTokens = pgTable('password_reset_tokens', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid('userId').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar('tokenHash').notNull().unique(),
+  expiresAt: timestamp('expiresAt').notNull(),
+  usedAt: timestamp('usedAt'),
+  requestedIp: varchar('requestedIp'),
+  createdAt: timestamp('createdAt').defaultNow().notNull(),
+});
+
+// Two-Factor Recovery Codes table - single-use, only the SHA-256 hash is stored
+export const twoFactorRecoveryCodes = pgTable('two_factor_recovery_codes', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid('userId').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: varchar('codeHash').notNull(),
+  usedAt: timestamp('usedAt'),
+  createdAt: timestamp('createdAt').defaultNow().notNull(),
+});
+
+// Login Throttles table - failed login counters keyed by "account:<email>" or "ip:<address>"
+export const loginThrottles = pgTable('login_throttles', {
+  key: varchar('key').primaryKey(),
+  failureCount: integer('failureCount').default(0).notNull(),
+  lastFailureAt: timestamp('lastFailureAt'),
+  delayUntil: timestamp('delayUntil'),
+  lockedUntil: timestamp('lockedUntil'),
+  updatedAt: timestamp('updatedAt').defaultNow().notNull(),
+});
+
+// Security Events table - lockouts, unlocks and other events admins can review
+export const securityEvents = pgTable('security_events', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar('type').notNull(),
+  userId: uuid('userId').references(() => users.id, { onDelete: 'set null' }),
+  email: varchar('email'),
+  ipAddress: varchar('ipAddress'),
+  userAgent: text('userAgent'),
+  actorId: uuid('actorId').references(() => users.id, { onDelete: 'set null' }),
+  metadata: json('metadata'),
+  createdAt: timestamp('createdAt').defaultNow().notNull(),
+});
+
+// Audit Events table - who changed what, with a before/after diff
+export const auditEvents = pgTable('audit_events', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  actorId: uuid('actorId').references(() => users.id, { onDelete: 'set null' }),
+  action: varchar('action').notNull(),
+  entityType: varchar('entityType').notNull(),
+  entityId: varchar('entityId'),
+  changes: json('changes'), // { field: { from, to } }
+  metadata: json('metadata'),
+  ipAddress: varchar('ipAddress'),
+  userAgent: text('userAgent'),
+  requestId: varchar('requestId'),
+  createdAt: timestamp('createdAt').defaultNow().notNull(),
+});
+
+// Uploads table - files sent to the upload endpoints; ones never attached to
+// anything are deleted after a while
+export const uploads = pgTable('uploads', {
+  id: uuid('id').primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: uuid('ownerId').references(() => users.id, { onDelete: 'set null' }),
+  // Storage path, as returned by the upload
+  key: varchar('key').notNull(),
+  size: integer('size').notNull(),
+  mimetype: varchar('mimetype').notNull(),
+  // What uses the file, e.g. 'property' and its id; null while unattached
+  referencedByType: varchar('referencedByType'),
+  referencedById: varchar('referencedById'),
+  referencedAt: timestamp('referencedAt'),
+  createdAt: timestamp('createdAt').defaultNow().notNull(),
+}, table => ({
+  keyIdx: uniqueIndex('uploads_key_idx').on(table.key),
+  orphanIdx: index('uploads_orphan_idx').on(table.createdAt).where(sql`${table.referencedByType} IS NULL`),
+}));
+
+// App Settings table - admin-managed policies stored as JSON by key
+export const appSettings = pgTable('app_settings', {
+  key: varchar('key').primaryKey(),
+  value: json('value').notNull(),
+  updatedById: uuid('updatedById').references(() => users.id, { onDelete: 'set null' }),
+  updatedAt: timestamp('updatedAt').defaultNow().notNull(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   properties: many(properties),
@@ -375,6 +546,12 @@ export const usersRelations = relations(users, ({ many }) => ({
   propertyFavorites: many(propertyFavorites),
   signatures: many(userSignatures),
   landlordRegistrations: many(landlordRegistrations),
+  sessions: many(userSessions),
+  passwordResetTokens: many(passwordResetTokens),
+  twoFactorRecoveryCodes: many(twoFactorRecoveryCodes),
+  securityEvents: many(securityEvents, { relationName: 'SecurityEventUser' }),
+  auditEvents: many(auditEvents),
+  uploads: many(uploads),
 }));
 
 export const propertyTypesRelations = relations(propertyTypes, ({ many }) => ({
@@ -395,6 +572,7 @@ export const propertiesRelations = relations(properties, ({ one, many }) => ({
     references: [propertyTypes.id],
   }),
   amenities: many(propertyAmenities),
+  media: many(propertyImages),
   leases: many(leases),
   bookings: many(bookings),
   approvals: many(listingApprovals),
@@ -415,6 +593,17 @@ export const propertyAmenitiesRelations = relations(propertyAmenities, ({ one })
   }),
 }));
 
+export const propertyImagesRelations = relations(propertyImages, ({ one }) => ({
+  property: one(properties, {
+    fields: [propertyImages.propertyId],
+    references: [properties.id],
+  }),
+  uploadedBy: one(users, {
+    fields: [propertyImages.uploadedById],
+    references: [users.id],
+  }),
+}));
+
 export const listingApprovalsRelations = relations(listingApprovals, ({ one }) => ({
   property: one(properties, {
     fields: [listingApprovals.propertyId],
@@ -555,3 +744,63 @@ export const userSignaturesRelations = relations(userSignatures, ({ one }) => ({
     references: [users.id],
   }),
 }));
+
+export const userSessionsRelations = relations(userSessions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [userSessions.userId],
+    references: [users.id],
+  }),
+  refreshTokens: many(refreshTokens),
+}));
+
+export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
+  session: one(userSessions, {
+    fields: [refreshTokens.sessionId],
+    references: [userSessions.id],
+  }),
+  user: one(users, {
+    fields: [refreshTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordResetTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const twoFactorRecoveryCodesRelations = relations(twoFactorRecoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorRecoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const uploadsRelations = relations(uploads, ({ one }) => ({
+  owner: one(users, {
+    fields: [uploads.ownerId],
+    references: [users.id],
+  }),
+}));
+
+export const securityEventsRelations = relations(securityEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [securityEvents.userId],
+    references: [users.id],
+    relationName: 'SecurityEventUser',
+  }),
+  actor: one(users, {
+    fields: [securityEvents.actorId],
+    references: [users.id],
+    relationName: 'SecurityEventActor',
+  }),
+}));
@@ -3,7 +3,17 @@ import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import rateLimit from 'express-rate-limit';
+import multer from 'multer';
 import { connectDB, disconnectDB } from './config/database';
+import { requestId } from './middleware/requestId';
+import { auditRequests } from './middleware/audit';
+import uploadsService from './services/uploads.service';
+import { storage } from './config/storage';
+import {
+  LOCAL_FILES_ROUTE,
+  LOCAL_PRIVATE_FILES_ROUTE,
+  LocalStorageDriver,
+} from './services/storage/local.driver';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -18,21 +28,64 @@ import predictionsRoutes from './modules/predictions/predictions.routes';
 import reviewsRoutes from './modules/reviews/reviews.routes';
 import newBookingsRoutes from './modules/newBookings/booking.routes';
 import landlordRegistrationRoutes from './modules/landlordRegistration/landlordRegistration.routes';
+import securityRoutes from './modules/security/security.routes';
+import auditRoutes from './modules/audit/audit.routes';
+import searchRoutes from './modules/search/search.routes';
+import documentsRoutes from './modules/documents/documents.routes';
+import moderationRoutes from './modules/moderation/moderation.routes';
 import mobileRoutes from './routes/mobile';
 
 const app = express();
 const PORT = process.env.PORT || 3005;
 
+// Behind a load balancer, trust X-Forwarded-For so req.ip is the client IP
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  // Hop count, true, or a comma-separated list of proxy addresses
+  app.set('trust proxy', trustProxy === 'true' ? true : Number(trustProxy) || trustProxy);
+}
+
+// Request id, echoed back and attached to audit events
+app.use(requestId);
+
 // Security middleware
 app.use(helmet());
 app.use(cors());
 app.use(compression());
 
+// Files of the local storage driver; other drivers serve their own
+if (storage instanceof LocalStorageDriver) {
+  const localDriver = storage;
+  app.use(
+    LOCAL_FILES_ROUTE,
+    express.static(localDriver.root, {
+      index: false,
+      dotfiles: 'deny',
+      // Shown by the web and mobile apps from other origins
+      setHeaders: res => res.set('Cross-Origin-Resource-Policy', 'cross-origin'),
+    })
+  );
+  // Private files, through the signed URLs handed out by the documents API
+  app.get(`${LOCAL_PRIVATE_FILES_ROUTE}/*`, (req, res) => {
+    res.set('Cross-Origin-Resource-Policy', 'cross-origin');
+    localDriver.serveSigned(req, res);
+  });
+}
+
 // Rate limiting
+// Login attempts are throttled per account and per IP by the login protection
+// service instead, so users behind a shared NAT are not blocked by this limit
+const LOGIN_PATHS = [
+  '/api/v1/auth/login',
+  '/api/v1/m/auth/login',
+  '/api/v1/auth/2fa/verify',
+  '/api/v1/m/auth/2fa/verify',
+];
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
   message: 'Too many requests from this IP, please try again later.',
+  skip: req => LOGIN_PATHS.includes(req.path),
 });
 app.use(limiter);
 
@@ -92,6 +145,9 @@ app.post('/cors-test', (req, res) => {
   });
 });
 
+// Successful changes by logged-in users end up in the audit log
+app.use(auditRequests);
+
 // API routes
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/users', usersRoutes);
@@ -105,6 +161,11 @@ app.use('/api/v1/predictions', predictionsRoutes);
 app.use('/api/v1/reviews', reviewsRoutes);
 app.use('/api/v1/new-bookings', newBookingsRoutes);
 app.use('/api/v1/landlord-registration', landlordRegistrationRoutes);
+app.use('/api/v1/security', securityRoutes);
+app.use('/api/v1/audit', auditRoutes);
+app.use('/api/v1/search', searchRoutes);
+app.use('/api/v1/documents', documentsRoutes);
+app.use('/api/v1/moderation', moderationRoutes);
 
 // Mobile API routes
 app.use('/api/v1/m', mobileRoutes);
@@ -120,6 +181,15 @@ app.use('*', (req, res) => {
 
 // Global error handler
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Upload limits, such as a file over the size limit
+  if (err instanceof multer.MulterError) {
+    res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+      success: false,
+      error: err.message,
+    });
+    return;
+  }
+
   console.error('Global error:', err);
   
   res.status(500).json({
@@ -159,6 +229,9 @@ async function startServer() {
       console.log('   • Predictions: /api/v1/predictions');
       console.log('   • Reviews: /api/v1/reviews');
       console.log('   • Upload: /api/v1/upload');
+      console.log('   • Security (Admin): /api/v1/security');
+      console.log('   • Moderation (Admin): /api/v1/moderation');
+      console.log('   • Documents: /api/v1/documents');
       console.log('   • Mobile API: /api/v1/m');
       console.log('');
       console.log('📱 Mobile Endpoints:');
@@ -178,9 +251,22 @@ async function startServer() {
       console.log('');
     });
 
+    // Delete uploads never attached to anything. 0 turns this off, e.g. when
+    // a scheduler runs `npm run uploads:gc` instead.
+    const uploadGcMinutes = parseInt(process.env.UPLOAD_GC_INTERVAL_MINUTES || '60');
+    const uploadGc =
+      uploadGcMinutes > 0
+        ? setInterval(() => {
+            uploadsService.collectOrphans().catch(error => {
+              console.error('Orphaned upload collection error:', error);
+            });
+          }, uploadGcMinutes * 60 * 1000)
+        : null;
+
     // Graceful shutdown
     const gracefulShutdown = async (signal: string) => {
       console.log(`🛑 Received ${signal}. Shutting down gracefully...`);
+      if (uploadGc) clearInterval(uploadGc);
       
       server.close(async () => {
         await disconnectDB();
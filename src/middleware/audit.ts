@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import auditService from '../services/audit.service';
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Record every successful mutating request by a logged-in user. Handlers that
+ * record a detailed event with a diff through the audit service are skipped.
+ */
+export const auditRequests = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!MUTATING_METHODS.includes(req.method)) {
+    next();
+    return;
+  }
+
+  res.on('finish', () => {
+    if (!req.user || res.statusCode >= 400 || res.locals.auditRecorded) {
+      return;
+    }
+
+    const routePath = `${req.baseUrl}${req.route?.path || req.path}`;
+    const params = req.params || {};
+
+    void auditService.record(req, {
+      action: 'API_REQUEST',
+      entityType: req.baseUrl.split('/').filter(Boolean).pop() || 'api',
+      entityId: params.id || Object.values(params)[0] || null,
+      metadata: {
+        method: req.method,
+        path: routePath,
+        statusCode: res.statusCode,
+      },
+    });
+  });
+
+  next();
+};
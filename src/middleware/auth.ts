@@ -4,12 +4,17 @@ import { db } from '../config/database';
 import { users } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { JwtPayload, User } from '../types';
+import tokenService from '../services/token.service';
+import securityPolicyService from '../services/securityPolicy.service';
+import { Action, can } from '../policies/permissions';
 
 // Extend Express Request type
 declare global {
   namespace Express {
     interface Request {
       user?: User;
+      sessionId?: string;
+      requestId?: string;
     }
   }
 }
@@ -27,6 +32,15 @@ export const auth = async (req: Request, res: Response, next: NextFunction): Pro
     }
 
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload;
+
+    // Every access token is bound to a session so it can be revoked
+    if (!decoded.sessionId || !(await tokenService.isSessionActive(decoded.sessionId))) {
+      res.status(401).json({
+        success: false,
+        error: 'Session has been revoked. Please log in again.',
+      });
+      return;
+    }
     
     const [user] = await db
       .select()
@@ -42,7 +56,16 @@ export const auth = async (req: Request, res: Response, next: NextFunction): Pro
       return;
     }
 
+    if (!user.isActive) {
+      res.status(403).json({
+        success: false,
+        error: 'Account is suspended. Please contact support.',
+      });
+      return;
+    }
+
     req.user = user;
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     res.status(401).json({
@@ -52,8 +75,12 @@ export const auth = async (req: Request, res: Response, next: NextFunction): Pro
   }
 };
 
-export const authorize = (...roles: string[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
+/**
+ * Allow the request only if the user's role is granted the action outright.
+ * Ownership-based checks need the resource and are done with `can()` where it is loaded.
+ */
+export const requirePermission = (action: Action) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       res.status(401).json({
         success: false,
@@ -62,7 +89,7 @@ export const authorize = (...roles: string[]) => {
       return;
     }
 
-    if (!roles.includes(req.user.role)) {
+    if (!can(req.user, action)) {
       res.status(403).json({
         success: false,
         error: 'Access denied. Insufficient permissions.',
@@ -70,6 +97,43 @@ export const authorize = (...roles: string[]) => {
       return;
     }
 
+    try {
+      // Privileged routes stay closed until 2FA is enabled where the policy requires it
+      if (
+        !req.user.twoFactorEnabledAt &&
+        (await securityPolicyService.isTwoFactorRequired(req.user.role))
+      ) {
+        res.status(403).json({
+          success: false,
+          error: 'Two-factor authentication is required for your role. Please enable it to continue.',
+        });
+        return;
+      }
+    } catch (error) {
+      next(error);
+      return;
+    }
+
     next();
   };
 };
+
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Access denied. Authentication required.',
+    });
+    return;
+  }
+
+  if (!req.user.verifiedAt) {
+    res.status(403).json({
+      success: false,
+      error: 'Email verification required. Please verify your email address.',
+    });
+    return;
+  }
+
+  next();
+};
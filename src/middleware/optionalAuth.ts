@@ -4,6 +4,7 @@ import { db } from '../config/database';
 import { users } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { JwtPayload } from '../types';
+import tokenService from '../services/token.service';
 
 export const optionalAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -11,6 +12,10 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
 
     if (token) {
       const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload;
+
+      if (!decoded.sessionId || !(await tokenService.isSessionActive(decoded.sessionId))) {
+        return next();
+      }
       
       const [user] = await db
         .select()
@@ -18,8 +23,9 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
         .where(eq(users.id, decoded.userId))
         .limit(1);
 
-      if (user) {
+      if (user?.isActive) {
         req.user = user;
+        req.sessionId = decoded.sessionId;
       }
     }
     
@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Tag every request with an id, reusing a well-formed X-Request-Id from a
+ * proxy, and echo it back so clients can quote it
+ */
+export const requestId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const incoming = req.header('X-Request-Id');
+  req.requestId =
+    incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.set('X-Request-Id', req.requestId);
+  next();
+};
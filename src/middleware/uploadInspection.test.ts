@@ -0,0 +1,111 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import type { NextFunction, Request, Response } from 'express';
+import { EICAR_TEST_STRING } from '../services/scanning/fake.scanner';
+
+vi.mock('../services/securityEvents.service', () => ({
+  default: { record: vi.fn() },
+}));
+
+const pdf = (body: string) =>
+  Buffer.from(`%PDF-1.4\n${body}\ntrailer\n<<>>\n%%EOF\n`, 'latin1');
+
+const fileOf = (buffer: Buffer, mimetype = 'application/pdf') =>
+  ({
+    originalname: 'document.pdf',
+    mimetype,
+    size: buffer.length,
+    buffer,
+  }) as Express.Multer.File;
+
+describe('inspectUploads', () => {
+  let inspectUploads: typeof import('./uploadInspection').inspectUploads;
+  let securityEventsService: typeof import('../services/securityEvents.service').default;
+  let fileUploadService: typeof import('../utils/fileUpload').default;
+
+  const inspect = async (file: Express.Multer.File) => {
+    const res = {
+      statusCode: 200,
+      body: undefined as unknown,
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json(body: unknown) {
+        this.body = body;
+        return this;
+      },
+    };
+    const next = vi.fn() as unknown as NextFunction;
+    await inspectUploads(
+      { file, header: () => undefined } as unknown as Request,
+      res as unknown as Response,
+      next
+    );
+    return { res, next };
+  };
+
+  beforeAll(async () => {
+    // The scanner is picked when its config is first loaded
+    vi.stubEnv('MALWARE_SCANNER', 'fake');
+    ({ inspectUploads } = await import('./uploadInspection'));
+    securityEventsService = (await import('../services/securityEvents.service'))
+      .default;
+    fileUploadService = (await import('../utils/fileUpload')).default;
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(fileUploadService, 'quarantineFile').mockResolvedValue(
+      'rentverse/quarantine/file'
+    );
+  });
+
+  it('passes clean files on', async () => {
+    const { res, next } = await inspect(fileOf(pdf('1 0 obj\n<<>>\nendobj')));
+
+    expect(next).toHaveBeenCalled();
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('refuses files whose content does not match their type', async () => {
+    const { res, next } = await inspect(
+      fileOf(pdf('1 0 obj\n<<>>\nendobj'), 'image/png')
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('quarantines flagged files and records the event', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const file = fileOf(pdf(EICAR_TEST_STRING));
+
+    const { res, next } = await inspect(file);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(422);
+    expect(fileUploadService.quarantineFile).toHaveBeenCalledWith(file);
+    expect(securityEventsService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'UPLOAD_QUARANTINED',
+        metadata: expect.objectContaining({
+          scanner: 'fake',
+          signature: 'Eicar-Test-Signature',
+          quarantinePath: 'rentverse/quarantine/file',
+        }),
+      })
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import { malwareScanner } from '../config/malwareScan';
+import securityEventsService from '../services/securityEvents.service';
+import fileUploadService from '../utils/fileUpload';
+import { verifyFileContent } from '../utils/fileContent';
+
+// Files multer parsed from the request, however they were declared
+const uploadedFiles = (req: Request): Express.Multer.File[] => {
+  if (req.file) return [req.file];
+  if (Array.isArray(req.files)) return req.files;
+  return req.files ? Object.values(req.files).flat() : [];
+};
+
+/**
+ * Check every file multer parsed before a handler stores it: its content
+ * must be what it claims to be, and the malware scan must pass. Flagged
+ * files are quarantined, never stored where they were sent. Mount it right
+ * after the multer middleware.
+ */
+export const inspectUploads = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  for (const file of uploadedFiles(req)) {
+    try {
+      await verifyFileContent(file);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: `${file.originalname}: ${(error as Error).message}`,
+      });
+      return;
+    }
+
+    let result;
+    try {
+      result = await malwareScanner.scan(file.buffer);
+    } catch (error) {
+      console.error('Malware scan error:', error);
+      res.status(503).json({
+        success: false,
+        error: 'Uploads cannot be scanned right now, please try again later',
+      });
+      return;
+    }
+
+    if (!result.clean) {
+      let quarantinePath: string | null = null;
+      try {
+        quarantinePath = await fileUploadService.quarantineFile(file);
+      } catch (error) {
+        console.error('Quarantine error:', error);
+      }
+
+      try {
+        await securityEventsService.record({
+          type: 'UPLOAD_QUARANTINED',
+          userId: req.user?.id,
+          email: req.user?.email.toLowerCase(),
+          ipAddress: req.ip,
+          userAgent: req.header('User-Agent'),
+          metadata: {
+            scanner: malwareScanner.name,
+            signature: result.signature,
+            originalName: file.originalname,
+            mimetype: file.mimetype,
+            size: file.size,
+            quarantinePath,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to record quarantined upload:', error);
+      }
+
+      res.status(422).json({
+        success: false,
+        error: `${file.originalname}: File was rejected by the malware scan`,
+      });
+      return;
+    }
+  }
+
+  next();
+};
@@ -1,6 +1,6 @@
 import express from 'express';
 import { body } from 'express-validator';
-import { auth, authorize } from '../../middleware/auth';
+import { auth, requirePermission } from '../../middleware/auth';
 import amenitiesController from './amenities.controller';
 
 const router = express.Router();
@@ -11,7 +11,7 @@ router.get('/:id', amenitiesController.getAmenityById);
 router.post(
   '/',
   auth,
-  authorize('ADMIN'),
+  requirePermission('amenity:manage'),
   [
     body('name').notEmpty().withMessage('Name is required'),
     body('category').notEmpty().withMessage('Category is required'),
@@ -19,7 +19,7 @@ router.post(
   amenitiesController.createAmenity
 );
 
-router.put('/:id', auth, authorize('ADMIN'), amenitiesController.updateAmenity);
-router.delete('/:id', auth, authorize('ADMIN'), amenitiesController.deleteAmenity);
+router.put('/:id', auth, requirePermission('amenity:manage'), amenitiesController.updateAmenity);
+router.delete('/:id', auth, requirePermission('amenity:manage'), amenitiesController.deleteAmenity);
 
 export default router;
@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { PaginatedResponse } from '../../types';
+import auditService from '../../services/audit.service';
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+class AuditController {
+  /**
+   * Query the audit log by actor, entity, action and date range (Admin only)
+   */
+  async getEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const { actorId, action, entityType, entityId, from, to, page, limit } =
+        req.query;
+
+      const { events, pagination } = await auditService.list({
+        actorId: actorId as string | undefined,
+        action: action as string | undefined,
+        entityType: entityType as string | undefined,
+        entityId: entityId as string | undefined,
+        from: parseDate(from),
+        to: parseDate(to),
+        page: Math.max(Number(page) || 1, 1),
+        limit: Math.min(Math.max(Number(limit) || 20, 1), 100),
+      });
+
+      const response: PaginatedResponse = {
+        success: true,
+        data: events,
+        pagination,
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get audit events error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch audit events',
+        message: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new AuditController();
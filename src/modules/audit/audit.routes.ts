@@ -0,0 +1,68 @@
+import express from 'express';
+import { auth, requirePermission } from '../../middleware/auth';
+import auditController from './audit.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/audit/events:
+ *   get:
+ *     summary: Query the audit log (Admin only)
+ *     description: Changes made through the API, newest first. Status changes, registration reviews, manual payment confirmations and booking changes carry a before/after diff; other changes record the request that made them.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           example: PROPERTY_STATUS_UPDATED
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           example: property
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Audit events retrieved successfully
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get(
+  '/events',
+  auth,
+  requirePermission('audit:view'),
+  auditController.getEvents
+);
+
+export default router;
@@ -5,6 +5,8 @@ import { bookings, properties, users, installments } from '../../db/schema';
 import { eq, and, desc, count, gte, lte, sql } from 'drizzle-orm';
 import { ApiResponse, PaginatedResponse } from '../../types';
 import { cache } from '../../utils/cache';
+import { can } from '../../policies/permissions';
+import auditService from '../../services/audit.service';
 
 class BookingsController {
   /**
@@ -127,6 +129,15 @@ class BookingsController {
         return;
       }
 
+      // Check permissions
+      if (!can(req.user, 'booking:view', bookingData.booking)) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied. You can only view your own bookings.',
+        });
+        return;
+      }
+
       // Add installments data
       const installmentsData = await db
         .select({
@@ -273,7 +284,7 @@ class BookingsController {
       }
 
       // Check permissions
-      if (existingBooking.tenantId !== req.user!.id && req.user!.role !== 'ADMIN') {
+      if (!can(req.user, 'booking:update', existingBooking)) {
         res.status(403).json({
           success: false,
           error: 'Access denied. You can only update your own bookings.',
@@ -291,6 +302,14 @@ class BookingsController {
         .where(eq(leases.id, id))
         .returning();
 
+      await auditService.record(req, {
+        action: 'BOOKING_STATUS_UPDATED',
+        entityType: 'booking',
+        entityId: id,
+        before: existingBooking,
+        after: updatedBooking,
+      });
+
       const response: ApiResponse = {
         success: true,
         message: 'Booking updated successfully',
@@ -331,7 +350,7 @@ class BookingsController {
       }
 
       // Check permissions
-      if (existingBooking.userId !== req.user!.id && req.user!.role !== 'ADMIN') {
+      if (!can(req.user, 'booking:cancel', existingBooking)) {
         res.status(403).json({
           success: false,
           error: 'Access denied. You can only cancel your own leases.',
@@ -357,6 +376,14 @@ class BookingsController {
         .where(eq(leases.id, id))
         .returning();
 
+      await auditService.record(req, {
+        action: 'BOOKING_CANCELLED',
+        entityType: 'booking',
+        entityId: id,
+        before: existingBooking,
+        after: cancelledBooking,
+      });
+
       const response: ApiResponse = {
         success: true,
         message: 'Booking cancelled successfully',
@@ -1,11 +1,11 @@
 import express from 'express';
 import { body } from 'express-validator';
-import { auth, authorize } from '../../middleware/auth';
+import { auth, requirePermission, requireVerifiedEmail } from '../../middleware/auth';
 import bookingsController from './bookings.controller';
 
 const router = express.Router();
 
-router.get('/', auth, authorize('ADMIN'), bookingsController.getAllBookings);
+router.get('/', auth, requirePermission('booking:list'), bookingsController.getAllBookings);
 
 router.get('/my', auth, bookingsController.getUserBookings);
 
@@ -14,6 +14,7 @@ router.get('/:id', auth, bookingsController.getBookingById);
 router.post(
   '/',
   auth,
+  requireVerifiedEmail,
   [
     body('propertyId').isUUID().withMessage('Property ID must be a valid UUID'),
     body('startDate').isISO8601().withMessage('Start date must be a valid date'),
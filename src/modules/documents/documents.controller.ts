@@ -0,0 +1,156 @@
+import { Request, Response } from 'express';
+import auditService from '../../services/audit.service';
+import documentsService, {
+  LANDLORD_DOCUMENTS,
+  LandlordDocument,
+  SignedDocument,
+} from './documents.service';
+
+/**
+ * Map document errors to HTTP status codes
+ */
+const sendDocumentError = (res: Response, error: unknown, fallback: string) => {
+  const message = (error as Error).message;
+
+  let status = 500;
+  if (message === 'Document not found') status = 404;
+  else if (message.startsWith('Access denied')) status = 403;
+
+  if (status === 500) {
+    console.error(`${fallback}:`, error);
+  }
+
+  res.status(status).json({
+    success: false,
+    error: status === 500 ? fallback : message,
+    ...(status === 500 && { message }),
+  });
+};
+
+// Who was handed a link to which document
+const sendSignedDocument = async (
+  req: Request,
+  res: Response,
+  entityType: string,
+  entityId: string,
+  document: SignedDocument,
+  name?: string
+) => {
+  await auditService.record(req, {
+    action: 'DOCUMENT_URL_ISSUED',
+    entityType,
+    entityId,
+    metadata: { document: name, expiresAt: document.expiresAt },
+  });
+
+  res.set('Cache-Control', 'no-store');
+  res.json({
+    success: true,
+    data: document,
+  });
+};
+
+class DocumentsController {
+  /**
+   * Link to a landlord registration document (Owner or Admin)
+   */
+  async getLandlordDocument(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, document } = req.params;
+
+      if (!(document in LANDLORD_DOCUMENTS)) {
+        res.status(400).json({
+          success: false,
+          error: `Document must be one of: ${Object.keys(LANDLORD_DOCUMENTS).join(', ')}`,
+        });
+        return;
+      }
+
+      const signed = await documentsService.getLandlordDocument(
+        id,
+        document as LandlordDocument,
+        req.user!
+      );
+
+      await sendSignedDocument(
+        req,
+        res,
+        'landlord_registration',
+        id,
+        signed,
+        document
+      );
+    } catch (error) {
+      sendDocumentError(res, error, 'Failed to get document link');
+    }
+  }
+
+  /**
+   * Link to a signature (Owner, booking counterparty or Admin)
+   */
+  async getSignature(req: Request, res: Response): Promise<void> {
+    try {
+      const signed = await documentsService.getSignature(
+        req.params.id,
+        req.user!
+      );
+
+      await sendSignedDocument(
+        req,
+        res,
+        'user_signature',
+        req.params.id,
+        signed
+      );
+    } catch (error) {
+      sendDocumentError(res, error, 'Failed to get signature link');
+    }
+  }
+
+  /**
+   * Link to a booking's contract (Tenant, Landlord or Admin)
+   */
+  async getBookingContract(req: Request, res: Response): Promise<void> {
+    try {
+      const signed = await documentsService.getBookingContract(
+        req.params.id,
+        req.user!
+      );
+
+      await sendSignedDocument(
+        req,
+        res,
+        'booking',
+        req.params.id,
+        signed,
+        'contract'
+      );
+    } catch (error) {
+      sendDocumentError(res, error, 'Failed to get contract link');
+    }
+  }
+
+  /**
+   * Link to a rental agreement (Tenant, Landlord or Admin)
+   */
+  async getRentalAgreement(req: Request, res: Response): Promise<void> {
+    try {
+      const signed = await documentsService.getRentalAgreement(
+        req.params.id,
+        req.user!
+      );
+
+      await sendSignedDocument(
+        req,
+        res,
+        'rental_agreement',
+        req.params.id,
+        signed
+      );
+    } catch (error) {
+      sendDocumentError(res, error, 'Failed to get agreement link');
+    }
+  }
+}
+
+export default new DocumentsController();
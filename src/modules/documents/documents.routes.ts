@@ -0,0 +1,121 @@
+import express from 'express';
+import { auth } from '../../middleware/auth';
+import documentsController from './documents.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/documents/landlord-registrations/{id}/{document}:
+ *   get:
+ *     summary: Short-lived link to a landlord registration document (Owner or Admin)
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: document
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [identity-card, business-license, tax-document]
+ *     responses:
+ *       200:
+ *         description: Signed URL and when it expires
+ *       403:
+ *         description: Not the applicant
+ *       404:
+ *         description: Registration or document not found
+ */
+router.get(
+  '/landlord-registrations/:id/:document',
+  auth,
+  documentsController.getLandlordDocument
+);
+
+/**
+ * @swagger
+ * /api/v1/documents/signatures/{id}:
+ *   get:
+ *     summary: Short-lived link to a signature (Owner, the other side of a booking, or Admin)
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Signed URL and when it expires
+ *       403:
+ *         description: No booking with the signature's owner
+ *       404:
+ *         description: Signature not found
+ */
+router.get('/signatures/:id', auth, documentsController.getSignature);
+
+/**
+ * @swagger
+ * /api/v1/documents/bookings/{id}/contract:
+ *   get:
+ *     summary: Short-lived link to a booking's contract (Tenant, Landlord or Admin)
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Signed URL and when it expires
+ *       403:
+ *         description: Not a party to the booking
+ *       404:
+ *         description: Booking or contract not found
+ */
+router.get(
+  '/bookings/:id/contract',
+  auth,
+  documentsController.getBookingContract
+);
+
+/**
+ * @swagger
+ * /api/v1/documents/rental-agreements/{id}:
+ *   get:
+ *     summary: Short-lived link to a rental agreement (Tenant, Landlord or Admin)
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Signed URL and when it expires
+ *       403:
+ *         description: Not a party to the lease
+ *       404:
+ *         description: Agreement not found
+ */
+router.get(
+  '/rental-agreements/:id',
+  auth,
+  documentsController.getRentalAgreement
+);
+
+export default router;
@@ -0,0 +1,157 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { TestDatabase } from '../../test/testDatabase';
+import type { User } from '../../types';
+
+vi.mock('../../config/database', async () => {
+  const { createTestDatabase } = await import('../../test/testDatabase');
+  return createTestDatabase();
+});
+
+const SIGNATURE = 'rentverse/signatures/tenant.png';
+const CONTRACT = 'rentverse/rental-agreements/contract.pdf';
+const IDENTITY_CARD = 'rentverse/landlord-documents/identity-card.png';
+
+describe('DocumentsService', () => {
+  let documentsService: typeof import('./documents.service').default;
+  let tenant: User;
+  let landlord: User;
+  let stranger: User;
+  let admin: User;
+  let signatureId: string;
+  let bookingId: string;
+  let registrationId: string;
+
+  beforeAll(async () => {
+    const { db, schema } = (await import(
+      '../../config/database'
+    )) as unknown as TestDatabase;
+    [tenant, landlord, stranger, admin] = await db
+      .insert(schema.users)
+      .values(
+        (['USER', 'LANDLORD', 'USER', 'ADMIN'] as const).map((role, index) => ({
+          email: `documents-${index}@example.com`,
+          name: role,
+          password: 'x',
+          role,
+        }))
+      )
+      .returning();
+
+    const [type] = await db
+      .insert(schema.propertyTypes)
+      .values({ code: 'CONDO', name: 'Condominium' })
+      .returning();
+    const [property] = await db
+      .insert(schema.properties)
+      .values({
+        title: 'Condo',
+        address: '1 Jalan Test',
+        city: 'Kuala Lumpur',
+        state: 'Wilayah Persekutuan',
+        zipCode: '50000',
+        price: '1000',
+        code: 'DOC-1',
+        ownerId: landlord.id,
+        propertyTypeId: type.id,
+      })
+      .returning();
+    [{ id: bookingId }] = await db
+      .insert(schema.bookings)
+      .values({
+        propertyId: property.id,
+        tenantId: tenant.id,
+        landlordId: landlord.id,
+        startDate: new Date('2026-01-01'),
+        endDate: new Date('2026-12-31'),
+        totalAmount: '12000',
+        paymentType: 'ONLINE',
+        contractPdfUrl: CONTRACT,
+      })
+      .returning();
+    [{ id: signatureId }] = await db
+      .insert(schema.userSignatures)
+      .values({
+        userId: tenant.id,
+        signatureUrl: SIGNATURE,
+        fileName: 'tenant.png',
+      })
+      .returning();
+    [{ id: registrationId }] = await db
+      .insert(schema.landlordRegistrations)
+      .values({
+        userId: landlord.id,
+        businessName: 'Landlord Sdn Bhd',
+        businessType: 'Company',
+        businessAddress: '1 Jalan Test',
+        businessPhone: '0123456789',
+        businessEmail: 'business@example.com',
+        bankAccountName: 'Landlord',
+        bankAccountNumber: '1234567890',
+        bankName: 'Bank',
+        identityCardUrl: IDENTITY_CARD,
+      })
+      .returning();
+
+    documentsService = (await import('./documents.service')).default;
+  });
+
+  const expectSignedLink = (
+    document: { url: string; expiresAt: Date | null },
+    key: string
+  ) => {
+    expect(document.url).toContain(`/private-files/${key}?`);
+    expect(document.url).toContain('signature=');
+    expect(document.expiresAt).toBeInstanceOf(Date);
+  };
+
+  it('signs a signature for its owner, their landlord and admins', async () => {
+    for (const user of [tenant, landlord, admin]) {
+      expectSignedLink(
+        await documentsService.getSignature(signatureId, user),
+        SIGNATURE
+      );
+    }
+    await expect(
+      documentsService.getSignature(signatureId, stranger)
+    ).rejects.toThrow('Access denied: No booking with this user');
+  });
+
+  it('signs a booking contract for its tenant, landlord and admins', async () => {
+    for (const user of [tenant, landlord, admin]) {
+      expectSignedLink(
+        await documentsService.getBookingContract(bookingId, user),
+        CONTRACT
+      );
+    }
+    await expect(
+      documentsService.getBookingContract(bookingId, stranger)
+    ).rejects.toThrow('Access denied: Not your booking');
+  });
+
+  it('signs registration documents for the applicant and admins', async () => {
+    for (const user of [landlord, admin]) {
+      expectSignedLink(
+        await documentsService.getLandlordDocument(
+          registrationId,
+          'identity-card',
+          user
+        ),
+        IDENTITY_CARD
+      );
+    }
+    await expect(
+      documentsService.getLandlordDocument(
+        registrationId,
+        'identity-card',
+        tenant
+      )
+    ).rejects.toThrow('Access denied: Not your registration');
+    await expect(
+      documentsService.getLandlordDocument(
+        registrationId,
+        'tax-document',
+        admin
+      )
+    ).rejects.toThrow('Document not found');
+  });
+});
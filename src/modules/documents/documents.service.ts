@@ -0,0 +1,154 @@
+import { and, eq, or } from 'drizzle-orm';
+import { db } from '../../config/database';
+import {
+  bookings,
+  landlordRegistrations,
+  leases,
+  rentalAgreements,
+  userSignatures,
+} from '../../db/schema';
+import { User } from '../../types';
+import { can } from '../../policies/permissions';
+import fileUploadService from '../../utils/fileUpload';
+
+// URL path segment of each landlord registration document, and its column
+export const LANDLORD_DOCUMENTS = {
+  'identity-card': 'identityCardUrl',
+  'business-license': 'businessLicenseUrl',
+  'tax-document': 'taxDocumentUrl',
+} as const;
+
+export type LandlordDocument = keyof typeof LANDLORD_DOCUMENTS;
+
+export interface SignedDocument {
+  url: string;
+  // Null for files stored before documents were private
+  expiresAt: Date | null;
+}
+
+/**
+ * Short-lived links to private documents, for the people entitled to them:
+ * the owner, the other side of a booking, or an admin
+ */
+class DocumentsService {
+  private async sign(reference: string | null): Promise<SignedDocument> {
+    if (!reference) {
+      throw new Error('Document not found');
+    }
+    return fileUploadService.getDownloadUrl(reference);
+  }
+
+  /**
+   * A document sent with a landlord registration (Owner or Admin)
+   */
+  async getLandlordDocument(
+    registrationId: string,
+    document: LandlordDocument,
+    user: User
+  ) {
+    const [registration] = await db
+      .select()
+      .from(landlordRegistrations)
+      .where(eq(landlordRegistrations.id, registrationId))
+      .limit(1);
+
+    if (!registration) {
+      throw new Error('Document not found');
+    }
+    if (
+      registration.userId !== user.id &&
+      !can(user, 'landlordRegistration:view')
+    ) {
+      throw new Error('Access denied: Not your registration');
+    }
+
+    return this.sign(registration[LANDLORD_DOCUMENTS[document]]);
+  }
+
+  /**
+   * A signature image (Owner, anyone they have a booking with, or Admin)
+   */
+  async getSignature(signatureId: string, user: User) {
+    const [signature] = await db
+      .select()
+      .from(userSignatures)
+      .where(eq(userSignatures.id, signatureId))
+      .limit(1);
+
+    if (!signature) {
+      throw new Error('Document not found');
+    }
+
+    if (signature.userId !== user.id && !can(user, 'user:manage')) {
+      const [counterparty] = await db
+        .select({ id: bookings.id })
+        .from(bookings)
+        .where(
+          or(
+            and(
+              eq(bookings.tenantId, signature.userId),
+              eq(bookings.landlordId, user.id)
+            ),
+            and(
+              eq(bookings.landlordId, signature.userId),
+              eq(bookings.tenantId, user.id)
+            )
+          )
+        )
+        .limit(1);
+
+      if (!counterparty) {
+        throw new Error('Access denied: No booking with this user');
+      }
+    }
+
+    return this.sign(signature.signatureUrl);
+  }
+
+  /**
+   * The contract of a booking (Tenant, Landlord or Admin)
+   */
+  async getBookingContract(bookingId: string, user: User) {
+    const [booking] = await db
+      .select()
+      .from(bookings)
+      .where(eq(bookings.id, bookingId))
+      .limit(1);
+
+    if (!booking) {
+      throw new Error('Document not found');
+    }
+    if (!can(user, 'booking:view', booking)) {
+      throw new Error('Access denied: Not your booking');
+    }
+
+    return this.sign(booking.contractPdfUrl);
+  }
+
+  /**
+   * A rental agreement (Tenant, Landlord or Admin)
+   */
+  async getRentalAgreement(agreementId: string, user: User) {
+    const [agreement] = await db
+      .select({
+        pdfUrl: rentalAgreements.pdfUrl,
+        tenantId: leases.tenantId,
+        landlordId: leases.landlordId,
+      })
+      .from(rentalAgreements)
+      .innerJoin(leases, eq(rentalAgreements.leaseId, leases.id))
+      .where(eq(rentalAgreements.id, agreementId))
+      .limit(1);
+
+    if (!agreement) {
+      throw new Error('Document not found');
+    }
+    if (!can(user, 'booking:view', agreement)) {
+      throw new Error('Access denied: Not your agreement');
+    }
+
+    return this.sign(agreement.pdfUrl);
+  }
+}
+
+export default new DocumentsService();
@@ -1,7 +1,14 @@
 import { Request, Response } from 'express';
 import { db } from '../../config/database';
 import { landlordRegistrations, users } from '../../db/schema';
-import { eq, desc } from 'drizzle-orm';
+import { eq, desc, and } from 'drizzle-orm';
+import auditService from '../../services/audit.service';
+import uploadsService from '../../services/uploads.service';
+import fileUploadService from '../../utils/fileUpload';
+
+// Registration documents, uploaded privately before the registration is sent
+const DOCUMENT_FIELDS = ['identityCardUrl', 'businessLicenseUrl', 'taxDocumentUrl'] as const;
+const DOCUMENTS_FOLDER = 'landlord-documents';
 
 export class LandlordRegistrationController {
   
@@ -32,6 +39,19 @@ export class LandlordRegistrationController {
         });
       }
 
+      // Only the storage keys of private uploads are kept
+      const documents: Record<string, string | null> = {};
+      for (const [field, value] of Object.entries({ identityCardUrl, businessLicenseUrl, taxDocumentUrl })) {
+        const filePath = value ? fileUploadService.getStoragePath(String(value)) : null;
+        if (value && !(filePath && fileUploadService.isInFolder(filePath, DOCUMENTS_FOLDER))) {
+          return res.status(400).json({
+            success: false,
+            error: `${field} must be the key of a file uploaded to the ${DOCUMENTS_FOLDER} folder`
+          });
+        }
+        documents[field] = filePath;
+      }
+
       // Check if user already has pending registration
       const existingRegistration = await db
         .select()
@@ -55,26 +75,35 @@ export class LandlordRegistrationController {
         }
       }
 
-      // Create new registration
-      const [registration] = await db
-        .insert(landlordRegistrations)
-        .values({
-          userId,
-          businessName,
-          businessType,
-          businessAddress,
-          businessPhone,
-          businessEmail,
-          taxId,
-          bankAccountName,
-          bankAccountNumber,
-          bankName,
-          identityCardUrl,
-          businessLicenseUrl,
-          taxDocumentUrl,
-          status: 'PENDING'
-        })
-        .returning();
+      // Create new registration, only if the documents are the user's own uploads
+      const registration = await db.transaction(async tx => {
+        const [registration] = await tx
+          .insert(landlordRegistrations)
+          .values({
+            userId,
+            businessName,
+            businessType,
+            businessAddress,
+            businessPhone,
+            businessEmail,
+            taxId,
+            bankAccountName,
+            bankAccountNumber,
+            bankName,
+            identityCardUrl: documents.identityCardUrl,
+            businessLicenseUrl: documents.businessLicenseUrl,
+            taxDocumentUrl: documents.taxDocumentUrl,
+            status: 'PENDING'
+          })
+          .returning();
+
+        await uploadsService.attach(tx, Object.values(documents), {
+          type: 'landlord_registration',
+          id: registration.id
+        }, userId);
+
+        return registration;
+      });
 
       res.status(201).json({
         success: true,
@@ -87,6 +116,13 @@ export class LandlordRegistrationController {
       });
 
     } catch (error) {
+      if ((error as Error).message.startsWith('Access denied')) {
+        return res.status(403).json({
+          success: false,
+          error: (error as Error).message
+        });
+      }
+
       console.error('Error registering landlord:', error);
       res.status(500).json({
         success: false,
@@ -250,9 +286,18 @@ export class LandlordRegistrationController {
         });
       }
 
+      // Documents are private; the reviewer gets links that expire shortly
+      const [data] = registration;
+      const documentLinks = await Promise.all(
+        DOCUMENT_FIELDS.map(async field => [
+          field,
+          data[field] ? (await fileUploadService.getDownloadUrl(data[field]!)).url : null,
+        ])
+      );
+
       res.json({
         success: true,
-        data: registration[0]
+        data: { ...data, ...Object.fromEntries(documentLinks) }
       });
 
     } catch (error) {
@@ -302,7 +347,7 @@ export class LandlordRegistrationController {
       }
 
       // Update registration status
-      await db
+      const [approved] = await db
         .update(landlordRegistrations)
         .set({
           status: 'APPROVED',
@@ -310,16 +355,27 @@ export class LandlordRegistrationController {
           approvedAt: new Date(),
           updatedAt: new Date()
         })
-        .where(eq(landlordRegistrations.id, id));
+        .where(eq(landlordRegistrations.id, id))
+        .returning();
 
-      // Update user role to LANDLORD
-      await db
+      // Update user role to LANDLORD (hosts and admins keep their role)
+      const promoted = await db
         .update(users)
         .set({
           role: 'LANDLORD',
           updatedAt: new Date()
         })
-        .where(eq(users.id, reg.userId));
+        .where(and(eq(users.id, reg.userId), eq(users.role, 'USER')))
+        .returning({ id: users.id });
+
+      await auditService.record(req, {
+        action: 'LANDLORD_REGISTRATION_APPROVED',
+        entityType: 'landlord_registration',
+        entityId: id,
+        before: reg,
+        after: approved,
+        metadata: { userId: reg.userId, promotedToLandlord: promoted.length > 0 },
+      });
 
       res.json({
         success: true,
@@ -381,7 +437,7 @@ export class LandlordRegistrationController {
       }
 
       // Update registration status
-      await db
+      const [rejected] = await db
         .update(landlordRegistrations)
         .set({
           status: 'REJECTED',
@@ -390,7 +446,17 @@ export class LandlordRegistrationController {
           rejectedAt: new Date(),
           updatedAt: new Date()
         })
-        .where(eq(landlordRegistrations.id, id));
+        .where(eq(landlordRegistrations.id, id))
+        .returning();
+
+      await auditService.record(req, {
+        action: 'LANDLORD_REGISTRATION_REJECTED',
+        entityType: 'landlord_registration',
+        entityId: id,
+        before: reg,
+        after: rejected,
+        metadata: { userId: reg.userId },
+      });
 
       res.json({
         success: true,
@@ -1,6 +1,6 @@
 import express from 'express';
 import { body } from 'express-validator';
-import { auth, authorize } from '../../middleware/auth';
+import { auth, requirePermission, requireVerifiedEmail } from '../../middleware/auth';
 import landlordRegistrationController from './landlordRegistration.controller';
 
 const router = express.Router();
@@ -9,6 +9,7 @@ const router = express.Router();
 router.post(
   '/register',
   auth,
+  requireVerifiedEmail,
   [
     body('businessName').notEmpty().withMessage('Business name is required'),
     body('businessType').notEmpty().withMessage('Business type is required'),
@@ -32,28 +33,28 @@ router.get(
 router.get(
   '/',
   auth,
-  authorize('ADMIN'),
+  requirePermission('landlordRegistration:view'),
   landlordRegistrationController.getAllRegistrations
 );
 
 router.get(
   '/:id',
   auth,
-  authorize('ADMIN'),
+  requirePermission('landlordRegistration:view'),
   landlordRegistrationController.getRegistrationById
 );
 
 router.put(
   '/:id/approve',
   auth,
-  authorize('ADMIN'),
+  requirePermission('landlordRegistration:review'),
   landlordRegistrationController.approveRegistration
 );
 
 router.put(
   '/:id/reject',
   auth,
-  authorize('ADMIN'),
+  requirePermission('landlordRegistration:review'),
   [
     body('rejectionReason').notEmpty().withMessage('Rejection reason is required'),
   ],
@@ -0,0 +1,349 @@
+import { Request, Response } from 'express';
+import { PaginatedResponse } from '../../types';
+import { cache } from '../../utils/cache';
+import auditService from '../../services/audit.service';
+import moderationService, {
+  ModerationQueueSort,
+  REJECTION_REASONS,
+  ReviewInput,
+  ReviewOutcome,
+} from './moderation.service';
+import screeningService, {
+  SCREENING_FLAG_CODES,
+  ScreeningFlagCode,
+} from './screening.service';
+
+/**
+ * Map moderation errors to HTTP status codes
+ */
+export const sendModerationError = (
+  res: Response,
+  error: unknown,
+  fallback: string
+) => {
+  const message = (error as Error).message;
+
+  let status = 500;
+  if (message === 'Property not found') status = 404;
+  else if (message.startsWith('Access denied')) status = 403;
+  else if (
+    message.includes('required') ||
+    message.startsWith('Unknown rejection reason') ||
+    message.startsWith('Invalid screening rules') ||
+    message.startsWith('Reviewer must be') ||
+    message.startsWith('Status must be')
+  )
+    status = 400;
+  else if (
+    message.includes('already') ||
+    message.includes('not awaiting review') ||
+    message.includes('another moderator')
+  )
+    status = 409;
+
+  if (status === 500) {
+    console.error(`${fallback}:`, error);
+  }
+
+  res.status(status).json({
+    success: false,
+    error: status === 500 ? fallback : message,
+    ...(status === 500 && { message }),
+  });
+};
+
+const getReviewInput = (req: Request): ReviewInput => {
+  const { reasons, notes } = req.body || {};
+  return {
+    reasons: Array.isArray(reasons) ? reasons.map(String) : undefined,
+    notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+  };
+};
+
+const recordDecision = async (
+  req: Request,
+  action: string,
+  { property, approval, previousStatus }: ReviewOutcome
+) => {
+  await auditService.record(req, {
+    action,
+    entityType: 'property',
+    entityId: property.id,
+    before: { status: previousStatus },
+    after: { status: property.status },
+    metadata: {
+      reviewId: approval.id,
+      reasons: approval.reasons,
+      notes: approval.notes,
+    },
+  });
+
+  // The listing appears in or leaves public listings
+  cache.clear();
+};
+
+class ModerationController {
+  /**
+   * Listings awaiting review (Admin only)
+   */
+  async getQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const { assignedTo, maxScore, flag, sort, page, limit } = req.query;
+
+      const errors: string[] = [];
+      if (
+        maxScore !== undefined &&
+        !(Number.isInteger(Number(maxScore)) && Number(maxScore) >= 0)
+      ) {
+        errors.push('maxScore must be a whole number of at least 0');
+      }
+      if (
+        flag !== undefined &&
+        !SCREENING_FLAG_CODES.includes(flag as ScreeningFlagCode)
+      ) {
+        errors.push(`flag must be one of: ${SCREENING_FLAG_CODES.join(', ')}`);
+      }
+      if (sort !== undefined && sort !== 'oldest' && sort !== 'score') {
+        errors.push('sort must be oldest or score');
+      }
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          errors,
+        });
+        return;
+      }
+
+      const { listings, pagination } = await moderationService.listQueue({
+        assignedTo:
+          assignedTo === 'me'
+            ? req.user!.id
+            : (assignedTo as string | undefined),
+        maxScore: maxScore !== undefined ? Number(maxScore) : undefined,
+        flag: flag as string | undefined,
+        sort: sort as ModerationQueueSort | undefined,
+        page: Math.max(Number(page) || 1, 1),
+        limit: Math.min(Math.max(Number(limit) || 20, 1), 100),
+      });
+
+      const response: PaginatedResponse = {
+        success: true,
+        data: listings,
+        pagination,
+      };
+
+      res.json(response);
+    } catch (error) {
+      sendModerationError(res, error, 'Failed to fetch moderation queue');
+    }
+  }
+
+  async getRejectionReasons(req: Request, res: Response): Promise<void> {
+    res.json({
+      success: true,
+      data: REJECTION_REASONS,
+    });
+  }
+
+  /**
+   * Get the pre-screening rules (Admin only)
+   */
+  async getScreeningRules(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await screeningService.getRules();
+
+      res.json({
+        success: true,
+        data: rules,
+      });
+    } catch (error) {
+      sendModerationError(res, error, 'Failed to get screening rules');
+    }
+  }
+
+  /**
+   * Change the pre-screening rules (Admin only)
+   */
+  async updateScreeningRules(req: Request, res: Response): Promise<void> {
+    try {
+      if (
+        !req.body ||
+        typeof req.body !== 'object' ||
+        Array.isArray(req.body)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'Screening rules must be an object',
+        });
+        return;
+      }
+
+      const rules = await screeningService.setRules(req.body, req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'Screening rules updated',
+        data: rules,
+      });
+    } catch (error) {
+      sendModerationError(res, error, 'Failed to update screening rules');
+    }
+  }
+
+  /**
+   * Review history of a listing (Owner or Admin)
+   */
+  async getHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const history = await moderationService.getHistory(
+        req.params.propertyId,
+        req.user!
+      );
+
+      res.json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      sendModerationError(res, error, 'Failed to fetch review history');
+    }
+  }
+
+  /**
+   * Take a listing's review (Admin only)
+   */
+  async claim(req: Request, res: Response): Promise<void> {
+    try {
+      const approval = await moderationService.claim(
+        req.params.propertyId,
+        req.user!.id
+      );
+
+      await auditService.record(req, {
+        action: 'LISTING_REVIEW_CLAIMED',
+        entityType: 'property',
+        entityId: req.params.propertyId,
+        metadata: { reviewId: approval.id },
+      });
+
+      res.json({
+        success: true,
+        message: 'Review claimed successfully',
+        data: approval,
+      });
+    } catch (error) {
+      sendModerationError(res, error, 'Failed to claim review');
+    }
+  }
+
+  /**
+   * Assign a listing's review to a moderator (Admin only)
+   */
+  async assign(req: Request, res: Response): Promise<void> {
+    try {
+      const { reviewerId } = req.body;
+
+      if (!reviewerId || typeof reviewerId !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Reviewer ID is required',
+        });
+        return;
+      }
+
+      const { approval, previousReviewerId } = await moderationService.assign(
+        req.params.propertyId,
+        reviewerId
+      );
+
+      await auditService.record(req, {
+        action: 'LISTING_REVIEW_ASSIGNED',
+        entityType: 'property',
+        entityId: req.params.propertyId,
+        before: { reviewerId: previousReviewerId },
+        after: { reviewerId: approval.reviewerId },
+        metadata: { reviewId: approval.id },
+      });
+
+      res.json({
+        success: true,
+        message: 'Review assigned successfully',
+        data: approval,
+      });
+    } catch (error) {
+      sendModerationError(res, error, 'Failed to assign review');
+    }
+  }
+
+  /**
+   * Approve a listing so it is published (Admin only)
+   */
+  async approve(req: Request, res: Response): Promise<void> {
+    try {
+      const outcome = await moderationService.approve(
+        req.params.propertyId,
+        req.user!.id,
+        getReviewInput(req).notes
+      );
+
+      await recordDecision(req, 'LISTING_APPROVED', outcome);
+
+      res.json({
+        success: true,
+        message: 'Listing approved successfully',
+        data: outcome,
+      });
+    } catch (error) {
+      sendModerationError(res, error, 'Failed to approve listing');
+    }
+  }
+
+  /**
+   * Reject a listing with one or more reasons (Admin only)
+   */
+  async reject(req: Request, res: Response): Promise<void> {
+    try {
+      const outcome = await moderationService.reject(
+        req.params.propertyId,
+        req.user!.id,
+        getReviewInput(req)
+      );
+
+      await recordDecision(req, 'LISTING_REJECTED', outcome);
+
+      res.json({
+        success: true,
+        message: 'Listing rejected successfully',
+        data: outcome,
+      });
+    } catch (error) {
+      sendModerationError(res, error, 'Failed to reject listing');
+    }
+  }
+
+  /**
+   * Ask the owner to change the listing before it is approved (Admin only)
+   */
+  async requestChanges(req: Request, res: Response): Promise<void> {
+    try {
+      const outcome = await moderationService.requestChanges(
+        req.params.propertyId,
+        req.user!.id,
+        getReviewInput(req)
+      );
+
+      await recordDecision(req, 'LISTING_CHANGES_REQUESTED', outcome);
+
+      res.json({
+        success: true,
+        message: 'Changes requested successfully',
+        data: outcome,
+      });
+    } catch (error) {
+      sendModerationError(res, error, 'Failed to request changes');
+    }
+  }
+}
+
+export default new ModerationController();
@@ -0,0 +1,346 @@
+import express from 'express';
+import { body } from 'express-validator';
+import { auth, requirePermission } from '../../middleware/auth';
+import moderationController from './moderation.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/moderation/listings:
+ *   get:
+ *     summary: Listings awaiting review (Admin only)
+ *     description: Longest waiting first, or lowest screening score first with `sort=score`. Listings carry their screening score and flags; those sent back to review by an edit list the changed fields.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: assignedTo
+ *         description: A moderator's ID, `me` or `unassigned`
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: maxScore
+ *         description: Only listings with a screening score up to this
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: flag
+ *         description: Only listings with this screening flag
+ *         schema:
+ *           type: string
+ *           enum: [TOO_FEW_IMAGES, SHORT_DESCRIPTION, PRICE_OUTLIER, BANNED_WORDS, CONTACT_INFO, MISSING_COORDINATES]
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [oldest, score]
+ *           default: oldest
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Moderation queue retrieved successfully
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get(
+  '/listings',
+  auth,
+  requirePermission('property:moderate'),
+  moderationController.getQueue
+);
+
+/**
+ * @swagger
+ * /api/v1/moderation/rejection-reasons:
+ *   get:
+ *     summary: Reason codes accepted when rejecting a listing (Admin only)
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rejection reasons retrieved successfully
+ */
+router.get(
+  '/rejection-reasons',
+  auth,
+  requirePermission('property:moderate'),
+  moderationController.getRejectionReasons
+);
+
+/**
+ * @swagger
+ * /api/v1/moderation/screening-rules:
+ *   get:
+ *     summary: Get the listing pre-screening rules (Admin only)
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Screening rules retrieved successfully
+ *   put:
+ *     summary: Change the listing pre-screening rules (Admin only)
+ *     description: Rules and settings left out keep their current values. Each rule has `enabled` and `penalty` (points off the score of 100), plus its own settings.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             example:
+ *               images: { min: 4 }
+ *               bannedWords: { words: [western union, bitcoin] }
+ *               priceOutlier: { enabled: false }
+ *     responses:
+ *       200:
+ *         description: Screening rules updated
+ *       400:
+ *         description: Invalid rules
+ */
+router.get(
+  '/screening-rules',
+  auth,
+  requirePermission('property:moderate'),
+  moderationController.getScreeningRules
+);
+
+router.put(
+  '/screening-rules',
+  auth,
+  requirePermission('property:moderate'),
+  moderationController.updateScreeningRules
+);
+
+/**
+ * @swagger
+ * /api/v1/moderation/listings/{propertyId}/history:
+ *   get:
+ *     summary: Review history of a listing (Owner or Admin)
+ *     description: Every review with its decision, reasons and notes, newest first. Only moderators see who reviewed.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Review history retrieved successfully
+ *       403:
+ *         description: Not the owner of the listing
+ *       404:
+ *         description: Property not found
+ */
+router.get(
+  '/listings/:propertyId/history',
+  auth,
+  moderationController.getHistory
+);
+
+/**
+ * @swagger
+ * /api/v1/moderation/listings/{propertyId}/claim:
+ *   post:
+ *     summary: Take a listing's review (Admin only)
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Review claimed
+ *       409:
+ *         description: Not awaiting review, or assigned to another moderator
+ */
+router.post(
+  '/listings/:propertyId/claim',
+  auth,
+  requirePermission('property:moderate'),
+  moderationController.claim
+);
+
+/**
+ * @swagger
+ * /api/v1/moderation/listings/{propertyId}/assign:
+ *   post:
+ *     summary: Assign a listing's review to a moderator (Admin only)
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reviewerId
+ *             properties:
+ *               reviewerId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Review assigned
+ *       400:
+ *         description: Reviewer is not an active moderator
+ */
+router.post(
+  '/listings/:propertyId/assign',
+  auth,
+  requirePermission('property:moderate'),
+  [body('reviewerId').isUUID().withMessage('Reviewer ID must be a valid UUID')],
+  moderationController.assign
+);
+
+/**
+ * @swagger
+ * /api/v1/moderation/listings/{propertyId}/approve:
+ *   post:
+ *     summary: Approve a listing (Admin only)
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Listing approved
+ *       409:
+ *         description: Not awaiting review, or assigned to another moderator
+ */
+router.post(
+  '/listings/:propertyId/approve',
+  auth,
+  requirePermission('property:moderate'),
+  moderationController.approve
+);
+
+/**
+ * @swagger
+ * /api/v1/moderation/listings/{propertyId}/reject:
+ *   post:
+ *     summary: Reject a listing (Admin only)
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reasons
+ *             properties:
+ *               reasons:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   example: POOR_PHOTOS
+ *               notes:
+ *                 type: string
+ *                 description: Required with the OTHER reason
+ *     responses:
+ *       200:
+ *         description: Listing rejected
+ *       400:
+ *         description: Missing or unknown reasons
+ */
+router.post(
+  '/listings/:propertyId/reject',
+  auth,
+  requirePermission('property:moderate'),
+  moderationController.reject
+);
+
+/**
+ * @swagger
+ * /api/v1/moderation/listings/{propertyId}/request-changes:
+ *   post:
+ *     summary: Ask the owner to change a listing (Admin only)
+ *     description: The owner edits the listing and sends it back to review with PATCH /api/v1/properties/{id}/status.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - notes
+ *             properties:
+ *               notes:
+ *                 type: string
+ *               reasons:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Changes requested
+ *       400:
+ *         description: Notes missing
+ */
+router.post(
+  '/listings/:propertyId/request-changes',
+  auth,
+  requirePermission('property:moderate'),
+  moderationController.requestChanges
+);
+
+export default router;
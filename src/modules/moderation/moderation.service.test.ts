@@ -0,0 +1,220 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { TestDatabase } from '../../test/testDatabase';
+import type { User } from '../../types';
+
+vi.mock('../../config/database', async () => {
+  const { createTestDatabase } = await import('../../test/testDatabase');
+  return createTestDatabase();
+});
+
+describe('ModerationService', () => {
+  let database: TestDatabase;
+  let moderationService: typeof import('./moderation.service').default;
+  let owner: User;
+  let stranger: User;
+  let moderator: User;
+  let otherModerator: User;
+  let propertyTypeId: string;
+  let listings = 0;
+
+  // A listing of the owner awaiting its first review
+  const submitListing = async () => {
+    const { db, schema } = database;
+    const [property] = await db
+      .insert(schema.properties)
+      .values({
+        title: `Listing ${listings}`,
+        address: `${listings} Jalan Test`,
+        city: 'Kuala Lumpur',
+        state: 'Wilayah Persekutuan',
+        zipCode: '50000',
+        price: '1000',
+        code: `MOD-${listings++}`,
+        status: 'PENDING_REVIEW',
+        ownerId: owner.id,
+        propertyTypeId,
+      })
+      .returning();
+    return property.id;
+  };
+
+  beforeAll(async () => {
+    database = (await import(
+      '../../config/database'
+    )) as unknown as TestDatabase;
+    const { db, schema } = database;
+    [owner, stranger, moderator, otherModerator] = await db
+      .insert(schema.users)
+      .values(
+        (['LANDLORD', 'LANDLORD', 'ADMIN', 'ADMIN'] as const).map(
+          (role, index) => ({
+            email: `moderation-${index}@example.com`,
+            name: role,
+            password: 'x',
+            role,
+          })
+        )
+      )
+      .returning();
+    [{ id: propertyTypeId }] = await db
+      .insert(schema.propertyTypes)
+      .values({ code: 'CONDO', name: 'Condominium' })
+      .returning();
+
+    moderationService = (await import('./moderation.service')).default;
+  });
+
+  describe('claim and assign', () => {
+    it('gives the review to the first moderator to claim it', async () => {
+      const propertyId = await submitListing();
+
+      const claimed = await moderationService.claim(propertyId, moderator.id);
+      expect(claimed.reviewerId).toBe(moderator.id);
+      expect((await moderationService.claim(propertyId, moderator.id)).id).toBe(
+        claimed.id
+      );
+      await expect(
+        moderationService.claim(propertyId, otherModerator.id)
+      ).rejects.toThrow('Listing is already assigned to another moderator');
+      await expect(
+        moderationService.approve(propertyId, otherModerator.id)
+      ).rejects.toThrow('Listing is assigned to another moderator');
+    });
+
+    it('reassigns the review to another moderator', async () => {
+      const propertyId = await submitListing();
+      await moderationService.claim(propertyId, moderator.id);
+
+      const { approval, previousReviewerId } = await moderationService.assign(
+        propertyId,
+        otherModerator.id
+      );
+      expect(previousReviewerId).toBe(moderator.id);
+      expect(approval.reviewerId).toBe(otherModerator.id);
+
+      const { property } = await moderationService.approve(
+        propertyId,
+        otherModerator.id
+      );
+      expect(property.status).toBe('APPROVED');
+    });
+
+    it('assigns reviews to active moderators only', async () => {
+      const propertyId = await submitListing();
+
+      await expect(
+        moderationService.assign(propertyId, stranger.id)
+      ).rejects.toThrow('Reviewer must be an active moderator');
+    });
+  });
+
+  describe('decisions', () => {
+    it('approves a listing once', async () => {
+      const propertyId = await submitListing();
+
+      const { property, approval, previousStatus } =
+        await moderationService.approve(propertyId, moderator.id, 'Looks good');
+      expect(previousStatus).toBe('PENDING_REVIEW');
+      expect(property.status).toBe('APPROVED');
+      expect(approval).toMatchObject({
+        status: 'APPROVED',
+        reviewerId: moderator.id,
+        notes: 'Looks good',
+      });
+      expect(approval.reviewedAt).toBeInstanceOf(Date);
+
+      await expect(
+        moderationService.reject(propertyId, moderator.id, {
+          reasons: ['DUPLICATE'],
+        })
+      ).rejects.toThrow('Listing is not awaiting review');
+    });
+
+    it('needs reasons to reject and notes to request changes', async () => {
+      const propertyId = await submitListing();
+
+      await expect(
+        moderationService.reject(propertyId, moderator.id, {})
+      ).rejects.toThrow('At least one rejection reason is required');
+      await expect(
+        moderationService.reject(propertyId, moderator.id, {
+          reasons: ['UGLY'],
+        })
+      ).rejects.toThrow('Unknown rejection reason: UGLY');
+      await expect(
+        moderationService.reject(propertyId, moderator.id, {
+          reasons: ['OTHER'],
+        })
+      ).rejects.toThrow('Notes are required when the reason is OTHER');
+      await expect(
+        moderationService.requestChanges(propertyId, moderator.id, {
+          reasons: ['POOR_PHOTOS'],
+        })
+      ).rejects.toThrow('Notes are required when requesting changes');
+    });
+  });
+
+  describe('resubmit', () => {
+    it('sends a rejected listing back to review with a new review', async () => {
+      const propertyId = await submitListing();
+      const { approval: rejected } = await moderationService.reject(
+        propertyId,
+        moderator.id,
+        { reasons: ['POOR_PHOTOS'] }
+      );
+
+      await expect(
+        moderationService.resubmit(propertyId, stranger)
+      ).rejects.toThrow('Access denied');
+
+      const { property, approval, previousStatus } =
+        await moderationService.resubmit(propertyId, owner);
+      expect(previousStatus).toBe('REJECTED');
+      expect(property.status).toBe('PENDING_REVIEW');
+      expect(approval.id).not.toBe(rejected.id);
+      expect(approval).toMatchObject({ status: 'PENDING', reviewerId: null });
+
+      await expect(
+        moderationService.resubmit(propertyId, owner)
+      ).rejects.toThrow('Listing is already awaiting review');
+    });
+
+    it('leaves approved listings alone', async () => {
+      const propertyId = await submitListing();
+      await moderationService.approve(propertyId, moderator.id);
+
+      await expect(
+        moderationService.resubmit(propertyId, owner)
+      ).rejects.toThrow('Listing is already approved');
+    });
+  });
+
+  describe('getHistory', () => {
+    it('hides the moderator from the owner', async () => {
+      const propertyId = await submitListing();
+      await moderationService.requestChanges(propertyId, moderator.id, {
+        notes: 'Add photos of the kitchen',
+      });
+
+      const forOwner = await moderationService.getHistory(propertyId, owner);
+      expect(forOwner.status).toBe('CHANGES_REQUESTED');
+      expect(forOwner.reviews[0]).toMatchObject({
+        status: 'CHANGES_REQUESTED',
+        notes: 'Add photos of the kitchen',
+      });
+      expect(forOwner.reviews[0]).not.toHaveProperty('reviewerId');
+
+      const forModerator = await moderationService.getHistory(
+        propertyId,
+        moderator
+      );
+      expect(forModerator.reviews[0]).toMatchObject({
+        reviewerId: moderator.id,
+      });
+
+      await expect(
+        moderationService.getHistory(propertyId, stranger)
+      ).rejects.toThrow('Access denied');
+    });
+  });
+});
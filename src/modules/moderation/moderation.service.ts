@@ -0,0 +1,492 @@
+import { and, asc, count, desc, eq, isNull, lte, SQL, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { db } from '../../config/database';
+import { listingApprovals, properties, users } from '../../db/schema';
+import { ListingApproval, ListingStatus, Property, User } from '../../types';
+import { can } from '../../policies/permissions';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const REJECTION_REASONS = [
+  'INACCURATE_DETAILS',
+  'MISLEADING_PRICE',
+  'POOR_PHOTOS',
+  'PROHIBITED_CONTENT',
+  'CONTACT_DETAILS',
+  'DUPLICATE',
+  'INCOMPLETE',
+  'OTHER',
+] as const;
+
+export type RejectionReason = (typeof REJECTION_REASONS)[number];
+
+/**
+ * Fields whose change sends an approved listing back to review. Price,
+ * currency and availability change often and are left out.
+ */
+export const MATERIAL_FIELDS = [
+  'title',
+  'description',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+  'country',
+  'propertyTypeId',
+  'bedrooms',
+  'bathrooms',
+  'areaSqm',
+  'furnished',
+  'images',
+  'latitude',
+  'longitude',
+  'projectName',
+  'developer',
+] as const;
+
+export type ModerationDecision = 'APPROVED' | 'REJECTED' | 'CHANGES_REQUESTED';
+
+export interface ReviewInput {
+  reasons?: string[];
+  notes?: string | null;
+}
+
+export type ModerationQueueSort = 'oldest' | 'score';
+
+export interface ModerationQueueFilters {
+  // A moderator's ID, or 'unassigned'
+  assignedTo?: string;
+  // Screening score at most this, and listings carrying this flag
+  maxScore?: number;
+  flag?: string;
+  sort?: ModerationQueueSort;
+  page?: number;
+  limit?: number;
+}
+
+export interface ReviewOutcome {
+  property: Property;
+  approval: ListingApproval;
+  previousStatus: ListingStatus;
+}
+
+const reviewer = alias(users, 'reviewer');
+
+/**
+ * Listing review workflow. Each time a listing goes to review it gets a new
+ * listing_approvals row, which records who reviewed it and the decision.
+ */
+class ModerationService {
+  /**
+   * Lock the listing so two moderators cannot decide on it at the same time
+   */
+  private async lockListing(tx: Transaction, propertyId: string) {
+    const [property] = await tx
+      .select()
+      .from(properties)
+      .where(eq(properties.id, propertyId))
+      .for('update');
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+    return property;
+  }
+
+  private assertAwaitingReview(property: Property) {
+    if (property.status !== 'PENDING_REVIEW') {
+      throw new Error('Listing is not awaiting review');
+    }
+  }
+
+  /**
+   * The listing's open review, created if there is none. Call in the
+   * transaction that puts the listing into PENDING_REVIEW.
+   */
+  async openReview(
+    tx: Transaction,
+    propertyId: string,
+    changedFields: string[] | null = null
+  ): Promise<ListingApproval> {
+    const [open] = await tx
+      .select()
+      .from(listingApprovals)
+      .where(
+        and(
+          eq(listingApprovals.propertyId, propertyId),
+          eq(listingApprovals.status, 'PENDING')
+        )
+      )
+      .limit(1);
+
+    if (open) {
+      return open;
+    }
+
+    const [created] = await tx
+      .insert(listingApprovals)
+      .values({ propertyId, changedFields })
+      .returning();
+    return created;
+  }
+
+  /**
+   * Material fields the update would change on the listing
+   */
+  changedMaterialFields(
+    existing: Property,
+    changes: Record<string, unknown>
+  ): string[] {
+    const normalize = (value: unknown) =>
+      value === null || value === undefined || value === ''
+        ? null
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value);
+
+    return MATERIAL_FIELDS.filter(
+      field =>
+        changes[field] !== undefined &&
+        normalize(changes[field]) !== normalize(existing[field])
+    );
+  }
+
+  /**
+   * Listings awaiting review, longest waiting first unless sorted by score
+   */
+  async listQueue(filters: ModerationQueueFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const conditions: SQL[] = [eq(properties.status, 'PENDING_REVIEW')];
+    if (filters.assignedTo === 'unassigned') {
+      conditions.push(isNull(listingApprovals.reviewerId));
+    } else if (filters.assignedTo) {
+      conditions.push(eq(listingApprovals.reviewerId, filters.assignedTo));
+    }
+    if (filters.maxScore !== undefined) {
+      conditions.push(lte(properties.screeningScore, filters.maxScore));
+    }
+    if (filters.flag) {
+      conditions.push(
+        sql`${properties.screeningFlags}::jsonb @> ${JSON.stringify([{ code: filters.flag }])}::jsonb`
+      );
+    }
+
+    const where = and(...conditions);
+    const openReview = and(
+      eq(listingApprovals.propertyId, properties.id),
+      eq(listingApprovals.status, 'PENDING')
+    );
+
+    // Listings queued before reviews were recorded have no review row yet
+    const submittedAt =
+      sql`coalesce(${listingApprovals.createdAt}, ${properties.updatedAt})`.mapWith(
+        listingApprovals.createdAt
+      );
+
+    const listings = await db
+      .select({
+        property: {
+          id: properties.id,
+          code: properties.code,
+          title: properties.title,
+          city: properties.city,
+          price: properties.price,
+          currencyCode: properties.currencyCode,
+          screeningScore: properties.screeningScore,
+          screeningFlags: properties.screeningFlags,
+          createdAt: properties.createdAt,
+        },
+        owner: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+        reviewId: listingApprovals.id,
+        reviewer: {
+          id: reviewer.id,
+          firstName: reviewer.firstName,
+          lastName: reviewer.lastName,
+        },
+        assignedAt: listingApprovals.assignedAt,
+        changedFields: listingApprovals.changedFields,
+        submittedAt,
+      })
+      .from(properties)
+      .leftJoin(listingApprovals, openReview)
+      .leftJoin(users, eq(properties.ownerId, users.id))
+      .leftJoin(reviewer, eq(listingApprovals.reviewerId, reviewer.id))
+      .where(where)
+      .orderBy(
+        // Lowest scores first, then the longest waiting
+        ...(filters.sort === 'score'
+          ? [sql`${properties.screeningScore} ASC NULLS LAST`]
+          : []),
+        asc(submittedAt),
+        asc(properties.id)
+      )
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(properties)
+      .leftJoin(listingApprovals, openReview)
+      .where(where);
+
+    return {
+      listings,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages: Math.ceil(totalResult.count / limit),
+      },
+    };
+  }
+
+  /**
+   * Take the review. Fails if another moderator already has it.
+   */
+  async claim(propertyId: string, actorId: string): Promise<ListingApproval> {
+    return db.transaction(async tx => {
+      const property = await this.lockListing(tx, propertyId);
+      this.assertAwaitingReview(property);
+
+      const review = await this.openReview(tx, propertyId);
+      if (review.reviewerId === actorId) {
+        return review;
+      }
+      if (review.reviewerId) {
+        throw new Error('Listing is already assigned to another moderator');
+      }
+
+      const [claimed] = await tx
+        .update(listingApprovals)
+        .set({ reviewerId: actorId, assignedAt: new Date() })
+        .where(eq(listingApprovals.id, review.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  /**
+   * Hand the review to a moderator, taking it from whoever had it
+   */
+  async assign(
+    propertyId: string,
+    reviewerId: string
+  ): Promise<{ approval: ListingApproval; previousReviewerId: string | null }> {
+    const [assignee] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, reviewerId))
+      .limit(1);
+
+    if (
+      !assignee ||
+      !assignee.isActive ||
+      !can(assignee, 'property:moderate')
+    ) {
+      throw new Error('Reviewer must be an active moderator');
+    }
+
+    return db.transaction(async tx => {
+      const property = await this.lockListing(tx, propertyId);
+      this.assertAwaitingReview(property);
+
+      const review = await this.openReview(tx, propertyId);
+      const [approval] = await tx
+        .update(listingApprovals)
+        .set({ reviewerId, assignedAt: new Date() })
+        .where(eq(listingApprovals.id, review.id))
+        .returning();
+
+      return { approval, previousReviewerId: review.reviewerId };
+    });
+  }
+
+  async approve(
+    propertyId: string,
+    actorId: string,
+    notes?: string | null
+  ): Promise<ReviewOutcome> {
+    return this.decide(propertyId, actorId, 'APPROVED', { notes });
+  }
+
+  async reject(
+    propertyId: string,
+    actorId: string,
+    input: ReviewInput
+  ): Promise<ReviewOutcome> {
+    this.assertReasons(input, true);
+    return this.decide(propertyId, actorId, 'REJECTED', input);
+  }
+
+  /**
+   * Send the listing back to the owner to fix. The notes tell them what to change.
+   */
+  async requestChanges(
+    propertyId: string,
+    actorId: string,
+    input: ReviewInput
+  ): Promise<ReviewOutcome> {
+    if (!input.notes) {
+      throw new Error('Notes are required when requesting changes');
+    }
+    this.assertReasons(input, false);
+    return this.decide(propertyId, actorId, 'CHANGES_REQUESTED', input);
+  }
+
+  private assertReasons(input: ReviewInput, required: boolean) {
+    const reasons = input.reasons || [];
+
+    if (required && reasons.length === 0) {
+      throw new Error('At least one rejection reason is required');
+    }
+
+    const unknown = reasons.filter(
+      reason => !REJECTION_REASONS.includes(reason as RejectionReason)
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Unknown rejection reason: ${unknown.join(', ')}`);
+    }
+
+    if (reasons.includes('OTHER') && !input.notes) {
+      throw new Error('Notes are required when the reason is OTHER');
+    }
+  }
+
+  /**
+   * Close the open review with the decision and move the listing to the
+   * matching status. A review assigned to someone else must be reassigned first.
+   */
+  private async decide(
+    propertyId: string,
+    actorId: string,
+    decision: ModerationDecision,
+    input: ReviewInput
+  ): Promise<ReviewOutcome> {
+    return db.transaction(async tx => {
+      const existing = await this.lockListing(tx, propertyId);
+      this.assertAwaitingReview(existing);
+
+      const review = await this.openReview(tx, propertyId);
+      if (review.reviewerId && review.reviewerId !== actorId) {
+        throw new Error('Listing is assigned to another moderator');
+      }
+
+      const now = new Date();
+      const [approval] = await tx
+        .update(listingApprovals)
+        .set({
+          status: decision,
+          reviewerId: actorId,
+          assignedAt: review.assignedAt || now,
+          reasons: input.reasons?.length ? input.reasons : null,
+          notes: input.notes || null,
+          reviewedAt: now,
+        })
+        .where(eq(listingApprovals.id, review.id))
+        .returning();
+
+      const [property] = await tx
+        .update(properties)
+        .set({ status: decision, updatedAt: now })
+        .where(eq(properties.id, propertyId))
+        .returning();
+
+      return { property, approval, previousStatus: existing.status };
+    });
+  }
+
+  /**
+   * The owner sends a rejected listing, or one with changes requested, back to review
+   */
+  async resubmit(propertyId: string, user: User): Promise<ReviewOutcome> {
+    return db.transaction(async tx => {
+      const existing = await this.lockListing(tx, propertyId);
+
+      if (!can(user, 'property:update', existing)) {
+        throw new Error(
+          'Access denied: You can only submit your own properties for review'
+        );
+      }
+      if (existing.status === 'PENDING_REVIEW') {
+        throw new Error('Listing is already awaiting review');
+      }
+      if (existing.status === 'APPROVED') {
+        throw new Error('Listing is already approved');
+      }
+
+      const [property] = await tx
+        .update(properties)
+        .set({ status: 'PENDING_REVIEW', updatedAt: new Date() })
+        .where(eq(properties.id, propertyId))
+        .returning();
+
+      const approval = await this.openReview(tx, propertyId);
+      return { property, approval, previousStatus: existing.status };
+    });
+  }
+
+  /**
+   * Every review of the listing, newest first. Owners see the decisions but
+   * not which moderator made them.
+   */
+  async getHistory(propertyId: string, user: User) {
+    const [property] = await db
+      .select({
+        id: properties.id,
+        ownerId: properties.ownerId,
+        status: properties.status,
+      })
+      .from(properties)
+      .where(eq(properties.id, propertyId))
+      .limit(1);
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    const isModerator = can(user, 'property:moderate');
+    if (!isModerator && !can(user, 'property:viewUnpublished', property)) {
+      throw new Error(
+        'Access denied: You can only view the review history of your own properties'
+      );
+    }
+
+    const reviews = await db
+      .select({
+        approval: listingApprovals,
+        reviewer: {
+          id: reviewer.id,
+          firstName: reviewer.firstName,
+          lastName: reviewer.lastName,
+        },
+      })
+      .from(listingApprovals)
+      .leftJoin(reviewer, eq(listingApprovals.reviewerId, reviewer.id))
+      .where(eq(listingApprovals.propertyId, propertyId))
+      .orderBy(desc(listingApprovals.createdAt));
+
+    return {
+      status: property.status,
+      reviews: reviews.map(({ approval, reviewer }) => {
+        if (isModerator) {
+          return { ...approval, reviewer };
+        }
+        const {
+          reviewerId: _reviewerId,
+          assignedAt: _assignedAt,
+          ...decision
+        } = approval;
+        return decision;
+      }),
+    };
+  }
+}
+
+export default new ModerationService();
@@ -0,0 +1,76 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { TestDatabase } from '../../test/testDatabase';
+import type { ScreenedListing } from './screening.service';
+
+vi.mock('../../config/database', async () => {
+  const { createTestDatabase } = await import('../../test/testDatabase');
+  return createTestDatabase();
+});
+
+const listing = (description: string): ScreenedListing => ({
+  id: '00000000-0000-0000-0000-000000000000',
+  title: 'Bright studio near the station',
+  description,
+  images: [],
+  price: '1500',
+  currencyCode: 'MYR',
+  city: null,
+  bedrooms: 1,
+  propertyTypeId: '00000000-0000-0000-0000-000000000000',
+  latitude: null,
+  longitude: null,
+});
+
+describe('ScreeningService', () => {
+  let screeningService: typeof import('./screening.service').default;
+  let adminId: string;
+
+  beforeAll(async () => {
+    const { db, schema } = (await import(
+      '../../config/database'
+    )) as unknown as TestDatabase;
+    const [admin] = await db
+      .insert(schema.users)
+      .values({
+        email: 'admin@example.com',
+        name: 'Admin',
+        password: 'x',
+        role: 'ADMIN',
+      })
+      .returning();
+    adminId = admin.id;
+    screeningService = (await import('./screening.service')).default;
+  });
+
+  it('rejects settings of the wrong type', async () => {
+    await expect(
+      screeningService.setRules(
+        {
+          images: { min: 'three' },
+          bannedWords: { words: ['ok', 42] },
+          priceOutlier: { lowRatio: 1.5 },
+          unknown: {},
+        },
+        adminId
+      )
+    ).rejects.toThrow(
+      'Invalid screening rules: unknown is not a rule; images.min must be a number of at least 0; bannedWords.words must be a list of at most 500 words; priceOutlier.lowRatio must be below 1 and priceOutlier.highRatio above 1'
+    );
+  });
+
+  it('flags banned words that start or end with a symbol', async () => {
+    await screeningService.setRules(
+      { bannedWords: { words: ['$$$', 'c.o.d.', 'bitcoin'] } },
+      adminId
+    );
+
+    const result = await screeningService.screen(
+      listing('Pay $$$ upfront, c.o.d. only. No bitcoins accepted.')
+    );
+    const banned = result.screeningFlags.find(
+      flag => flag.code === 'BANNED_WORDS'
+    );
+
+    expect(banned?.details).toEqual({ words: ['$$$', 'c.o.d.'] });
+  });
+});
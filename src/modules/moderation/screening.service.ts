@@ -0,0 +1,378 @@
+import { and, count, eq, ne, sql } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { appSettings, properties } from '../../db/schema';
+import { Property, ScreeningFlag } from '../../types';
+import { cache } from '../../utils/cache';
+
+const SCREENING_RULES = 'moderation.screeningRules';
+const MAX_BANNED_WORDS = 500;
+
+export const SCREENING_FLAG_CODES = [
+  'TOO_FEW_IMAGES',
+  'SHORT_DESCRIPTION',
+  'PRICE_OUTLIER',
+  'BANNED_WORDS',
+  'CONTACT_INFO',
+  'MISSING_COORDINATES',
+] as const;
+
+export type ScreeningFlagCode = (typeof SCREENING_FLAG_CODES)[number];
+
+/**
+ * Each rule can be switched off, and takes `penalty` points off the score of
+ * 100 when it flags a listing
+ */
+export interface ScreeningRules {
+  images: { enabled: boolean; penalty: number; min: number };
+  description: { enabled: boolean; penalty: number; minLength: number };
+  // Against the median of approved listings in the same city with the same
+  // type, bedrooms and currency
+  priceOutlier: {
+    enabled: boolean;
+    penalty: number;
+    minComparables: number;
+    lowRatio: number;
+    highRatio: number;
+  };
+  bannedWords: { enabled: boolean; penalty: number; words: string[] };
+  contactInfo: { enabled: boolean; penalty: number };
+  coordinates: { enabled: boolean; penalty: number };
+}
+
+export const DEFAULT_SCREENING_RULES: ScreeningRules = {
+  images: { enabled: true, penalty: 20, min: 3 },
+  description: { enabled: true, penalty: 15, minLength: 100 },
+  priceOutlier: {
+    enabled: true,
+    penalty: 25,
+    minComparables: 5,
+    lowRatio: 0.5,
+    highRatio: 2,
+  },
+  bannedWords: {
+    enabled: true,
+    penalty: 30,
+    words: [
+      'western union',
+      'moneygram',
+      'bitcoin',
+      'gift card',
+      'pay before viewing',
+      'no viewing',
+    ],
+  },
+  contactInfo: { enabled: true, penalty: 25 },
+  coordinates: { enabled: true, penalty: 10 },
+};
+
+// Contact details belong in the enquiry flow, not in the listing text
+const CONTACT_PATTERNS = [
+  /[\w.+-]+@[\w-]+\.[\w.-]+/,
+  /(?:\+|\b0)\d[\d\s-]{7,}\d/,
+  /\b(?:https?:\/\/|www\.)\S+/i,
+  /\bwa\.me\/\S+/i,
+  /\b(?:whatsapp|telegram|wechat)\b/i,
+];
+
+export type ScreenedListing = Pick<
+  Property,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'images'
+  | 'price'
+  | 'currencyCode'
+  | 'city'
+  | 'bedrooms'
+  | 'propertyTypeId'
+  | 'latitude'
+  | 'longitude'
+>;
+
+export interface ScreeningResult {
+  screeningScore: number;
+  screeningFlags: ScreeningFlag[];
+  screenedAt: Date;
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Rule-based checks run on every listing save, so moderators can start with
+ * the listings most likely to need attention
+ */
+class ScreeningService {
+  /**
+   * The admin-managed rules, or the defaults when none are saved
+   */
+  async getRules(): Promise<ScreeningRules> {
+    const cacheKey = `settings:${SCREENING_RULES}`;
+    const cached = cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const [setting] = await db
+      .select()
+      .from(appSettings)
+      .where(eq(appSettings.key, SCREENING_RULES))
+      .limit(1);
+
+    const rules = setting
+      ? this.mergeRules(setting.value as Partial<ScreeningRules>)
+      : DEFAULT_SCREENING_RULES;
+
+    cache.set(cacheKey, rules);
+    return rules;
+  }
+
+  /**
+   * Save the rules. Rules and settings left out keep their current values.
+   */
+  async setRules(
+    changes: Record<string, unknown>,
+    updatedById: string
+  ): Promise<ScreeningRules> {
+    const value = this.mergeRules(changes, await this.getRules());
+    const now = new Date();
+
+    await db
+      .insert(appSettings)
+      .values({ key: SCREENING_RULES, value, updatedById, updatedAt: now })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value, updatedById, updatedAt: now },
+      });
+
+    cache.set(`settings:${SCREENING_RULES}`, value);
+    return value;
+  }
+
+  /**
+   * Lay the changes over the base rules, checking each setting has the same
+   * type as its default
+   */
+  private mergeRules(
+    changes: Record<string, unknown>,
+    base: ScreeningRules = DEFAULT_SCREENING_RULES
+  ): ScreeningRules {
+    const errors: string[] = Object.keys(changes)
+      .filter(rule => !(rule in DEFAULT_SCREENING_RULES))
+      .map(rule => `${rule} is not a rule`);
+    const merged: Partial<
+      Record<keyof ScreeningRules, Record<string, unknown>>
+    > = {};
+
+    for (const rule of Object.keys(
+      DEFAULT_SCREENING_RULES
+    ) as (keyof ScreeningRules)[]) {
+      const change = changes[rule];
+      if (change === undefined) {
+        merged[rule] = base[rule];
+        continue;
+      }
+      if (typeof change !== 'object' || change === null) {
+        errors.push(`${rule} must be an object`);
+        continue;
+      }
+
+      const defaults: Record<string, unknown> = DEFAULT_SCREENING_RULES[rule];
+      const rulesSettings: Record<string, unknown> = { ...base[rule] };
+      for (const [name, value] of Object.entries(
+        change as Record<string, unknown>
+      )) {
+        const expected = defaults[name];
+        if (expected === undefined) {
+          errors.push(`${rule}.${name} is not a setting`);
+        } else if (Array.isArray(expected)) {
+          if (
+            !Array.isArray(value) ||
+            value.length > MAX_BANNED_WORDS ||
+            value.some(item => typeof item !== 'string' || !item.trim())
+          ) {
+            errors.push(
+              `${rule}.${name} must be a list of at most ${MAX_BANNED_WORDS} words`
+            );
+          } else {
+            rulesSettings[name] = (value as string[]).map(item => item.trim());
+          }
+        } else if (typeof expected === 'number') {
+          if (
+            typeof value !== 'number' ||
+            !Number.isFinite(value) ||
+            value < 0
+          ) {
+            errors.push(`${rule}.${name} must be a number of at least 0`);
+          } else {
+            rulesSettings[name] = value;
+          }
+        } else if (typeof value !== typeof expected) {
+          errors.push(`${rule}.${name} must be a ${typeof expected}`);
+        } else {
+          rulesSettings[name] = value;
+        }
+      }
+      merged[rule] = rulesSettings;
+    }
+
+    const { lowRatio, highRatio } = merged.priceOutlier || {};
+    if (
+      (typeof lowRatio === 'number' && lowRatio >= 1) ||
+      (typeof highRatio === 'number' && highRatio <= 1)
+    ) {
+      errors.push(
+        'priceOutlier.lowRatio must be below 1 and priceOutlier.highRatio above 1'
+      );
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid screening rules: ${errors.join('; ')}`);
+    }
+    return merged as unknown as ScreeningRules;
+  }
+
+  /**
+   * Score the listing as it will be saved
+   */
+  async screen(listing: ScreenedListing): Promise<ScreeningResult> {
+    const rules = await this.getRules();
+    const flags: ScreeningFlag[] = [];
+    const flag = (
+      code: ScreeningFlagCode,
+      penalty: number,
+      message: string,
+      details?: Record<string, unknown>
+    ) => flags.push({ code, message, penalty, ...(details && { details }) });
+
+    const imageCount = listing.images?.length || 0;
+    if (rules.images.enabled && imageCount < rules.images.min) {
+      flag(
+        'TOO_FEW_IMAGES',
+        rules.images.penalty,
+        `Has ${imageCount} images, at least ${rules.images.min} expected`,
+        { count: imageCount }
+      );
+    }
+
+    const description = (listing.description || '').trim();
+    if (
+      rules.description.enabled &&
+      description.length < rules.description.minLength
+    ) {
+      flag(
+        'SHORT_DESCRIPTION',
+        rules.description.penalty,
+        `Description has ${description.length} characters, at least ${rules.description.minLength} expected`,
+        { length: description.length }
+      );
+    }
+
+    const text = `${listing.title || ''}\n${description}`;
+
+    if (rules.bannedWords.enabled) {
+      // Lookarounds rather than \b, which never matches next to words that
+      // start or end with a symbol, like "$$$"
+      const found = rules.bannedWords.words.filter(word =>
+        new RegExp(`(?<!\\w)${escapeRegExp(word)}(?!\\w)`, 'i').test(text)
+      );
+      if (found.length > 0) {
+        flag(
+          'BANNED_WORDS',
+          rules.bannedWords.penalty,
+          'Title or description contains banned words',
+          { words: found }
+        );
+      }
+    }
+
+    if (
+      rules.contactInfo.enabled &&
+      CONTACT_PATTERNS.some(pattern => pattern.test(text))
+    ) {
+      flag(
+        'CONTACT_INFO',
+        rules.contactInfo.penalty,
+        'Title or description contains contact details'
+      );
+    }
+
+    if (
+      rules.coordinates.enabled &&
+      (listing.latitude == null || listing.longitude == null)
+    ) {
+      flag(
+        'MISSING_COORDINATES',
+        rules.coordinates.penalty,
+        'Location is not set'
+      );
+    }
+
+    if (rules.priceOutlier.enabled) {
+      const outlier = await this.comparePrice(listing, rules.priceOutlier);
+      if (outlier) {
+        flag(
+          'PRICE_OUTLIER',
+          rules.priceOutlier.penalty,
+          `Price is ${outlier.ratio}x the median of similar listings in ${listing.city}`,
+          outlier
+        );
+      }
+    }
+
+    const penalties = flags.reduce((total, item) => total + item.penalty, 0);
+
+    return {
+      screeningScore: Math.max(0, 100 - penalties),
+      screeningFlags: flags,
+      screenedAt: new Date(),
+    };
+  }
+
+  /**
+   * The price against similar approved listings, when it is outside the
+   * allowed range and there are enough of them to compare with
+   */
+  private async comparePrice(
+    listing: ScreenedListing,
+    rule: ScreeningRules['priceOutlier']
+  ) {
+    const price = Number(listing.price);
+    if (!listing.city || !Number.isFinite(price) || price <= 0) {
+      return null;
+    }
+
+    const [stats] = await db
+      .select({
+        median: sql<
+          string | null
+        >`percentile_cont(0.5) WITHIN GROUP (ORDER BY ${properties.price})`,
+        comparables: count(),
+      })
+      .from(properties)
+      .where(
+        and(
+          eq(properties.status, 'APPROVED'),
+          sql`lower(${properties.city}) = lower(${listing.city})`,
+          eq(properties.propertyTypeId, listing.propertyTypeId),
+          eq(properties.bedrooms, Number(listing.bedrooms) || 0),
+          eq(properties.currencyCode, listing.currencyCode || 'MYR'),
+          ne(properties.id, listing.id)
+        )
+      );
+
+    const median = Number(stats?.median);
+    if (stats.comparables < rule.minComparables || !(median > 0)) {
+      return null;
+    }
+
+    const ratio = Number((price / median).toFixed(2));
+    if (ratio >= rule.lowRatio && ratio <= rule.highRatio) {
+      return null;
+    }
+
+    return { median, ratio, comparables: stats.comparables };
+  }
+}
+
+export default new ScreeningService();
@@ -3,6 +3,8 @@ import { db } from '../../config/database';
 import { bookings, installments, bookingConflicts, paymentTransactions, properties, users, invoices, rentalAgreements, leases } from '../../db/schema';
 import { eq, and, gte, lte, desc, asc } from 'drizzle-orm';
 import PDFGenerationService from '../../services/pdfGeneration.service';
+import { can } from '../../policies/permissions';
+import auditService from '../../services/audit.service';
 
 export class BookingController {
   
@@ -196,13 +198,16 @@ export class BookingController {
       console.log('Installments created:', createdInstallments);
       console.log('Invoices created:', createdInvoices);
 
-      // Generate PDF contract using existing PDF service
-      let contractPdfUrl = '';
+      // Generate PDF contract using existing PDF service. Contracts are
+      // private: the key is stored and the response carries a signed URL.
+      let contractPdfKey: string | null = null;
+      let contractPdfUrl: string | null = null;
       let rentalAgreement = null;
       
       try {
         // Generate PDF using existing service
         const pdfResult = await PDFGenerationService.generateRentalAgreementPDF(booking.id);
+        contractPdfKey = pdfResult.key;
         contractPdfUrl = pdfResult.url;
 
         // Create rental agreement record
@@ -210,7 +215,7 @@ export class BookingController {
           .insert(rentalAgreements)
           .values({
             leaseId: lease.id,
-            pdfUrl: pdfResult.url,
+            pdfUrl: pdfResult.key,
             publicId: pdfResult.key,
             fileName: pdfResult.fileName,
             fileSize: pdfResult.size,
@@ -219,27 +224,15 @@ export class BookingController {
 
         console.log('PDF generated and uploaded:', pdfResult);
       } catch (pdfError) {
-        console.error('PDF generation failed, using placeholder:', pdfError);
-        contractPdfUrl = `https://storage.example.com/contracts/${booking.id}.pdf`;
-        
-        // Create rental agreement record with placeholder
-        [rentalAgreement] = await db
-          .insert(rentalAgreements)
-          .values({
-            leaseId: lease.id,
-            pdfUrl: contractPdfUrl,
-            publicId: `contract_${booking.id}`,
-            fileName: `rental_agreement_${booking.id}.pdf`,
-            fileSize: 1024000,
-          })
-          .returning();
+        // The booking stands without a contract rather than pointing at a file that doesn't exist
+        console.error('PDF generation failed, booking has no contract yet:', pdfError);
       }
       
       await db
         .update(bookings)
         .set({ 
-          contractPdfUrl,
-          contractGeneratedAt: new Date(),
+          contractPdfUrl: contractPdfKey,
+          contractGeneratedAt: contractPdfKey ? new Date() : null,
           status: 'CONFIRMED'
         })
         .where(eq(bookings.id, booking.id));
@@ -563,13 +556,11 @@ export class BookingController {
       const [booking] = await db
         .select()
         .from(bookings)
-        .where(and(
-          eq(bookings.id, bookingId),
-          eq(bookings.tenantId, userId)
-        ))
+        .where(eq(bookings.id, bookingId))
         .limit(1);
 
-      if (!booking) {
+      // Tenant, landlord and admins may see it; others get the same answer as for a missing booking
+      if (!booking || !can(req.user, 'booking:view', booking)) {
         return res.status(404).json({
           success: false,
           error: 'Booking not found'
@@ -829,7 +820,7 @@ export class BookingController {
       }
 
       // Mark as paid
-      await db
+      const [paid] = await db
         .update(installments)
         .set({
           status: 'PAID',
@@ -837,7 +828,8 @@ export class BookingController {
           paidAmount: installment.amount,
           paymentMethod: 'BANK_TRANSFER'
         })
-        .where(eq(installments.id, installmentId));
+        .where(eq(installments.id, installmentId))
+        .returning();
 
       // Update payment transaction
       await db
@@ -848,6 +840,15 @@ export class BookingController {
         })
         .where(eq(paymentTransactions.installmentId, installmentId));
 
+      await auditService.record(req, {
+        action: 'PAYMENT_CONFIRMED_MANUALLY',
+        entityType: 'installment',
+        entityId: installmentId,
+        before: installment,
+        after: paid,
+        metadata: { bookingId: installment.bookingId, xenditInvoiceId },
+      });
+
       res.json({
         success: true,
         data: {
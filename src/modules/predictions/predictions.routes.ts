@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
-import { auth, authorize } from '../../middleware/auth';
+import { auth, requirePermission } from '../../middleware/auth';
 import { predictionsController } from './predictions.controller';
 
 const router = Router();
@@ -11,7 +11,7 @@ router.get('/status', auth, predictionsController.getStatus);
 // Toggle prediction service (Admin only)
 router.post('/toggle', 
   auth, 
-  authorize('ADMIN'),
+  requirePermission('prediction:manage'),
   [
     body('enabled').isBoolean().withMessage('Field "enabled" must be a boolean value')
   ],
@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import type { TestDatabase } from '../../test/testDatabase';
+import type { User } from '../../types';
+
+vi.mock('../../config/database', async () => {
+  const { createTestDatabase } = await import('../../test/testDatabase');
+  return createTestDatabase();
+});
+
+// The status and JSON body sent for a request
+const send = async (
+  handler: (req: Request, res: Response) => Promise<void>,
+  req: Partial<Request>
+) => {
+  let status = 200;
+  let body: any;
+  const res = {
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: (data: unknown) => {
+      body = data;
+      return res;
+    },
+  } as unknown as Response;
+  await handler(req as Request, res);
+  return { status, body };
+};
+
+describe('PropertiesController.getAllProperties', () => {
+  let controller: typeof import('./properties.controller').default;
+  let fan: User;
+  let other: User;
+
+  beforeAll(async () => {
+    const { db, schema } = (await import(
+      '../../config/database'
+    )) as unknown as TestDatabase;
+    controller = (await import('./properties.controller')).default;
+
+    [fan, other] = await db
+      .insert(schema.users)
+      .values([
+        { email: 'fan@example.com', name: 'Fan', password: 'x' },
+        { email: 'other@example.com', name: 'Other', password: 'x' },
+      ])
+      .returning();
+    const [type] = await db
+      .insert(schema.propertyTypes)
+      .values({ code: 'HOUSE', name: 'House' })
+      .returning();
+    const [listing] = await db
+      .insert(schema.properties)
+      .values({
+        title: 'Terrace house',
+        address: '1 Jalan Test',
+        city: 'Penang',
+        state: 'Penang',
+        zipCode: '10000',
+        price: '1500',
+        code: 'TEST-1',
+        status: 'APPROVED',
+        ownerId: fan.id,
+        propertyTypeId: type.id,
+      })
+      .returning();
+    await db
+      .insert(schema.propertyFavorites)
+      .values({ propertyId: listing.id, userId: fan.id });
+  });
+
+  it("doesn't serve one user's favorites to another from the cache", async () => {
+    const favorited = async (user: User) => {
+      const { body } = await send(controller.getAllProperties, {
+        query: {},
+        user,
+      });
+      return body.data.properties[0].property.isFavorited;
+    };
+
+    expect(await favorited(fan)).toBe(true);
+    expect(await favorited(other)).toBe(false);
+  });
+});
+
+describe('PropertiesController.updatePropertyStatus', () => {
+  it('answers an unknown status with 400', async () => {
+    const controller = (await import('./properties.controller')).default;
+    const admin = { id: randomUUID(), role: 'ADMIN' } as User;
+
+    const { status, body } = await send(controller.updatePropertyStatus, {
+      params: { id: randomUUID() },
+      body: { status: 'ARCHIVED' },
+      user: admin,
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/^Status must be/);
+  });
+});
@@ -2,6 +2,12 @@ import { Request, Response } from 'express';
 import { PropertiesService } from './properties.service';
 import { PropertyQuery } from '../../types';
 import { cache } from '../../utils/cache';
+import { can } from '../../policies/permissions';
+import { parseListingQuery } from './propertyFilters';
+import auditService from '../../services/audit.service';
+import { sendModerationError } from '../moderation/moderation.controller';
+
+const MAX_LIST_LIMIT = 100;
 
 class PropertiesController {
   private propertiesService: PropertiesService;
@@ -25,24 +31,24 @@ class PropertiesController {
    */
   async getAllProperties(req: Request, res: Response): Promise<void> {
     try {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
-      const userId = (req as any).user?.id; // Get user ID if authenticated
-      const userRole = (req as any).user?.role || 'USER'; // Get user role
+      const { filters, errors } = parseListingQuery(req.query);
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors,
+        });
+        return;
+      }
 
-      const filters: PropertyQuery = {
-        city: req.query.city as string,
-        minPrice: req.query.minPrice as string,
-        maxPrice: req.query.maxPrice as string,
-        bedrooms: req.query.bedrooms as string,
-        bathrooms: req.query.bathrooms as string,
-        furnished: req.query.furnished as string,
-        search: req.query.search as string,
-        status: req.query.status as string,
-      };
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 10, MAX_LIST_LIMIT);
+      const userRole = req.user?.role || 'USER'; // Get user role
+      // Listings carry the viewer's isFavorited
+      const userId = req.user?.id ?? 'anonymous';
 
       // Create cache key based on query parameters
-      const cacheKey = `properties:${JSON.stringify({ page, limit, filters, userRole })}`;
+      const cacheKey = `properties:${JSON.stringify({ page, limit, filters, userRole, userId })}`;
       
       // Check cache first
       const cachedData = cache.get(cacheKey);
@@ -58,8 +64,7 @@ class PropertiesController {
         page,
         limit,
         filters,
-        userId,
-        userRole
+        req.user || null
       );
 
       // Store in cache
@@ -70,6 +75,14 @@ class PropertiesController {
         data: result,
       });
     } catch (error) {
+      const message = (error as Error).message;
+      if (message.startsWith('Invalid cursor')) {
+        res.status(400).json({
+          success: false,
+          message,
+        });
+        return;
+      }
       console.error('Get properties error:', error);
       res.status(500).json({
         success: false,
@@ -102,6 +115,18 @@ class PropertiesController {
         userId
       );
 
+      // Listings under review or rejected are only visible to their owner and moderators
+      if (
+        property.property.status !== 'APPROVED' &&
+        !can(req.user, 'property:viewUnpublished', property.property)
+      ) {
+        res.status(404).json({
+          success: false,
+          message: 'Property not found',
+        });
+        return;
+      }
+
       const response = {
         success: true,
         data: { property },
@@ -158,6 +183,23 @@ class PropertiesController {
       });
     } catch (error) {
       console.error('Create property error:', error);
+
+      if ((error as Error).message.includes('Access denied')) {
+        res.status(403).json({
+          success: false,
+          message: (error as Error).message,
+        });
+        return;
+      }
+
+      if ((error as Error).message.startsWith('Images must')) {
+        res.status(400).json({
+          success: false,
+          message: (error as Error).message,
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: 'Internal server error',
@@ -171,14 +213,11 @@ class PropertiesController {
   async updateProperty(req: Request, res: Response): Promise<void> {
     try {
       const propertyId = req.params.id;
-      const userId = (req as any).user?.id;
-      const userRole = (req as any).user?.role || 'USER';
 
       const property = await this.propertiesService.updateProperty(
         propertyId,
         req.body,
-        userId,
-        userRole
+        req.user!
       );
 
       // Clear cache when property is updated
@@ -206,6 +245,14 @@ class PropertiesController {
         });
       }
 
+      if ((error as Error).message.startsWith('Images must')) {
+        res.status(400).json({
+          success: false,
+          message: (error as Error).message,
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: 'Internal server error',
@@ -219,13 +266,10 @@ class PropertiesController {
   async deleteProperty(req: Request, res: Response): Promise<void> {
     try {
       const propertyId = req.params.id;
-      const userId = (req as any).user?.id;
-      const userRole = (req as any).user?.role || 'USER';
 
       const result = await this.propertiesService.deleteProperty(
         propertyId,
-        userId,
-        userRole
+        req.user!
       );
 
       // Clear cache when property is deleted
@@ -265,8 +309,6 @@ class PropertiesController {
   async getMyProperties(req: Request, res: Response): Promise<void> {
     try {
       const userId = req.user?.id;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
 
       if (!userId) {
         res.status(401).json({
@@ -276,15 +318,20 @@ class PropertiesController {
         return;
       }
 
+      const parsed = parseListingQuery(req.query);
+      if (parsed.errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: parsed.errors
+        });
+        return;
+      }
+
+      const page = parsed.filters.page || 1;
+      const limit = Math.min(parsed.filters.limit || 10, MAX_LIST_LIMIT);
       const filters: PropertyQuery = {
-        city: req.query.city as string,
-        minPrice: req.query.minPrice as string,
-        maxPrice: req.query.maxPrice as string,
-        bedrooms: req.query.bedrooms as string,
-        bathrooms: req.query.bathrooms as string,
-        furnished: req.query.furnished as string,
-        search: req.query.search as string,
-        status: req.query.status as string,
+        ...parsed.filters,
         ownerId: userId // Filter by owner
       };
 
@@ -364,7 +411,7 @@ class PropertiesController {
       }
 
       // Check if user owns this property
-      if (property.ownerId !== userId) {
+      if (!can(req.user, 'property:update', property.property)) {
         res.status(403).json({
           success: false,
           error: 'You do not have permission to access this property'
@@ -397,11 +444,23 @@ class PropertiesController {
   async updatePropertyStatus(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { status } = req.body;
-      const userId = (req as any).user?.id;
-      const userRole = (req as any).user?.role;
+      const { status, reasons, notes } = req.body;
+
+      const { property, previousStatus } = await this.propertiesService.updatePropertyStatus(id, status, req.user!, {
+        reasons: Array.isArray(reasons) ? reasons.map(String) : undefined,
+        notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+      });
 
-      const property = await this.propertiesService.updatePropertyStatus(id, status, userId, userRole);
+      await auditService.record(req, {
+        action: 'PROPERTY_STATUS_UPDATED',
+        entityType: 'property',
+        entityId: property.id,
+        before: { status: previousStatus },
+        after: { status: property.status },
+      });
+
+      // Clear cache so the new status shows up in listings
+      cache.clear();
 
       res.json({
         success: true,
@@ -410,12 +469,7 @@ class PropertiesController {
       });
 
     } catch (error) {
-      console.error('Error updating property status:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to update property status',
-        details: (error as Error).message
-      });
+      sendModerationError(res, error, 'Failed to update property status');
     }
   }
 }
@@ -1,17 +1,26 @@
 import express from 'express';
 import { body } from 'express-validator';
-import { auth, authorize } from '../../middleware/auth';
+import { auth, requireVerifiedEmail } from '../../middleware/auth';
+import { optionalAuth } from '../../middleware/optionalAuth';
 import propertiesController from './properties.controller';
+import propertyInteractionsController from './propertyInteractions.controller';
+import propertyMediaController from './propertyMedia.controller';
 
 const router = express.Router();
 
-router.get('/', propertiesController.getAllProperties);
+router.get('/', optionalAuth, propertiesController.getAllProperties);
 
-router.get('/:id', propertiesController.getPropertyById);
+// Radius search around a point, listings inside a map viewport and map clusters
+router.get('/nearby', optionalAuth, propertyInteractionsController.getNearbyProperties);
+router.get('/bounds', optionalAuth, propertyInteractionsController.getPropertiesInBounds);
+router.get('/map', propertyInteractionsController.getMapClusters);
+
+router.get('/:id', optionalAuth, propertiesController.getPropertyById);
 
 router.post(
   '/',
   auth,
+  requireVerifiedEmail,
   [
     body('title').notEmpty().withMessage('Title is required'),
     body('address').notEmpty().withMessage('Address is required'),
@@ -31,13 +40,21 @@ router.put('/:id', auth, propertiesController.updateProperty);
 router.patch('/:id/status', 
   auth,
   [
-    body('status').isIn(['PENDING_REVIEW', 'APPROVED', 'REJECTED']).withMessage('Status must be PENDING_REVIEW, APPROVED, or REJECTED')
+    body('status').isIn(['PENDING_REVIEW', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED']).withMessage('Status must be PENDING_REVIEW, APPROVED, REJECTED, or CHANGES_REQUESTED')
   ],
   propertiesController.updatePropertyStatus
 );
 
 router.delete('/:id', auth, propertiesController.deleteProperty);
 
+// Listing images: add files from /upload, order them, pick the cover, caption and delete
+router.get('/:id/images', optionalAuth, propertyMediaController.getImages);
+router.post('/:id/images', auth, propertyMediaController.addImages);
+router.put('/:id/images/order', auth, propertyMediaController.reorderImages);
+router.patch('/:id/images/:imageId', auth, propertyMediaController.updateImage);
+router.post('/:id/images/:imageId/cover', auth, propertyMediaController.setCover);
+router.delete('/:id/images/:imageId', auth, propertyMediaController.deleteImage);
+
 // Landlord endpoints
 router.get('/landlord/my-properties', auth, propertiesController.getMyProperties);
 router.get('/landlord/my-properties/:id', auth, propertiesController.getMyPropertyById);
@@ -0,0 +1,230 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { TestDatabase } from '../../test/testDatabase';
+import type { PropertySort } from '../../types';
+import { encodeListingCursor } from './propertyFilters';
+
+vi.mock('../../config/database', async () => {
+  const { createTestDatabase } = await import('../../test/testDatabase');
+  return createTestDatabase();
+});
+
+const LISTINGS = 60;
+
+describe('PropertiesService.getAllProperties', () => {
+  let database: TestDatabase;
+  let service: import('./properties.service').PropertiesService;
+  let viewer: { id: string };
+
+  beforeAll(async () => {
+    database = (await import(
+      '../../config/database'
+    )) as unknown as TestDatabase;
+    const { db, schema } = database;
+    const { PropertiesService } = await import('./properties.service');
+    service = new PropertiesService();
+
+    const [owner, tenant] = await db
+      .insert(schema.users)
+      .values([
+        {
+          email: 'owner@example.com',
+          name: 'Owner',
+          password: 'x',
+          role: 'LANDLORD',
+        },
+        { email: 'tenant@example.com', name: 'Tenant', password: 'x' },
+      ])
+      .returning();
+    viewer = tenant;
+
+    const [type] = await db
+      .insert(schema.propertyTypes)
+      .values({ code: 'CONDO', name: 'Condominium' })
+      .returning();
+    const amenityRows = await db
+      .insert(schema.amenities)
+      .values([{ name: 'Pool' }, { name: 'Gym' }, { name: 'Parking' }])
+      .returning();
+
+    const listings = await db
+      .insert(schema.properties)
+      .values(
+        Array.from({ length: LISTINGS }, (_, index) => ({
+          title: `Listing ${index}`,
+          address: `${index} Jalan Test`,
+          city: 'Kuala Lumpur',
+          state: 'Wilayah Persekutuan',
+          zipCode: '50000',
+          price: String(1000 + index),
+          code: `TEST-${index}`,
+          status: 'APPROVED' as const,
+          ownerId: owner.id,
+          propertyTypeId: type.id,
+        }))
+      )
+      .returning();
+
+    // Give every listing amenities, views, favorites and ratings to aggregate
+    await db.insert(schema.propertyAmenities).values(
+      listings.flatMap(listing =>
+        amenityRows.slice(0, 2).map(amenity => ({
+          propertyId: listing.id,
+          amenityId: amenity.id,
+        }))
+      )
+    );
+    await db
+      .insert(schema.propertyViews)
+      .values(listings.map(listing => ({ propertyId: listing.id })));
+    await db
+      .insert(schema.propertyFavorites)
+      .values(
+        listings.map(listing => ({ propertyId: listing.id, userId: tenant.id }))
+      );
+    await db.insert(schema.propertyRatings).values(
+      listings.map(listing => ({
+        propertyId: listing.id,
+        userId: tenant.id,
+        rating: 4,
+      }))
+    );
+  });
+
+  const countQueries = async (limit: number) => {
+    database.queries.length = 0;
+    const result = await service.getAllProperties(
+      1,
+      limit,
+      {},
+      viewer as never
+    );
+    return { result, queries: database.queries.length };
+  };
+
+  it('runs the same number of queries whatever the page size', async () => {
+    const small = await countQueries(1);
+    const large = await countQueries(50);
+
+    expect(small.result.properties).toHaveLength(1);
+    expect(large.result.properties).toHaveLength(50);
+    expect(large.queries).toBe(small.queries);
+  });
+
+  it('loads the aggregates of every listing on the page', async () => {
+    const { result } = await countQueries(50);
+
+    for (const listing of result.properties) {
+      expect(listing.property.viewCount).toBe(1);
+      expect(listing.property.favoriteCount).toBe(1);
+      expect(listing.property.isFavorited).toBe(true);
+      expect(listing.averageRating).toBe('4.0');
+      expect(listing.amenities).toHaveLength(2);
+    }
+  });
+  describe('cursor pagination', () => {
+    const CITY = 'Ipoh';
+    // Repeated prices, and one insert so every createdAt is the same
+    const PRICES = ['500', '500', '500', '700', '700', '900', '900'];
+
+    beforeAll(async () => {
+      const { db, schema } = database;
+      const [owner] = await db
+        .insert(schema.users)
+        .values({ email: 'ipoh@example.com', name: 'Ipoh', password: 'x' })
+        .returning();
+      const [type] = await db
+        .insert(schema.propertyTypes)
+        .values({ code: 'HOUSE', name: 'House' })
+        .returning();
+      await db.insert(schema.properties).values(
+        PRICES.map((price, index) => ({
+          title: `Ipoh ${index}`,
+          address: `${index} Jalan Ipoh`,
+          city: CITY,
+          state: 'Perak',
+          zipCode: '30000',
+          price,
+          code: `IPOH-${index}`,
+          status: 'APPROVED' as const,
+          ownerId: owner.id,
+          propertyTypeId: type.id,
+        }))
+      );
+    });
+
+    // Every page of a sort, following nextCursor
+    const pages = async (sort: PropertySort) => {
+      const result = [];
+      let cursor: string | undefined;
+      do {
+        const page = await service.getAllProperties(1, 2, {
+          city: CITY,
+          sort: [sort],
+          cursor,
+        });
+        result.push(page);
+        cursor = page.pagination.nextCursor ?? undefined;
+      } while (cursor);
+      return result;
+    };
+
+    it.each(['price_asc', 'price_desc', 'newest', 'oldest'] as const)(
+      'visits every listing once when sorted by %s',
+      async sort => {
+        const result = await pages(sort);
+        const listings = result.flatMap(page => page.properties);
+        const ids = listings.map(listing => listing.property.id);
+
+        expect(result).toHaveLength(4);
+        expect(new Set(ids).size).toBe(PRICES.length);
+        expect(result.map(page => page.pagination.hasMore)).toEqual([
+          true,
+          true,
+          true,
+          false,
+        ]);
+        if (sort === 'price_asc' || sort === 'price_desc') {
+          const prices = listings.map(listing =>
+            Number(listing.property.price)
+          );
+          const sorted = [...prices].sort((a, b) => a - b);
+          expect(prices).toEqual(
+            sort === 'price_asc' ? sorted : sorted.reverse()
+          );
+        }
+      }
+    );
+
+    it('refuses a cursor made for another sort', async () => {
+      const [first] = await pages('price_asc');
+
+      await expect(
+        service.getAllProperties(1, 2, {
+          city: CITY,
+          sort: ['newest'],
+          cursor: first.pagination.nextCursor!,
+        })
+      ).rejects.toThrow('Invalid cursor for this sort order');
+    });
+
+    it.each([
+      ['price_asc', 'abc'],
+      ['price_desc', '1e3'],
+      ['newest', '2024-02-30 10:00:00'],
+      ['oldest', 'yesterday'],
+    ])('refuses a %s cursor with the value %s', async (sort, value) => {
+      const cursor = encodeListingCursor({
+        sort: sort as PropertySort,
+        value,
+        id: '00000000-0000-4000-8000-000000000000',
+      });
+
+      await expect(
+        service.getAllProperties(1, 2, {
+          sort: [sort as PropertySort],
+          cursor,
+        })
+      ).rejects.toThrow('Invalid cursor for this sort order');
+    });
+  });
+});
@@ -11,11 +11,46 @@ import {
   bookings,
   installments,
 } from '../../db/schema';
-import { eq, and, like, gte, lte, desc, count, sql, avg } from 'drizzle-orm';
-import { PropertyQuery } from '../../types';
+import { eq, and, or, like, gt, gte, lte, asc, desc, count, sql, avg, inArray, isNotNull, SQL } from 'drizzle-orm';
+import { ListingStatus, PropertyQuery, PropertySort, User } from '../../types';
+import { can } from '../../policies/permissions';
 import { CodeGenerator } from '../../utils/codeGenerator';
+import searchService from '../search/search.service';
+import moderationService, { ReviewInput } from '../moderation/moderation.service';
+import screeningService from '../moderation/screening.service';
+import propertyMediaService from './propertyMedia.service';
+import fileUploadService from '../../utils/fileUpload';
+import {
+  ListingCursor,
+  decodeListingCursor,
+  encodeListingCursor,
+} from './propertyFilters';
+import {
+  EARTH_RADIUS_KM,
+  GeoBounds,
+  GeoPoint,
+  boundsAroundPoint,
+  distanceKm,
+} from '../../utils/geo';
 import { randomUUID } from 'crypto';
 
+// Map zoom from which single listings are shown instead of clusters
+export const MAP_POINTS_MIN_ZOOM = 15;
+const MAP_POINTS_LIMIT = 500;
+const MAP_CELLS_PER_TILE = 4;
+// Sorts on a single column, which cursors can continue from
+const CURSOR_SORTS: Partial<
+  Record<PropertySort, { column: typeof properties.createdAt | typeof properties.price; direction: 'asc' | 'desc' }>
+> = {
+  newest: { column: properties.createdAt, direction: 'desc' },
+  oldest: { column: properties.createdAt, direction: 'asc' },
+  price_asc: { column: properties.price, direction: 'asc' },
+  price_desc: { column: properties.price, direction: 'desc' },
+};
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export class PropertiesService {
   // Helper function to generate Google Maps URL
   generateMapsUrl(
@@ -148,69 +183,265 @@ export class PropertiesService {
     }));
   }
 
-  async getAllProperties(
-    page = 1,
-    limit = 10,
-    filters: PropertyQuery = {},
-    userId: string | null = null,
-    userRole = 'USER'
-  ) {
-    const offset = (page - 1) * limit;
-    const conditions = [];
-
-    // For non-admin users, only show APPROVED properties
-    if (userRole !== 'ADMIN') {
-      conditions.push(eq(properties.status, 'APPROVED'));
-    }
+  // Conditions for the listing filters shared by list, search, nearby and map queries
+  private buildFilterConditions(filters: PropertyQuery): SQL[] {
+    const conditions: SQL[] = [];
 
-    // Apply filters
     if (filters.city) {
       conditions.push(like(properties.city, `%${filters.city}%`));
     }
 
-    if (filters.minPrice) {
+    if (filters.state) {
+      conditions.push(sql`lower(${properties.state}) = lower(${filters.state})`);
+    }
+
+    if (filters.country) {
+      conditions.push(eq(properties.country, filters.country.toUpperCase()));
+    }
+
+    if (filters.minPrice !== undefined) {
       conditions.push(gte(properties.price, filters.minPrice.toString()));
     }
 
-    if (filters.maxPrice) {
+    if (filters.maxPrice !== undefined) {
       conditions.push(lte(properties.price, filters.maxPrice.toString()));
     }
 
-    if (filters.bedrooms) {
-      conditions.push(eq(properties.bedrooms, Number(filters.bedrooms)));
+    if (filters.bedrooms !== undefined) {
+      conditions.push(eq(properties.bedrooms, filters.bedrooms));
+    }
+
+    if (filters.minBedrooms !== undefined) {
+      conditions.push(gte(properties.bedrooms, filters.minBedrooms));
+    }
+
+    if (filters.maxBedrooms !== undefined) {
+      conditions.push(lte(properties.bedrooms, filters.maxBedrooms));
+    }
+
+    if (filters.bathrooms !== undefined) {
+      conditions.push(eq(properties.bathrooms, filters.bathrooms));
     }
 
-    if (filters.bathrooms) {
-      conditions.push(eq(properties.bathrooms, Number(filters.bathrooms)));
+    if (filters.minBathrooms !== undefined) {
+      conditions.push(gte(properties.bathrooms, filters.minBathrooms));
+    }
+
+    if (filters.maxBathrooms !== undefined) {
+      conditions.push(lte(properties.bathrooms, filters.maxBathrooms));
+    }
+
+    if (filters.minArea !== undefined) {
+      conditions.push(gte(properties.areaSqm, filters.minArea));
+    }
+
+    if (filters.maxArea !== undefined) {
+      conditions.push(lte(properties.areaSqm, filters.maxArea));
     }
 
     if (filters.furnished !== undefined) {
-      conditions.push(eq(properties.furnished, filters.furnished === true));
+      conditions.push(eq(properties.furnished, filters.furnished));
     }
 
-    if (filters.search) {
+    if (filters.isAvailable !== undefined) {
+      conditions.push(eq(properties.isAvailable, filters.isAvailable));
+    }
+
+    // By ID or by type code
+    if (filters.propertyType) {
       conditions.push(
-        sql`${properties.title} ILIKE ${`%${filters.search}%`} OR ${properties.description} ILIKE ${`%${filters.search}%`}`
+        UUID_PATTERN.test(filters.propertyType)
+          ? eq(properties.propertyTypeId, filters.propertyType)
+          : inArray(
+              properties.propertyTypeId,
+              db
+                .select({ id: propertyTypes.id })
+                .from(propertyTypes)
+                .where(sql`lower(${propertyTypes.code}) = lower(${filters.propertyType})`)
+            )
       );
     }
 
-    // Only allow admin to filter by status
-    if (filters.status && userRole === 'ADMIN') {
+    if (filters.amenities && filters.amenities.length > 0) {
+      const matching = sql`(SELECT count(DISTINCT ${propertyAmenities.amenityId}) FROM ${propertyAmenities} WHERE ${propertyAmenities.propertyId} = ${properties.id} AND ${inArray(propertyAmenities.amenityId, filters.amenities)})`;
+
+      // All listed amenities by default, or at least one of them
       conditions.push(
-        eq(
-          properties.status,
-          filters.status as 'PENDING_REVIEW' | 'REJECTED' | 'APPROVED'
-        )
+        filters.amenityMatch === 'any'
+          ? sql`${matching} > 0`
+          : sql`${matching} = ${filters.amenities.length}`
       );
     }
 
+    if (filters.listedAfter) {
+      conditions.push(gte(properties.createdAt, filters.listedAfter));
+    }
+
+    if (filters.listedBefore) {
+      conditions.push(lte(properties.createdAt, filters.listedBefore));
+    }
+
+    if (filters.search) {
+      conditions.push(searchService.matchCondition(filters.search));
+    }
+
     // Filter by owner ID (for landlord's own properties)
     if (filters.ownerId) {
       conditions.push(eq(properties.ownerId, filters.ownerId));
     }
 
-    // Get properties with relations
-    let propertiesData = await db
+    return conditions;
+  }
+
+  /**
+   * ORDER BY for the requested sort keys, or the defaults when none are given.
+   * Ends with the ID so pages never overlap.
+   */
+  private buildOrderBy(filters: PropertyQuery, defaults: PropertySort[]): SQL[] {
+    const sorts = filters.sort && filters.sort.length > 0 ? filters.sort : defaults;
+
+    const orderBy = sorts.flatMap((sort): SQL[] => {
+      switch (sort) {
+        case 'relevance':
+          return filters.search ? [desc(searchService.rank(filters.search))] : [];
+        case 'newest':
+          return [desc(properties.createdAt)];
+        case 'oldest':
+          return [asc(properties.createdAt)];
+        case 'price_asc':
+          return [asc(properties.price)];
+        case 'price_desc':
+          return [desc(properties.price)];
+        case 'most_viewed':
+          return [sql`(SELECT count(*) FROM ${propertyViews} WHERE ${propertyViews.propertyId} = ${properties.id}) DESC`];
+        case 'top_rated':
+          return [sql`(SELECT avg(${propertyRatings.rating}) FROM ${propertyRatings} WHERE ${propertyRatings.propertyId} = ${properties.id}) DESC NULLS LAST`];
+        case 'distance':
+          return filters.latitude !== undefined && filters.longitude !== undefined
+            ? [asc(this.distanceFrom({ latitude: filters.latitude, longitude: filters.longitude }))]
+            : [];
+      }
+    });
+
+    return [...orderBy, asc(properties.id)];
+  }
+
+  async getAllProperties(
+    page = 1,
+    limit = 10,
+    filters: PropertyQuery = {},
+    user: User | null = null
+  ) {
+    const offset = (page - 1) * limit;
+    const conditions = [];
+    const userId = user?.id || null;
+    const canModerate = can(user, 'property:moderate');
+
+    // Only moderators see listings that are not APPROVED
+    if (!canModerate) {
+      conditions.push(eq(properties.status, 'APPROVED'));
+    }
+
+    conditions.push(...this.buildFilterConditions(filters));
+
+    // Only moderators may filter by status
+    if (filters.status && canModerate) {
+      conditions.push(
+        eq(
+          properties.status,
+          filters.status
+        )
+      );
+    }
+
+    // Best matches first when searching, otherwise newest first
+    const defaultSort: PropertySort[] = filters.search ? ['relevance', 'newest'] : ['newest'];
+    const sorts = filters.sort && filters.sort.length > 0 ? filters.sort : defaultSort;
+
+    // Keyset pagination works for a single sort on a column
+    const cursorSort = sorts.length === 1 && CURSOR_SORTS[sorts[0]] ? sorts[0] : null;
+    if (filters.cursor) {
+      const cursor = decodeListingCursor(filters.cursor);
+      if (!cursor || cursor.sort !== cursorSort) {
+        throw new Error('Invalid cursor for this sort order');
+      }
+      conditions.push(this.afterCursor(cursor));
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // One extra row tells whether there is a next page
+    const rows = await this.listingsQuery(userId)
+      .where(where)
+      .orderBy(...this.buildOrderBy(filters, defaultSort))
+      .limit(limit + 1)
+      .offset(filters.cursor ? 0 : offset);
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+
+    const nextCursor =
+      hasMore && cursorSort && last
+        ? encodeListingCursor({
+            sort: cursorSort,
+            value: cursorSort === 'newest' || cursorSort === 'oldest' ? last.createdAtKey : last.property.price,
+            id: last.property.id,
+          })
+        : null;
+
+    const listings = pageRows.map(row => this.toListing(row));
+
+    // Infinite scroll does not need the total, so skip counting
+    if (filters.cursor) {
+      return {
+        properties: listings,
+        pagination: { limit, hasMore, nextCursor },
+      };
+    }
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(properties)
+      .where(where);
+
+    const total = totalResult.count;
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      properties: listings,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasMore,
+        nextCursor,
+      },
+    };
+  }
+
+  // Rows after the cursor in its sort order, ties broken by ID
+  private afterCursor(cursor: ListingCursor): SQL {
+    const { column, direction } = CURSOR_SORTS[cursor.sort]!;
+    const beyond =
+      direction === 'desc'
+        ? sql`${column} < ${cursor.value}`
+        : sql`${column} > ${cursor.value}`;
+
+    return or(
+      beyond,
+      and(sql`${column} = ${cursor.value}`, gt(properties.id, cursor.id))
+    )!;
+  }
+
+  /**
+   * Listings with owner, amenities and property type. View, favorite and
+   * rating aggregates are correlated subqueries, so a page of any size is one
+   * query.
+   */
+  private listingsQuery(userId: string | null) {
+    return db
       .select({
         property: properties,
         owner: {
@@ -222,6 +453,15 @@ export class PropertiesService {
         },
         amenities: sql`json_agg(DISTINCT ${amenities}) FILTER (WHERE ${amenities.id} IS NOT NULL)`.as('amenities_list'),
         propertyType: propertyTypes,
+        viewCount: sql<number>`(SELECT count(*) FROM ${propertyViews} WHERE ${propertyViews.propertyId} = ${properties.id})`.mapWith(Number),
+        favoriteCount: sql<number>`(SELECT count(*) FROM ${propertyFavorites} WHERE ${propertyFavorites.propertyId} = ${properties.id})`.mapWith(Number),
+        isFavorited: userId
+          ? sql<boolean>`EXISTS (SELECT 1 FROM ${propertyFavorites} WHERE ${propertyFavorites.propertyId} = ${properties.id} AND ${propertyFavorites.userId} = ${userId})`
+          : sql<boolean>`false`,
+        averageRating: sql<string | null>`(SELECT avg(${propertyRatings.rating}) FROM ${propertyRatings} WHERE ${propertyRatings.propertyId} = ${properties.id})`,
+        totalRatings: sql<number>`(SELECT count(*) FROM ${propertyRatings} WHERE ${propertyRatings.propertyId} = ${properties.id})`.mapWith(Number),
+        // Full precision, for cursors
+        createdAtKey: sql<string>`${properties.createdAt}::text`,
       })
       .from(properties)
       .leftJoin(users, eq(properties.ownerId, users.id))
@@ -232,67 +472,238 @@ export class PropertiesService {
       )
       .leftJoin(amenities, eq(propertyAmenities.amenityId, amenities.id))
       .groupBy(properties.id, users.id, propertyTypes.id)
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .orderBy(desc(properties.createdAt))
-      .limit(limit)
-      .offset(offset);
+      .$dynamic();
+  }
 
-    // Add ratings data separately to avoid complex joins
-    for (const item of propertiesData) {
-      const ratingsData = await db
-        .select({
-          id: propertyRatings.id,
-          rating: propertyRatings.rating,
-          comment: propertyRatings.comment,
-          ratedAt: propertyRatings.ratedAt,
-          user: {
-            id: users.id,
-            firstName: users.firstName,
-            lastName: users.lastName,
-          },
-        })
-        .from(propertyRatings)
-        .leftJoin(users, eq(propertyRatings.userId, users.id))
-        .where(eq(propertyRatings.propertyId, item.property.id))
-        .orderBy(desc(propertyRatings.ratedAt));
+  // Shape a listingsQuery row like the other property responses
+  private toListing(row: Awaited<ReturnType<ReturnType<PropertiesService['listingsQuery']>['execute']>>[number]) {
+    const { viewCount, favoriteCount, isFavorited, averageRating, totalRatings, createdAtKey: _createdAtKey, ...listing } = row;
 
-      const [avgRating] = await db
-        .select({ avg: avg(propertyRatings.rating) })
-        .from(propertyRatings)
-        .where(eq(propertyRatings.propertyId, item.property.id));
+    return {
+      ...listing,
+      property: {
+        ...listing.property,
+        viewCount,
+        favoriteCount,
+        isFavorited,
+        imageVariants: this.imageVariants(listing.property.images),
+        mapsUrl: this.generateMapsUrl(listing.property.latitude, listing.property.longitude),
+      },
+      averageRating: averageRating ? Number(averageRating).toFixed(1) : null,
+      totalRatings,
+    };
+  }
 
-      item.ratings = ratingsData;
-      item.averageRating = avgRating.avg ? Number(avgRating.avg).toFixed(1) : null;
-      item.totalRatings = ratingsData.length;
-    }
+  // Thumb, medium and large URLs per image, null for images without variants
+  private imageVariants(images: string[] | null) {
+    return (images || []).map(url => fileUploadService.getImageVariants(url));
+  }
 
-    // Add view counts, maps URLs, and favorite info
-    propertiesData = await this.addViewCountToProperties(propertiesData);
-    propertiesData = await this.addFavoriteInfoToProperties(
-      propertiesData,
-      userId
-    );
+  // Listings with coordinates inside the box
+  private withinBounds(bounds: GeoBounds): SQL {
+    // A box crossing the antimeridian wraps around from west to east
+    const longitude =
+      bounds.west <= bounds.east
+        ? and(
+            gte(properties.longitude, bounds.west),
+            lte(properties.longitude, bounds.east)
+          )
+        : or(
+            gte(properties.longitude, bounds.west),
+            lte(properties.longitude, bounds.east)
+          );
+
+    return and(
+      isNotNull(properties.latitude),
+      isNotNull(properties.longitude),
+      gte(properties.latitude, bounds.south),
+      lte(properties.latitude, bounds.north),
+      longitude
+    )!;
+  }
+
+  // Great-circle distance in km from the point to the listing (haversine)
+  private distanceFrom(center: GeoPoint): SQL<number> {
+    return sql<number>`(${sql.raw(String(2 * EARTH_RADIUS_KM))} * asin(least(1, sqrt(
+      power(sin(radians(${properties.latitude} - ${center.latitude}) / 2), 2) +
+      cos(radians(${center.latitude})) * cos(radians(${properties.latitude})) *
+      power(sin(radians(${properties.longitude} - ${center.longitude}) / 2), 2)
+    ))))`;
+  }
+
+  // Approved listings matching the conditions, a page at a time
+  private async findApprovedListings(
+    conditions: SQL[],
+    orderBy: SQL[],
+    page: number,
+    limit: number,
+    userId: string | null
+  ) {
+    const where = and(eq(properties.status, 'APPROVED'), ...conditions);
+
+    const rows = await this.listingsQuery(userId)
+      .where(where)
+      .orderBy(...orderBy)
+      .limit(limit)
+      .offset((page - 1) * limit);
+    const propertiesData = rows.map(row => this.toListing(row));
 
-    // Get total count
     const [totalResult] = await db
       .select({ count: count() })
       .from(properties)
-      .where(conditions.length > 0 ? and(...conditions) : undefined);
-
-    const total = totalResult.count;
-    const totalPages = Math.ceil(total / limit);
+      .where(where);
 
     return {
       properties: propertiesData,
       pagination: {
         page,
         limit,
-        total,
-        totalPages,
+        total: totalResult.count,
+        totalPages: Math.ceil(totalResult.count / limit),
       },
     };
   }
 
+  /**
+   * Approved listings within `radiusKm` of the point, nearest first by
+   * default, each with its `distanceKm`
+   */
+  async findNearby(
+    center: GeoPoint,
+    radiusKm: number,
+    page = 1,
+    limit = 10,
+    filters: PropertyQuery = {},
+    userId: string | null = null
+  ) {
+    const distance = this.distanceFrom(center);
+
+    const result = await this.findApprovedListings(
+      [
+        // The box lets the database skip far-away listings before computing distances
+        this.withinBounds(boundsAroundPoint(center, radiusKm)),
+        sql`${distance} <= ${radiusKm}`,
+        ...this.buildFilterConditions(filters),
+      ],
+      // Nearest first unless another sort is asked for
+      this.buildOrderBy({ ...filters, ...center }, ['distance']),
+      page,
+      limit,
+      userId
+    );
+
+    return {
+      ...result,
+      properties: result.properties.map(item => ({
+        ...item,
+        distanceKm: Number(
+          // The bounds condition leaves out listings without coordinates
+          distanceKm(center, {
+            latitude: item.property.latitude!,
+            longitude: item.property.longitude!,
+          }).toFixed(2)
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Approved listings inside a map viewport, newest first by default
+   */
+  async findInBounds(
+    bounds: GeoBounds,
+    page = 1,
+    limit = 100,
+    filters: PropertyQuery = {},
+    userId: string | null = null
+  ) {
+    return this.findApprovedListings(
+      [this.withinBounds(bounds), ...this.buildFilterConditions(filters)],
+      this.buildOrderBy(filters, ['newest']),
+      page,
+      limit,
+      userId
+    );
+  }
+
+  /**
+   * Listings inside a map viewport grouped into grid cells sized for the zoom
+   * level. From MAP_POINTS_MIN_ZOOM on the listings themselves are returned.
+   */
+  async getMapClusters(
+    bounds: GeoBounds,
+    zoom: number,
+    filters: PropertyQuery = {}
+  ) {
+    const where = and(
+      eq(properties.status, 'APPROVED'),
+      this.withinBounds(bounds),
+      ...this.buildFilterConditions(filters)
+    );
+
+    if (zoom >= MAP_POINTS_MIN_ZOOM) {
+      const points = await db
+        .select({
+          id: properties.id,
+          title: properties.title,
+          price: properties.price,
+          currencyCode: properties.currencyCode,
+          bedrooms: properties.bedrooms,
+          latitude: properties.latitude,
+          longitude: properties.longitude,
+          image: sql<string | null>`${properties.images}[1]`,
+        })
+        .from(properties)
+        .where(where)
+        .orderBy(desc(properties.createdAt))
+        .limit(MAP_POINTS_LIMIT + 1);
+
+      return {
+        zoom,
+        bounds,
+        clusters: [],
+        properties: points.slice(0, MAP_POINTS_LIMIT).map(point => ({
+          ...point,
+          thumbnail: (point.image && fileUploadService.getImageVariants(point.image)?.thumb) || point.image,
+        })),
+        truncated: points.length > MAP_POINTS_LIMIT,
+      };
+    }
+
+    // A fixed number of cells per map tile, so clusters keep their size on screen
+    const cellSize = sql.raw(String(360 / 2 ** zoom / MAP_CELLS_PER_TILE));
+
+    const clusters = await db
+      .select({
+        count: count(),
+        latitude: sql<number>`avg(${properties.latitude})`.mapWith(Number),
+        longitude: sql<number>`avg(${properties.longitude})`.mapWith(Number),
+        minPrice: sql<string>`min(${properties.price})`,
+        maxPrice: sql<string>`max(${properties.price})`,
+        north: sql<number>`max(${properties.latitude})`.mapWith(Number),
+        south: sql<number>`min(${properties.latitude})`.mapWith(Number),
+        east: sql<number>`max(${properties.longitude})`.mapWith(Number),
+        west: sql<number>`min(${properties.longitude})`.mapWith(Number),
+      })
+      .from(properties)
+      .where(where)
+      .groupBy(
+        sql`floor(${properties.latitude} / ${cellSize})`,
+        sql`floor(${properties.longitude} / ${cellSize})`
+      );
+
+    return {
+      zoom,
+      bounds,
+      clusters: clusters.map(({ north, south, east, west, ...cluster }) => ({
+        ...cluster,
+        bounds: { north, south, east, west },
+      })),
+      properties: [],
+      truncated: false,
+    };
+  }
+
   async getPropertyById(propertyId: string, userId: string | null = null) {
     const [propertyData] = await db
       .select({
@@ -357,7 +768,14 @@ export class PropertiesService {
       userId
     );
 
-    return finalData[0];
+    const [property] = finalData;
+    return {
+      ...property,
+      property: {
+        ...property.property,
+        imageVariants: this.imageVariants(property.property.images),
+      },
+    };
   }
 
   async createProperty(propertyData: any, ownerId: string) {
@@ -374,21 +792,25 @@ export class PropertiesService {
       createdAt: now,
       updatedAt: now,
     };
+    const screening = await screeningService.screen(newPropertyData);
 
-    const [newProperty] = await db
-      .insert(properties)
-      .values(newPropertyData)
-      .returning();
+    // New listings go straight into the moderation queue
+    return db.transaction(async tx => {
+      const [newProperty] = await tx
+        .insert(properties)
+        .values({ ...newPropertyData, ...screening })
+        .returning();
 
-    return newProperty;
+      if (newProperty.images?.length) {
+        await propertyMediaService.replaceUrls(tx, newProperty, newProperty.images, ownerId);
+      }
+
+      await moderationService.openReview(tx, newProperty.id);
+      return newProperty;
+    });
   }
 
-  async updateProperty(
-    propertyId: string,
-    updateData: any,
-    userId: string,
-    userRole: string
-  ) {
+  async updateProperty(propertyId: string, updateData: any, user: User) {
     // Check if property exists and user has permission
     const [existingProperty] = await db
       .select()
@@ -401,20 +823,49 @@ export class PropertiesService {
     }
 
     // Check permissions
-    if (userRole !== 'ADMIN' && existingProperty.ownerId !== userId) {
+    if (!can(user, 'property:update', existingProperty)) {
       throw new Error('Access denied: You can only update your own properties');
     }
 
-    const [updatedProperty] = await db
-      .update(properties)
-      .set(updateData)
-      .where(eq(properties.id, propertyId))
-      .returning();
+    // Ownership never changes here, and the review status only through moderation
+    const { ownerId, status, ...changes } = updateData;
+
+    // An owner's material edit sends an approved listing back to review
+    const changedFields =
+      existingProperty.status === 'APPROVED' && !can(user, 'property:moderate')
+        ? moderationService.changedMaterialFields(existingProperty, changes)
+        : [];
+
+    const screening = await screeningService.screen({ ...existingProperty, ...changes });
+
+    const { updatedProperty, droppedImages } = await db.transaction(async tx => {
+      // Image records follow the new list; files of dropped images are deleted
+      const droppedImages = Array.isArray(changes.images)
+        ? await propertyMediaService.replaceUrls(tx, existingProperty, changes.images, user.id)
+        : [];
+
+      const [updatedProperty] = await tx
+        .update(properties)
+        .set({
+          ...changes,
+          ...screening,
+          ...(changedFields.length > 0 && { status: 'PENDING_REVIEW' as const }),
+        })
+        .where(eq(properties.id, propertyId))
+        .returning();
+
+      if (changedFields.length > 0) {
+        await moderationService.openReview(tx, propertyId, changedFields);
+      }
+
+      return { updatedProperty, droppedImages };
+    });
 
+    await propertyMediaService.deleteStoredFiles(droppedImages);
     return updatedProperty;
   }
 
-  async deleteProperty(propertyId: string, userId: string, userRole: string) {
+  async deleteProperty(propertyId: string, user: User) {
     // Check if property exists and user has permission
     const [existingProperty] = await db
       .select()
@@ -427,11 +878,14 @@ export class PropertiesService {
     }
 
     // Check permissions
-    if (userRole !== 'ADMIN' && existingProperty.ownerId !== userId) {
+    if (!can(user, 'property:delete', existingProperty)) {
       throw new Error('Access denied: You can only delete your own properties');
     }
 
+    const imagePaths = await propertyMediaService.storagePaths(existingProperty);
+
     await db.delete(properties).where(eq(properties.id, propertyId));
+    await propertyMediaService.deleteStoredFiles(imagePaths);
 
     return { message: 'Property deleted successfully' };
   }
@@ -439,38 +893,12 @@ export class PropertiesService {
   // Separate method for landlord's properties with bookings
   async getMyPropertiesWithBookings(page: number, limit: number, filters: PropertyQuery) {
     const offset = (page - 1) * limit;
-    const conditions: any[] = [];
+    const conditions: SQL[] = this.buildFilterConditions(filters);
 
-    // Build where conditions
-    if (filters.ownerId) {
-      conditions.push(sql`${properties.ownerId}::text = ${filters.ownerId}::text`);
-    }
-    if (filters.city) {
-      conditions.push(like(properties.city, `%${filters.city}%`));
-    }
-    if (filters.minPrice) {
-      conditions.push(gte(properties.price, filters.minPrice));
-    }
-    if (filters.maxPrice) {
-      conditions.push(lte(properties.price, filters.maxPrice));
-    }
-    if (filters.bedrooms) {
-      conditions.push(eq(properties.bedrooms, parseInt(filters.bedrooms)));
-    }
-    if (filters.bathrooms) {
-      conditions.push(eq(properties.bathrooms, parseInt(filters.bathrooms)));
-    }
-    if (filters.furnished) {
-      conditions.push(eq(properties.furnished, filters.furnished));
-    }
+    // Owners see their listings whatever the status
     if (filters.status) {
       conditions.push(eq(properties.status, filters.status));
     }
-    if (filters.search) {
-      conditions.push(
-        sql`(${properties.title} ILIKE ${`%${filters.search}%`} OR ${properties.description} ILIKE ${`%${filters.search}%`})`
-      );
-    }
 
     // Get properties with relations
     let propertiesData = await db
@@ -496,7 +924,7 @@ export class PropertiesService {
       .leftJoin(amenities, eq(propertyAmenities.amenityId, amenities.id))
       .groupBy(properties.id, users.id, propertyTypes.id)
       .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .orderBy(desc(properties.createdAt))
+      .orderBy(...this.buildOrderBy(filters, filters.search ? ['relevance', 'newest'] : ['newest']))
       .limit(limit)
       .offset(offset);
 
@@ -622,33 +1050,27 @@ export class PropertiesService {
   }
 
   /**
-   * Update property status
+   * Update property status. Owners may only send their listing back to review;
+   * moderators' decisions go through the moderation workflow so each is kept.
    */
-  async updatePropertyStatus(id: string, status: 'PENDING_REVIEW' | 'APPROVED' | 'REJECTED', userId: string, userRole: string) {
-    // Check if property exists and get owner info
-    const [existingProperty] = await db
-      .select()
-      .from(properties)
-      .where(eq(properties.id, id));
-
-    if (!existingProperty) {
-      throw new Error('Property not found');
+  async updatePropertyStatus(id: string, status: ListingStatus, user: User, review: ReviewInput = {}) {
+    if (status === 'PENDING_REVIEW') {
+      return moderationService.resubmit(id, user);
     }
 
-    // Check permissions: owner can update their property, admin can update any
-    if (userRole !== 'ADMIN' && existingProperty.ownerId !== userId) {
-      throw new Error('You do not have permission to update this property status');
+    if (!can(user, 'property:moderate')) {
+      throw new Error('Access denied: You do not have permission to update this property status');
     }
 
-    const [property] = await db
-      .update(properties)
-      .set({ 
-        status,
-        updatedAt: new Date()
-      })
-      .where(eq(properties.id, id))
-      .returning();
-
-    return property;
+    switch (status) {
+      case 'APPROVED':
+        return moderationService.approve(id, user.id, review.notes);
+      case 'REJECTED':
+        return moderationService.reject(id, user.id, review);
+      case 'CHANGES_REQUESTED':
+        return moderationService.requestChanges(id, user.id, review);
+      default:
+        throw new Error('Status must be PENDING_REVIEW, APPROVED, REJECTED or CHANGES_REQUESTED');
+    }
   }
 }
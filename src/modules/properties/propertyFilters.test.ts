@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import type { Request } from 'express';
+import {
+  decodeListingCursor,
+  encodeListingCursor,
+  parseListingQuery,
+} from './propertyFilters';
+
+const AMENITY = '0b6f8a52-3c47-4d1e-9a0f-2f5b8c1d7e90';
+const OTHER_AMENITY = '5d2c9e1a-7b84-4f36-8c0d-1e9a3b6f2d47';
+
+const parse = (query: Record<string, unknown>) =>
+  parseListingQuery(query as Request['query']);
+
+describe('parseListingQuery', () => {
+  it('reads valid filters into their types', () => {
+    const { filters, errors } = parse({
+      page: '2',
+      limit: '20',
+      search: '  condo ',
+      minPrice: '1000',
+      maxPrice: '2500.50',
+      minBedrooms: '1',
+      maxBedrooms: '3',
+      furnished: 'true',
+      isAvailable: 'false',
+      listedAfter: '2026-01-01',
+      amenities: `${AMENITY},${OTHER_AMENITY}`,
+      amenityMatch: 'any',
+      latitude: '3.1390',
+      longitude: '101.6869',
+      sort: 'distance,price_asc',
+    });
+
+    expect(errors).toEqual([]);
+    expect(filters).toMatchObject({
+      page: 2,
+      limit: 20,
+      search: 'condo',
+      minPrice: 1000,
+      maxPrice: 2500.5,
+      minBedrooms: 1,
+      maxBedrooms: 3,
+      furnished: true,
+      isAvailable: false,
+      listedAfter: new Date('2026-01-01'),
+      amenities: [AMENITY, OTHER_AMENITY],
+      amenityMatch: 'any',
+      latitude: 3.139,
+      longitude: 101.6869,
+      sort: ['distance', 'price_asc'],
+    });
+  });
+
+  it('ignores empty and unknown parameters', () => {
+    const { filters, errors } = parse({ city: '', colour: 'blue' });
+
+    expect(errors).toEqual([]);
+    expect(Object.values(filters).filter(value => value !== undefined)).toEqual(
+      []
+    );
+  });
+
+  it('accepts repeated parameters as lists, without duplicates', () => {
+    const { filters } = parse({
+      amenities: [AMENITY, `${OTHER_AMENITY},${AMENITY}`],
+    });
+
+    expect(filters.amenities).toEqual([AMENITY, OTHER_AMENITY]);
+  });
+
+  it('reports every invalid parameter', () => {
+    const { errors } = parse({
+      page: '0',
+      limit: '1.5',
+      minPrice: 'cheap',
+      bedrooms: '-1',
+      furnished: 'yes',
+      listedBefore: 'someday',
+      amenities: 'pool',
+      amenityMatch: 'some',
+      status: 'ARCHIVED',
+      latitude: '91',
+      longitude: '0',
+      sort: 'cheapest',
+    });
+
+    expect(errors).toEqual([
+      'page must be a whole number of at least 1',
+      'limit must be a whole number of at least 1',
+      'minPrice must be a number of at least 0',
+      'bedrooms must be a whole number of at least 0',
+      'furnished must be true or false',
+      'listedBefore must be a date',
+      'amenities must be a list of at most 20 amenity IDs',
+      'amenityMatch must be all or any',
+      'status must be one of: PENDING_REVIEW, APPROVED, REJECTED, CHANGES_REQUESTED',
+      'latitude must be between -90 and 90 and longitude between -180 and 180',
+      'sort must be a list of: relevance, newest, oldest, price_asc, price_desc, most_viewed, top_rated, distance',
+    ]);
+  });
+
+  it('refuses ranges whose minimum is above the maximum', () => {
+    const { errors } = parse({
+      minPrice: '3000',
+      maxPrice: '1000',
+      listedAfter: '2026-02-01',
+      listedBefore: '2026-01-01',
+    });
+
+    expect(errors).toEqual([
+      'minPrice must not be greater than maxPrice',
+      'listedAfter must not be greater than listedBefore',
+    ]);
+  });
+
+  it('needs a location to sort by distance and a search for relevance', () => {
+    const { errors } = parse({ sort: 'distance,relevance' });
+
+    expect(errors).toEqual([
+      'Sorting by distance needs latitude and longitude',
+      'Sorting by relevance needs a search query',
+    ]);
+  });
+
+  it('refuses text and cursors that are too long', () => {
+    const { errors } = parse({
+      city: 'x'.repeat(201),
+      cursor: 'x'.repeat(501),
+    });
+
+    expect(errors).toEqual([
+      'city must be a string of at most 200 characters',
+      'cursor must be a value returned as nextCursor',
+    ]);
+  });
+});
+
+describe('decodeListingCursor', () => {
+  const id = '3f2a6c1e-9b7d-4e58-a0c3-6d1f8b2e4a97';
+
+  it('reads back the cursors it issues', () => {
+    for (const cursor of [
+      { sort: 'price_desc' as const, value: '1500.00', id },
+      { sort: 'newest' as const, value: '2026-01-31 09:15:00.123456', id },
+    ]) {
+      expect(decodeListingCursor(encodeListingCursor(cursor))).toEqual(cursor);
+    }
+  });
+
+  it('returns null for anything else', () => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    for (const cursor of [
+      'not base64 json',
+      encode({ sort: 'newest' }),
+      encode(['most_viewed', '10', id]),
+      encode(['price_asc', '1000', 'not-a-uuid']),
+      encode(['price_asc', 1000, id]),
+      encode(['price_asc', 'abc', id]),
+      encode(['oldest', '2026-13-01 00:00:00', id]),
+    ]) {
+      expect(decodeListingCursor(cursor)).toBeNull();
+    }
+  });
+});
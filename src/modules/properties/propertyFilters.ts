@@ -0,0 +1,320 @@
+import { Request } from 'express';
+import { PropertyQuery, PropertySort } from '../../types';
+import { isValidLatitude, isValidLongitude } from '../../utils/geo';
+
+export const PROPERTY_SORTS: PropertySort[] = [
+  'relevance',
+  'newest',
+  'oldest',
+  'price_asc',
+  'price_desc',
+  'most_viewed',
+  'top_rated',
+  'distance',
+];
+
+const LISTING_STATUSES = [
+  'PENDING_REVIEW',
+  'APPROVED',
+  'REJECTED',
+  'CHANGES_REQUESTED',
+] as const;
+const MAX_TEXT_LENGTH = 200;
+const MAX_AMENITIES = 20;
+const MAX_CURSOR_LENGTH = 500;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const PRICE_PATTERN = /^\d{1,10}(\.\d{1,2})?$/;
+// createdAt as Postgres prints it, e.g. 2024-01-31 09:15:00.123456
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/;
+
+/**
+ * Where a page of listings ended: the sort it was made for, the last row's
+ * sort value and its ID as a tie-breaker
+ */
+export interface ListingCursor {
+  sort: PropertySort;
+  value: string;
+  id: string;
+}
+
+export const encodeListingCursor = (cursor: ListingCursor): string =>
+  Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString(
+    'base64url'
+  );
+
+// Postgres refuses dates like February 30, which Date.parse rolls over
+const isTimestamp = (value: string): boolean => {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) return false;
+  const [year, month, day, hours, minutes, seconds] = match
+    .slice(1, 7)
+    .map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    hours < 24 &&
+    minutes < 60 &&
+    seconds < 60
+  );
+};
+
+// Whether a cursor's value can be compared with the column its sort is on
+const isCursorValue = (sort: PropertySort, value: string): boolean => {
+  switch (sort) {
+    case 'price_asc':
+    case 'price_desc':
+      return PRICE_PATTERN.test(value);
+    case 'newest':
+    case 'oldest':
+      return isTimestamp(value);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Returns null for anything that is not a cursor we issued
+ */
+export const decodeListingCursor = (value: string): ListingCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, 'base64url').toString());
+    if (!Array.isArray(decoded) || decoded.length !== 3) return null;
+
+    const [sort, sortValue, id] = decoded;
+    if (
+      !PROPERTY_SORTS.includes(sort) ||
+      typeof sortValue !== 'string' ||
+      !isCursorValue(sort, sortValue) ||
+      typeof id !== 'string' ||
+      !UUID_PATTERN.test(id)
+    ) {
+      return null;
+    }
+    return { sort, value: sortValue, id };
+  } catch (error) {
+    return null;
+  }
+};
+
+export interface ParsedListingQuery {
+  filters: PropertyQuery;
+  errors: string[];
+}
+
+/**
+ * Validate the listing filters, sorting and pagination shared by the listing,
+ * search, nearby and map endpoints. Unknown parameters are ignored; every
+ * invalid one is reported.
+ */
+export const parseListingQuery = (
+  query: Request['query']
+): ParsedListingQuery => {
+  const errors: string[] = [];
+  const filters: PropertyQuery = {};
+
+  const present = (name: string) =>
+    query[name] !== undefined && query[name] !== '';
+
+  const readText = (name: string): string | undefined => {
+    if (!present(name)) return undefined;
+    const value = query[name];
+    if (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH) {
+      errors.push(
+        `${name} must be a string of at most ${MAX_TEXT_LENGTH} characters`
+      );
+      return undefined;
+    }
+    return value.trim();
+  };
+
+  const readNumber = (
+    name: string,
+    options: { integer?: boolean; min?: number } = {}
+  ): number | undefined => {
+    if (!present(name)) return undefined;
+    const value = Number(query[name]);
+    const min = options.min ?? 0;
+    if (
+      !Number.isFinite(value) ||
+      (options.integer && !Number.isInteger(value)) ||
+      value < min
+    ) {
+      errors.push(
+        `${name} must be ${options.integer ? 'a whole number' : 'a number'} of at least ${min}`
+      );
+      return undefined;
+    }
+    return value;
+  };
+
+  const readBoolean = (name: string): boolean | undefined => {
+    if (!present(name)) return undefined;
+    if (query[name] !== 'true' && query[name] !== 'false') {
+      errors.push(`${name} must be true or false`);
+      return undefined;
+    }
+    return query[name] === 'true';
+  };
+
+  const readDate = (name: string): Date | undefined => {
+    if (!present(name)) return undefined;
+    const date = new Date(String(query[name]));
+    if (Number.isNaN(date.getTime())) {
+      errors.push(`${name} must be a date`);
+      return undefined;
+    }
+    return date;
+  };
+
+  // Accepts a comma-separated value or a repeated parameter
+  const readList = (name: string): string[] | undefined => {
+    if (!present(name)) return undefined;
+    const raw = query[name];
+    const values = (Array.isArray(raw) ? raw : [raw])
+      .flatMap(value => String(value).split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+    return [...new Set(values)];
+  };
+
+  const checkRange = (
+    minName: string,
+    maxName: string,
+    min?: number | Date,
+    max?: number | Date
+  ) => {
+    if (min !== undefined && max !== undefined && min > max) {
+      errors.push(`${minName} must not be greater than ${maxName}`);
+    }
+  };
+
+  filters.page = readNumber('page', { integer: true, min: 1 });
+  filters.limit = readNumber('limit', { integer: true, min: 1 });
+
+  filters.search = readText('search');
+  filters.city = readText('city');
+  filters.state = readText('state');
+  filters.country = readText('country');
+  filters.propertyType = readText('propertyType');
+
+  filters.minPrice = readNumber('minPrice');
+  filters.maxPrice = readNumber('maxPrice');
+  checkRange('minPrice', 'maxPrice', filters.minPrice, filters.maxPrice);
+
+  filters.bedrooms = readNumber('bedrooms', { integer: true });
+  filters.minBedrooms = readNumber('minBedrooms', { integer: true });
+  filters.maxBedrooms = readNumber('maxBedrooms', { integer: true });
+  checkRange(
+    'minBedrooms',
+    'maxBedrooms',
+    filters.minBedrooms,
+    filters.maxBedrooms
+  );
+
+  filters.bathrooms = readNumber('bathrooms', { integer: true });
+  filters.minBathrooms = readNumber('minBathrooms', { integer: true });
+  filters.maxBathrooms = readNumber('maxBathrooms', { integer: true });
+  checkRange(
+    'minBathrooms',
+    'maxBathrooms',
+    filters.minBathrooms,
+    filters.maxBathrooms
+  );
+
+  filters.minArea = readNumber('minArea');
+  filters.maxArea = readNumber('maxArea');
+  checkRange('minArea', 'maxArea', filters.minArea, filters.maxArea);
+
+  filters.furnished = readBoolean('furnished');
+  filters.isAvailable = readBoolean('isAvailable');
+
+  filters.listedAfter = readDate('listedAfter');
+  filters.listedBefore = readDate('listedBefore');
+  checkRange(
+    'listedAfter',
+    'listedBefore',
+    filters.listedAfter,
+    filters.listedBefore
+  );
+
+  const amenities = readList('amenities');
+  if (amenities) {
+    if (
+      amenities.length > MAX_AMENITIES ||
+      !amenities.every(id => UUID_PATTERN.test(id))
+    ) {
+      errors.push(
+        `amenities must be a list of at most ${MAX_AMENITIES} amenity IDs`
+      );
+    } else {
+      filters.amenities = amenities;
+    }
+  }
+
+  if (present('amenityMatch')) {
+    if (query.amenityMatch !== 'all' && query.amenityMatch !== 'any') {
+      errors.push('amenityMatch must be all or any');
+    } else {
+      filters.amenityMatch = query.amenityMatch;
+    }
+  }
+
+  if (present('status')) {
+    const status = query.status as PropertyQuery['status'];
+    if (!LISTING_STATUSES.includes(status!)) {
+      errors.push(`status must be one of: ${LISTING_STATUSES.join(', ')}`);
+    } else {
+      filters.status = status;
+    }
+  }
+
+  if (present('latitude') || present('longitude')) {
+    const latitude = Number(query.latitude);
+    const longitude = Number(query.longitude);
+    if (!isValidLatitude(latitude) || !isValidLongitude(longitude)) {
+      errors.push(
+        'latitude must be between -90 and 90 and longitude between -180 and 180'
+      );
+    } else {
+      filters.latitude = latitude;
+      filters.longitude = longitude;
+    }
+  }
+
+  const sort = readList('sort');
+  if (sort) {
+    const invalid = sort.filter(
+      key => !PROPERTY_SORTS.includes(key as PropertySort)
+    );
+    if (invalid.length > 0) {
+      errors.push(`sort must be a list of: ${PROPERTY_SORTS.join(', ')}`);
+    } else {
+      filters.sort = sort as PropertySort[];
+    }
+
+    if (
+      sort.includes('distance') &&
+      (!present('latitude') || !present('longitude'))
+    ) {
+      errors.push('Sorting by distance needs latitude and longitude');
+    }
+    if (sort.includes('relevance') && !present('search') && !present('q')) {
+      errors.push('Sorting by relevance needs a search query');
+    }
+  }
+
+  if (present('cursor')) {
+    const cursor = query.cursor;
+    if (typeof cursor !== 'string' || cursor.length > MAX_CURSOR_LENGTH) {
+      errors.push('cursor must be a value returned as nextCursor');
+    } else {
+      filters.cursor = cursor;
+    }
+  }
+
+  return { filters, errors };
+};
@@ -3,12 +3,63 @@ import { db } from '../../config/database';
 import { propertyRatings, propertyFavorites, properties } from '../../db/schema';
 import { eq, and } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
+import { MAP_POINTS_MIN_ZOOM, PropertiesService } from './properties.service';
+import { parseListingQuery } from './propertyFilters';
+import { GeoBounds, isValidLatitude, isValidLongitude } from '../../utils/geo';
+
+const DEFAULT_RADIUS_KM = 5;
+const MAX_RADIUS_KM = 100;
+const MAX_NEARBY_LIMIT = 50;
+const MAX_BOUNDS_LIMIT = 500;
+const MAX_MAP_ZOOM = 22;
+
+const parseBounds = (query: Request['query']): GeoBounds => ({
+  north: Number(query.north),
+  south: Number(query.south),
+  east: Number(query.east),
+  west: Number(query.west),
+});
+
+// Why the viewport is unusable, or null if it is fine
+const validateBounds = (bounds: GeoBounds): string | null => {
+  if (
+    !isValidLatitude(bounds.north) ||
+    !isValidLatitude(bounds.south) ||
+    !isValidLongitude(bounds.east) ||
+    !isValidLongitude(bounds.west)
+  ) {
+    return 'north and south must be latitudes and east and west longitudes';
+  }
+
+  if (bounds.south > bounds.north) {
+    return 'south must not be greater than north';
+  }
+
+  return null;
+};
 
 class PropertyInteractionsController {
+  private propertiesService = new PropertiesService();
+
+  constructor() {
+    this.getNearbyProperties = this.getNearbyProperties.bind(this);
+    this.getPropertiesInBounds = this.getPropertiesInBounds.bind(this);
+    this.getMapClusters = this.getMapClusters.bind(this);
+  }
+
   async getNearbyProperties(req: Request, res: Response) {
     try {
-      const { latitude, longitude, radius = 5, limit = 10 } = req.query;
-      
+      const { filters, errors } = parseListingQuery(req.query);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors
+        });
+      }
+
+      const { latitude, longitude, radius } = req.query;
+
       if (!latitude || !longitude) {
         return res.status(400).json({
           success: false,
@@ -16,14 +67,38 @@ class PropertyInteractionsController {
         });
       }
 
-      // TODO: Implement nearby properties logic
-      res.json({
+      const center = { latitude: Number(latitude), longitude: Number(longitude) };
+      if (!isValidLatitude(center.latitude) || !isValidLongitude(center.longitude)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Latitude must be between -90 and 90 and longitude between -180 and 180'
+        });
+      }
+
+      const radiusKm = radius === undefined ? DEFAULT_RADIUS_KM : Number(radius);
+      if (!(radiusKm > 0) || radiusKm > MAX_RADIUS_KM) {
+        return res.status(400).json({
+          success: false,
+          message: `Radius must be greater than 0 and at most ${MAX_RADIUS_KM} km`
+        });
+      }
+
+      const result = await this.propertiesService.findNearby(
+        center,
+        radiusKm,
+        filters.page || 1,
+        Math.min(filters.limit || 10, MAX_NEARBY_LIMIT),
+        filters,
+        req.user?.id || null
+      );
+
+      return res.json({
         success: true,
         message: 'Nearby properties retrieved successfully',
-        data: []
+        data: { ...result, center, radiusKm }
       });
     } catch (error) {
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         message: 'Failed to get nearby properties',
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -31,6 +106,99 @@ class PropertyInteractionsController {
     }
   }
 
+  async getPropertiesInBounds(req: Request, res: Response) {
+    try {
+      const { filters, errors } = parseListingQuery(req.query);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors
+        });
+      }
+
+      const bounds = parseBounds(req.query);
+      const invalid = validateBounds(bounds);
+      if (invalid) {
+        return res.status(400).json({
+          success: false,
+          message: invalid
+        });
+      }
+
+      const result = await this.propertiesService.findInBounds(
+        bounds,
+        filters.page || 1,
+        Math.min(filters.limit || 100, MAX_BOUNDS_LIMIT),
+        filters,
+        req.user?.id || null
+      );
+
+      return res.json({
+        success: true,
+        message: 'Properties in bounds retrieved successfully',
+        data: { ...result, bounds }
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to get properties in bounds',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async getMapClusters(req: Request, res: Response) {
+    try {
+      const { filters, errors } = parseListingQuery(req.query);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors
+        });
+      }
+
+      const bounds = parseBounds(req.query);
+      const invalid = validateBounds(bounds);
+      if (invalid) {
+        return res.status(400).json({
+          success: false,
+          message: invalid
+        });
+      }
+
+      const zoom = Number(req.query.zoom);
+      if (!Number.isInteger(zoom) || zoom < 0 || zoom > MAX_MAP_ZOOM) {
+        return res.status(400).json({
+          success: false,
+          message: `Zoom must be a whole number between 0 and ${MAX_MAP_ZOOM}`
+        });
+      }
+
+      const result = await this.propertiesService.getMapClusters(
+        bounds,
+        zoom,
+        filters
+      );
+
+      return res.json({
+        success: true,
+        message:
+          zoom >= MAP_POINTS_MIN_ZOOM
+            ? 'Map properties retrieved successfully'
+            : 'Map clusters retrieved successfully',
+        data: result
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to get map clusters',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   async addToFavorites(req: Request, res: Response) {
     try {
       const { propertyId } = req.params;
@@ -0,0 +1,190 @@
+import { Request, Response } from 'express';
+import { cache } from '../../utils/cache';
+import propertyMediaService, { NewImage } from './propertyMedia.service';
+
+/**
+ * Map property image errors to HTTP status codes
+ */
+const sendMediaError = (res: Response, error: unknown, fallback: string) => {
+  const message = (error as Error).message;
+
+  let status = 500;
+  if (message === 'Property not found' || message === 'Image not found')
+    status = 404;
+  else if (message.startsWith('Access denied')) status = 403;
+  else if (message.includes('must') || message.includes('at most'))
+    status = 400;
+
+  if (status === 500) {
+    console.error(`${fallback}:`, error);
+  }
+
+  res.status(status).json({
+    success: false,
+    error: status === 500 ? fallback : message,
+    ...(status === 500 && { message }),
+  });
+};
+
+class PropertyMediaController {
+  /**
+   * Images of a listing in order
+   */
+  async getImages(req: Request, res: Response): Promise<void> {
+    try {
+      const images = await propertyMediaService.list(
+        req.params.id,
+        req.user || null
+      );
+
+      res.json({
+        success: true,
+        data: images,
+      });
+    } catch (error) {
+      sendMediaError(res, error, 'Failed to fetch property images');
+    }
+  }
+
+  /**
+   * Attach uploaded files to a listing (Owner or Admin)
+   */
+  async addImages(req: Request, res: Response): Promise<void> {
+    try {
+      const { images } = req.body || {};
+
+      if (
+        !Array.isArray(images) ||
+        images.length === 0 ||
+        images.some(image => !image || typeof image !== 'object')
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'Images must be a non-empty list of uploaded files',
+        });
+        return;
+      }
+
+      const result = await propertyMediaService.add(
+        req.params.id,
+        images as NewImage[],
+        req.user!
+      );
+      cache.clear();
+
+      res.status(201).json({
+        success: true,
+        message: 'Images added successfully',
+        data: result,
+      });
+    } catch (error) {
+      sendMediaError(res, error, 'Failed to add property images');
+    }
+  }
+
+  /**
+   * Change an image's caption or room tag (Owner or Admin)
+   */
+  async updateImage(req: Request, res: Response): Promise<void> {
+    try {
+      const { caption, roomTag } = req.body || {};
+
+      const result = await propertyMediaService.update(
+        req.params.id,
+        req.params.imageId,
+        { caption, roomTag },
+        req.user!
+      );
+      cache.clear();
+
+      res.json({
+        success: true,
+        message: 'Image updated successfully',
+        data: result,
+      });
+    } catch (error) {
+      sendMediaError(res, error, 'Failed to update property image');
+    }
+  }
+
+  /**
+   * Put a listing's images in a new order (Owner or Admin)
+   */
+  async reorderImages(req: Request, res: Response): Promise<void> {
+    try {
+      const { imageIds } = req.body || {};
+
+      if (
+        !Array.isArray(imageIds) ||
+        imageIds.some(id => typeof id !== 'string')
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'Image IDs must be a list',
+        });
+        return;
+      }
+
+      const result = await propertyMediaService.reorder(
+        req.params.id,
+        imageIds,
+        req.user!
+      );
+      cache.clear();
+
+      res.json({
+        success: true,
+        message: 'Images reordered successfully',
+        data: result,
+      });
+    } catch (error) {
+      sendMediaError(res, error, 'Failed to reorder property images');
+    }
+  }
+
+  /**
+   * Make an image the listing's cover (Owner or Admin)
+   */
+  async setCover(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await propertyMediaService.setCover(
+        req.params.id,
+        req.params.imageId,
+        req.user!
+      );
+      cache.clear();
+
+      res.json({
+        success: true,
+        message: 'Cover image updated successfully',
+        data: result,
+      });
+    } catch (error) {
+      sendMediaError(res, error, 'Failed to set cover image');
+    }
+  }
+
+  /**
+   * Remove an image and its file (Owner or Admin)
+   */
+  async deleteImage(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await propertyMediaService.remove(
+        req.params.id,
+        req.params.imageId,
+        req.user!
+      );
+      cache.clear();
+
+      res.json({
+        success: true,
+        message: 'Image deleted successfully',
+        data: result,
+      });
+    } catch (error) {
+      sendMediaError(res, error, 'Failed to delete property image');
+    }
+  }
+}
+
+export default new PropertyMediaController();
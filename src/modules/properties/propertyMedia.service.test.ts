@@ -0,0 +1,174 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { eq } from 'drizzle-orm';
+import type { TestDatabase } from '../../test/testDatabase';
+import type { User } from '../../types';
+
+vi.mock('../../config/database', async () => {
+  const { createTestDatabase } = await import('../../test/testDatabase');
+  return createTestDatabase();
+});
+
+const OWN_PHOTO = 'rentverse/properties/own.jpg';
+const OTHER_PHOTO = 'rentverse/properties/other.jpg';
+const PROFILE_PICTURE = 'rentverse/profile-pictures/own.jpg';
+
+describe('PropertyMediaService', () => {
+  let database: TestDatabase;
+  let propertyMediaService: typeof import('./propertyMedia.service').default;
+  let fileUploadService: typeof import('../../utils/fileUpload').default;
+  let screeningService: typeof import('../moderation/screening.service').default;
+  let owner: User;
+  let other: User;
+  let propertyTypeId: string;
+
+  const createListing = async (
+    images: string[] = [],
+    status: 'APPROVED' | 'PENDING_REVIEW' = 'PENDING_REVIEW'
+  ) => {
+    const { db, schema } = database;
+    const [listing] = await db
+      .insert(schema.properties)
+      .values({
+        title: 'Listing',
+        address: '1 Jalan Test',
+        city: 'Kuala Lumpur',
+        state: 'Wilayah Persekutuan',
+        zipCode: '50000',
+        price: '1500',
+        code: `TEST-${Math.random()}`,
+        status,
+        ownerId: owner.id,
+        propertyTypeId,
+        images,
+      })
+      .returning();
+    return listing;
+  };
+
+  beforeAll(async () => {
+    database = (await import(
+      '../../config/database'
+    )) as unknown as TestDatabase;
+    const { db, schema } = database;
+    [owner, other] = await db
+      .insert(schema.users)
+      .values([
+        {
+          email: 'owner@example.com',
+          name: 'Owner',
+          password: 'x',
+          role: 'LANDLORD',
+        },
+        { email: 'other@example.com', name: 'Other', password: 'x' },
+      ])
+      .returning();
+    const [type] = await db
+      .insert(schema.propertyTypes)
+      .values({ code: 'CONDO', name: 'Condominium' })
+      .returning();
+    propertyTypeId = type.id;
+
+    const uploadsService = (await import('../../services/uploads.service'))
+      .default;
+    const file = (key: string) => ({ key, size: 1, mimetype: 'image/jpeg' });
+    await uploadsService.register(
+      [file(OWN_PHOTO), file(PROFILE_PICTURE)],
+      owner.id
+    );
+    await uploadsService.register([file(OTHER_PHOTO)], other.id);
+
+    screeningService = (await import('../moderation/screening.service'))
+      .default;
+    fileUploadService = (await import('../../utils/fileUpload')).default;
+    propertyMediaService = (await import('./propertyMedia.service')).default;
+  });
+
+  beforeEach(() => {
+    // Screening reads through `db`, which waits on the open transaction in
+    // the single-connection test database
+    vi.spyOn(screeningService, 'screen').mockImplementation(async () => ({
+      screeningScore: 100,
+      screeningFlags: [],
+      screenedAt: new Date(),
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lists images without locking the listing', async () => {
+    const listing = await createListing(
+      ['https://example.com/a.jpg'],
+      'APPROVED'
+    );
+
+    // The first read creates the image records of an older listing
+    const [created] = await propertyMediaService.list(listing.id, null);
+    database.queries.length = 0;
+    const images = await propertyMediaService.list(listing.id, null);
+
+    expect(images.map(image => image.id)).toEqual([created.id]);
+    expect(database.queries.join('\n')).not.toMatch(/for update/i);
+  });
+
+  it('refuses files outside the properties folder', async () => {
+    const listing = await createListing();
+
+    await expect(
+      propertyMediaService.add(listing.id, [{ key: PROFILE_PICTURE }], owner)
+    ).rejects.toThrow('Images must be uploaded to the properties folder');
+  });
+
+  it("refuses someone else's upload", async () => {
+    const listing = await createListing();
+
+    await expect(
+      propertyMediaService.add(listing.id, [{ key: OTHER_PHOTO }], owner)
+    ).rejects.toThrow('Access denied');
+    expect(await propertyMediaService.list(listing.id, owner)).toEqual([]);
+  });
+
+  it('deletes the file of a removed image the listing owns', async () => {
+    const deleteFile = vi
+      .spyOn(fileUploadService, 'deleteFile')
+      .mockResolvedValue(undefined as never);
+    const listing = await createListing();
+
+    const [image] = await propertyMediaService.add(
+      listing.id,
+      [{ key: OWN_PHOTO }],
+      owner
+    );
+    await propertyMediaService.remove(listing.id, image.id, owner);
+
+    expect(deleteFile).toHaveBeenCalledWith(OWN_PHOTO);
+  });
+
+  it('never deletes files the listing does not own', async () => {
+    const deleteFile = vi.spyOn(fileUploadService, 'deleteFile');
+    // Saved before uploads were checked, pointing at someone else's file
+    const listing = await createListing([
+      fileUploadService.getFileUrl(OTHER_PHOTO)!,
+    ]);
+
+    const [image] = await propertyMediaService.list(listing.id, owner);
+    await propertyMediaService.remove(listing.id, image.id, owner);
+
+    expect(deleteFile).not.toHaveBeenCalled();
+    const { db, schema } = database;
+    const [upload] = await db
+      .select()
+      .from(schema.uploads)
+      .where(eq(schema.uploads.key, OTHER_PHOTO));
+    expect(upload).toBeDefined();
+  });
+});
@@ -0,0 +1,569 @@
+import { and, asc, desc, eq, inArray, ne } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { properties, propertyImages, roomTagEnum } from '../../db/schema';
+import { Property, PropertyImage, RoomTag, User } from '../../types';
+import { can } from '../../policies/permissions';
+import fileUploadService from '../../utils/fileUpload';
+import uploadsService from '../../services/uploads.service';
+import moderationService from '../moderation/moderation.service';
+import screeningService from '../moderation/screening.service';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const MAX_IMAGES = parseInt(process.env.MAX_PROPERTY_IMAGES || '30');
+const MAX_CAPTION_LENGTH = 500;
+// Listing photos must be uploaded to this folder
+const PROPERTIES_FOLDER = 'properties';
+
+export interface NewImage {
+  // The `key` or `url` returned by /upload
+  key?: string;
+  url?: string;
+  caption?: string | null;
+  roomTag?: string | null;
+  width?: number | null;
+  height?: number | null;
+}
+
+export interface ImageChanges {
+  caption?: string | null;
+  roomTag?: string | null;
+}
+
+const isDimension = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (Number.isInteger(value) && (value as number) > 0);
+
+// Records as returned by the API, with the URLs of the resized variants
+const withVariants = (image: PropertyImage) => ({
+  ...image,
+  variants: fileUploadService.getImageVariants(image.storagePath || image.url),
+});
+
+/**
+ * Per-image records for listing photos. properties.images is kept in step
+ * (cover first, then in order) so listing responses need no extra query.
+ */
+class PropertyMediaService {
+  /**
+   * Lock the listing so concurrent changes to its images apply one at a time
+   */
+  private async lockProperty(tx: Transaction, propertyId: string) {
+    const [property] = await tx
+      .select()
+      .from(properties)
+      .where(eq(properties.id, propertyId))
+      .for('update');
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+    return property;
+  }
+
+  private assertCanEdit(user: User, property: Property) {
+    if (!can(user, 'property:update', property)) {
+      throw new Error(
+        'Access denied: You can only manage images of your own properties'
+      );
+    }
+  }
+
+  /**
+   * The listing's images in order. Listings from before image records
+   * existed get them created from properties.images, first image as cover.
+   */
+  private async loadImages(
+    tx: Transaction,
+    property: Property
+  ): Promise<PropertyImage[]> {
+    const images = await tx
+      .select()
+      .from(propertyImages)
+      .where(eq(propertyImages.propertyId, property.id))
+      .orderBy(asc(propertyImages.position));
+
+    if (images.length > 0 || !property.images?.length) {
+      return images;
+    }
+
+    const created = await tx
+      .insert(propertyImages)
+      .values(
+        property.images.map((url, position) => ({
+          propertyId: property.id,
+          url,
+          storagePath: fileUploadService.getFilePathFromUrl(url),
+          position,
+          isCover: position === 0,
+        }))
+      )
+      .returning();
+
+    return created.sort((a, b) => a.position - b.position);
+  }
+
+  /**
+   * The paths of files the registry shows as the listing's. Others may be
+   * used by something else, so they are never deleted with the listing.
+   */
+  private ownedPaths(
+    executor: typeof db | Transaction,
+    property: Property,
+    paths: string[]
+  ) {
+    return uploadsService.filterReferencedBy(executor, paths, {
+      type: 'property',
+      id: property.id,
+    });
+  }
+
+  private findImage(images: PropertyImage[], imageId: string) {
+    const image = images.find(item => item.id === imageId);
+    if (!image) {
+      throw new Error('Image not found');
+    }
+    return image;
+  }
+
+  private validateDetails(details: ImageChanges) {
+    if (
+      details.caption != null &&
+      (typeof details.caption !== 'string' ||
+        details.caption.length > MAX_CAPTION_LENGTH)
+    ) {
+      throw new Error(
+        `Caption must be text of at most ${MAX_CAPTION_LENGTH} characters`
+      );
+    }
+    if (
+      details.roomTag != null &&
+      !roomTagEnum.enumValues.includes(details.roomTag as RoomTag)
+    ) {
+      throw new Error(
+        `Room tag must be one of: ${roomTagEnum.enumValues.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Bring properties.images and the screening up to date after a change.
+   * When the owner adds images to an approved listing it goes back to review.
+   */
+  private async syncListing(
+    tx: Transaction,
+    property: Property,
+    user: User | null,
+    options: { imagesAdded?: boolean } = {}
+  ) {
+    const images = await tx
+      .select()
+      .from(propertyImages)
+      .where(eq(propertyImages.propertyId, property.id))
+      .orderBy(desc(propertyImages.isCover), asc(propertyImages.position));
+
+    const urls = images.map(image => image.url);
+    const reReview =
+      !!options.imagesAdded &&
+      property.status === 'APPROVED' &&
+      !can(user, 'property:moderate');
+
+    const screening = await screeningService.screen({
+      ...property,
+      images: urls,
+    });
+
+    await tx
+      .update(properties)
+      .set({
+        images: urls,
+        ...screening,
+        ...(reReview && { status: 'PENDING_REVIEW' as const }),
+        updatedAt: new Date(),
+      })
+      .where(eq(properties.id, property.id));
+
+    if (reReview) {
+      await moderationService.openReview(tx, property.id, ['images']);
+    }
+
+    return images.sort((a, b) => a.position - b.position).map(withVariants);
+  }
+
+  /**
+   * Remove files from storage once their records are gone. Failures are
+   * logged, as the listing has already changed.
+   */
+  async deleteStoredFiles(paths: string[]): Promise<void> {
+    const unique = [...new Set(paths)];
+    if (unique.length === 0) {
+      return;
+    }
+
+    try {
+      if (unique.length === 1) {
+        await fileUploadService.deleteFile(unique[0]);
+      } else {
+        await fileUploadService.deleteMultipleFiles(unique);
+      }
+      await uploadsService.forget(unique);
+    } catch (error) {
+      console.error('Delete property images error:', { paths: unique, error });
+      // Left for the orphaned upload collection to retry
+      await uploadsService.detach(db, unique).catch(detachError => {
+        console.error('Detach property images error:', detachError);
+      });
+    }
+  }
+
+  /**
+   * Images of a listing. Unpublished listings only show them to their owner
+   * and moderators.
+   */
+  async list(propertyId: string, user: User | null) {
+    const [property] = await db
+      .select()
+      .from(properties)
+      .where(eq(properties.id, propertyId))
+      .limit(1);
+
+    if (
+      !property ||
+      (property.status !== 'APPROVED' &&
+        !can(user, 'property:viewUnpublished', property))
+    ) {
+      throw new Error('Property not found');
+    }
+
+    const images = await db
+      .select()
+      .from(propertyImages)
+      .where(eq(propertyImages.propertyId, property.id))
+      .orderBy(asc(propertyImages.position));
+
+    if (images.length > 0 || !property.images?.length) {
+      return images.map(withVariants);
+    }
+
+    // Reads take no lock; only a listing still without image records needs
+    // one, once, to create them
+    return db.transaction(async tx => {
+      const locked = await this.lockProperty(tx, propertyId);
+      return (await this.loadImages(tx, locked)).map(withVariants);
+    });
+  }
+
+  /**
+   * Attach files uploaded through /upload to the listing, after its current
+   * images. The first image of a listing becomes its cover.
+   */
+  async add(propertyId: string, newImages: NewImage[], user: User) {
+    const values = newImages.map(image => {
+      this.validateDetails(image);
+      if (!isDimension(image.width) || !isDimension(image.height)) {
+        throw new Error('Width and height must be positive whole numbers');
+      }
+
+      const storagePath = image.key
+        ? image.key
+        : image.url
+          ? fileUploadService.getFilePathFromUrl(image.url)
+          : null;
+      if (
+        !storagePath ||
+        !fileUploadService.isInFolder(storagePath, PROPERTIES_FOLDER)
+      ) {
+        throw new Error(
+          `Images must be uploaded to the ${PROPERTIES_FOLDER} folder through /upload first and given by key or url`
+        );
+      }
+
+      return {
+        url: fileUploadService.getFileUrl(storagePath)!,
+        storagePath,
+        caption: image.caption || null,
+        roomTag: (image.roomTag as RoomTag) || null,
+        width: image.width || null,
+        height: image.height || null,
+      };
+    });
+
+    return db.transaction(async tx => {
+      const property = await this.lockProperty(tx, propertyId);
+      this.assertCanEdit(user, property);
+
+      const images = await this.loadImages(tx, property);
+      if (images.length + values.length > MAX_IMAGES) {
+        throw new Error(`A listing can have at most ${MAX_IMAGES} images`);
+      }
+
+      const hasCover = images.some(image => image.isCover);
+      await tx.insert(propertyImages).values(
+        values.map((value, index) => ({
+          ...value,
+          propertyId,
+          position: images.length + index,
+          isCover: !hasCover && index === 0,
+          uploadedById: user.id,
+        }))
+      );
+      await uploadsService.attach(
+        tx,
+        values.map(value => value.storagePath),
+        { type: 'property', id: propertyId },
+        user.id
+      );
+
+      return this.syncListing(tx, property, user, { imagesAdded: true });
+    });
+  }
+
+  /**
+   * Change an image's caption or room tag
+   */
+  async update(
+    propertyId: string,
+    imageId: string,
+    changes: ImageChanges,
+    user: User
+  ) {
+    this.validateDetails(changes);
+
+    return db.transaction(async tx => {
+      const property = await this.lockProperty(tx, propertyId);
+      this.assertCanEdit(user, property);
+      this.findImage(await this.loadImages(tx, property), imageId);
+
+      await tx
+        .update(propertyImages)
+        .set({
+          ...(changes.caption !== undefined && {
+            caption: changes.caption || null,
+          }),
+          ...(changes.roomTag !== undefined && {
+            roomTag: (changes.roomTag as RoomTag) || null,
+          }),
+          updatedAt: new Date(),
+        })
+        .where(eq(propertyImages.id, imageId));
+
+      return this.syncListing(tx, property, user);
+    });
+  }
+
+  /**
+   * Put the images in the given order, which must list every image once
+   */
+  async reorder(propertyId: string, imageIds: string[], user: User) {
+    return db.transaction(async tx => {
+      const property = await this.lockProperty(tx, propertyId);
+      this.assertCanEdit(user, property);
+
+      const images = await this.loadImages(tx, property);
+      const known = new Set(images.map(image => image.id));
+      if (
+        imageIds.length !== images.length ||
+        new Set(imageIds).size !== imageIds.length ||
+        imageIds.some(id => !known.has(id))
+      ) {
+        throw new Error(
+          "Image order must list each of the listing's images once"
+        );
+      }
+
+      const now = new Date();
+      for (const [position, id] of imageIds.entries()) {
+        await tx
+          .update(propertyImages)
+          .set({ position, updatedAt: now })
+          .where(eq(propertyImages.id, id));
+      }
+
+      return this.syncListing(tx, property, user);
+    });
+  }
+
+  async setCover(propertyId: string, imageId: string, user: User) {
+    return db.transaction(async tx => {
+      const property = await this.lockProperty(tx, propertyId);
+      this.assertCanEdit(user, property);
+      this.findImage(await this.loadImages(tx, property), imageId);
+
+      const now = new Date();
+      await tx
+        .update(propertyImages)
+        .set({ isCover: false, updatedAt: now })
+        .where(
+          and(
+            eq(propertyImages.propertyId, propertyId),
+            ne(propertyImages.id, imageId)
+          )
+        );
+      await tx
+        .update(propertyImages)
+        .set({ isCover: true, updatedAt: now })
+        .where(eq(propertyImages.id, imageId));
+
+      return this.syncListing(tx, property, user);
+    });
+  }
+
+  /**
+   * Remove an image and its file in storage. If it was the cover, the next
+   * image takes over.
+   */
+  async remove(propertyId: string, imageId: string, user: User) {
+    const { images, storagePaths } = await db.transaction(async tx => {
+      const property = await this.lockProperty(tx, propertyId);
+      this.assertCanEdit(user, property);
+
+      const remaining = await this.loadImages(tx, property);
+      const image = this.findImage(remaining, imageId);
+
+      await tx.delete(propertyImages).where(eq(propertyImages.id, imageId));
+
+      const now = new Date();
+      const others = remaining.filter(item => item.id !== imageId);
+      for (const [position, item] of others.entries()) {
+        await tx
+          .update(propertyImages)
+          .set({
+            position,
+            ...(image.isCover && position === 0 && { isCover: true }),
+            updatedAt: now,
+          })
+          .where(eq(propertyImages.id, item.id));
+      }
+
+      // The same file may be attached more than once
+      const stillUsed = others.some(
+        item => item.storagePath === image.storagePath
+      );
+
+      return {
+        images: await this.syncListing(tx, property, user),
+        storagePaths:
+          stillUsed || !image.storagePath
+            ? []
+            : await this.ownedPaths(tx, property, [image.storagePath]),
+      };
+    });
+
+    await this.deleteStoredFiles(storagePaths);
+    return images;
+  }
+
+  /**
+   * Make the listing's image records match an ordered list of URLs, as sent
+   * to createProperty and updateProperty. The first URL is the cover.
+   * New images must be files of the properties folder, or stored elsewhere.
+   * Returns the storage paths of dropped images the listing owns, to delete
+   * after commit.
+   */
+  async replaceUrls(
+    tx: Transaction,
+    property: Property,
+    urls: string[],
+    uploadedById: string
+  ): Promise<string[]> {
+    const images = await this.loadImages(tx, property);
+    const wanted = [...new Set(urls)];
+
+    for (const url of wanted) {
+      const storagePath = fileUploadService.getFilePathFromUrl(url);
+      if (
+        storagePath &&
+        !images.some(image => image.url === url) &&
+        !fileUploadService.isInFolder(storagePath, PROPERTIES_FOLDER)
+      ) {
+        throw new Error(
+          `Images must be files uploaded to the ${PROPERTIES_FOLDER} folder`
+        );
+      }
+    }
+
+    const dropped = images.filter(image => !wanted.includes(image.url));
+    if (dropped.length > 0) {
+      await tx.delete(propertyImages).where(
+        inArray(
+          propertyImages.id,
+          dropped.map(image => image.id)
+        )
+      );
+    }
+
+    const now = new Date();
+    const added: string[] = [];
+    for (const [position, url] of wanted.entries()) {
+      const existing = images.find(image => image.url === url);
+      if (existing) {
+        await tx
+          .update(propertyImages)
+          .set({ position, isCover: false, updatedAt: now })
+          .where(eq(propertyImages.id, existing.id));
+      } else {
+        await tx.insert(propertyImages).values({
+          propertyId: property.id,
+          url,
+          storagePath: fileUploadService.getFilePathFromUrl(url),
+          position,
+          uploadedById,
+        });
+        added.push(url);
+      }
+    }
+
+    // Images the listing already had were checked when they were added
+    await uploadsService.attach(
+      tx,
+      added,
+      { type: 'property', id: property.id },
+      uploadedById
+    );
+
+    if (wanted.length > 0) {
+      await tx
+        .update(propertyImages)
+        .set({ isCover: true })
+        .where(
+          and(
+            eq(propertyImages.propertyId, property.id),
+            eq(propertyImages.position, 0)
+          )
+        );
+    }
+
+    return this.ownedPaths(
+      tx,
+      property,
+      dropped
+        .map(image => image.storagePath)
+        .filter((path): path is string => !!path)
+    );
+  }
+
+  /**
+   * Storage paths of the listing's own images, to delete with it
+   */
+  async storagePaths(property: Property): Promise<string[]> {
+    const images = await db
+      .select({ storagePath: propertyImages.storagePath })
+      .from(propertyImages)
+      .where(eq(propertyImages.propertyId, property.id));
+
+    const paths = [
+      ...images.map(image => image.storagePath),
+      ...(property.images || []).map(url =>
+        fileUploadService.getFilePathFromUrl(url)
+      ),
+    ];
+    return this.ownedPaths(
+      db,
+      property,
+      paths.filter((path): path is string => !!path)
+    );
+  }
+}
+
+export default new PropertyMediaService();
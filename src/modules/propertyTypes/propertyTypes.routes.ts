@@ -1,6 +1,6 @@
 import express from 'express';
 import { body } from 'express-validator';
-import { auth, authorize } from '../../middleware/auth';
+import { auth, requirePermission } from '../../middleware/auth';
 import propertyTypesController from './propertyTypes.controller';
 
 const router = express.Router();
@@ -12,7 +12,7 @@ router.get('/:id', propertyTypesController.getPropertyTypeById);
 router.post(
   '/',
   auth,
-  authorize('ADMIN'),
+  requirePermission('propertyType:manage'),
   [
     body('code').notEmpty().withMessage('Code is required'),
     body('name').notEmpty().withMessage('Name is required'),
@@ -20,8 +20,8 @@ router.post(
   propertyTypesController.createPropertyType
 );
 
-router.put('/:id', auth, authorize('ADMIN'), propertyTypesController.updatePropertyType);
+router.put('/:id', auth, requirePermission('propertyType:manage'), propertyTypesController.updatePropertyType);
 
-router.delete('/:id', auth, authorize('ADMIN'), propertyTypesController.deletePropertyType);
+router.delete('/:id', auth, requirePermission('propertyType:manage'), propertyTypesController.deletePropertyType);
 
 export default router;
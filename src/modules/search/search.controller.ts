@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { PropertiesService } from '../properties/properties.service';
+import { parseListingQuery } from '../properties/propertyFilters';
+import searchService, { AutocompleteType } from './search.service';
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+const AUTOCOMPLETE_TYPES: AutocompleteType[] = ['city', 'project'];
+
+// The trimmed query, or null if it is missing or out of bounds
+const parseQuery = (value: unknown, minLength: number): string | null => {
+  const query = typeof value === 'string' ? value.trim() : '';
+  return query.length >= minLength && query.length <= MAX_QUERY_LENGTH
+    ? query
+    : null;
+};
+
+class SearchController {
+  private propertiesService = new PropertiesService();
+
+  constructor() {
+    this.searchProperties = this.searchProperties.bind(this);
+  }
+
+  /**
+   * Ranked full-text search over approved listings, with highlighted
+   * snippets and "did you mean" suggestions when nothing matches
+   */
+  async searchProperties(req: Request, res: Response): Promise<void> {
+    try {
+      const query = parseQuery(req.query.q, MIN_QUERY_LENGTH);
+      if (!query) {
+        res.status(400).json({
+          success: false,
+          error: `Search query must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`,
+        });
+        return;
+      }
+
+      const { filters, errors } = parseListingQuery(req.query);
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid query parameters',
+          details: errors,
+        });
+        return;
+      }
+
+      const page = filters.page || 1;
+      const limit = Math.min(filters.limit || 10, 50);
+
+      // Public search only ever shows approved listings, whoever asks
+      const result = await this.propertiesService.getAllProperties(
+        page,
+        limit,
+        { ...filters, search: query },
+        null
+      );
+
+      const highlights = await searchService.highlight(
+        result.properties.map(item => item.property.id),
+        query
+      );
+
+      const suggestions =
+        result.pagination.total === 0 ? await searchService.suggest(query) : [];
+
+      res.json({
+        success: true,
+        data: {
+          query,
+          properties: result.properties.map(item => ({
+            ...item,
+            highlights: highlights[item.property.id] || null,
+          })),
+          pagination: result.pagination,
+          suggestions,
+        },
+      });
+    } catch (error) {
+      console.error('Search properties error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to search properties',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * City and project name completions for a search box
+   */
+  async autocomplete(req: Request, res: Response): Promise<void> {
+    try {
+      const prefix = parseQuery(req.query.q, 1);
+      if (!prefix) {
+        res.status(400).json({
+          success: false,
+          error: `Query must be between 1 and ${MAX_QUERY_LENGTH} characters`,
+        });
+        return;
+      }
+
+      const type = req.query.type as AutocompleteType | undefined;
+      if (type && !AUTOCOMPLETE_TYPES.includes(type)) {
+        res.status(400).json({
+          success: false,
+          error: `Type must be one of: ${AUTOCOMPLETE_TYPES.join(', ')}`,
+        });
+        return;
+      }
+
+      const suggestions = await searchService.autocomplete(
+        prefix,
+        type ? [type] : AUTOCOMPLETE_TYPES,
+        Math.min(Math.max(Number(req.query.limit) || 10, 1), 20)
+      );
+
+      res.json({
+        success: true,
+        data: suggestions,
+      });
+    } catch (error) {
+      console.error('Autocomplete error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch suggestions',
+        message: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new SearchController();
@@ -0,0 +1,92 @@
+import express from 'express';
+import searchController from './search.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/search/properties:
+ *   get:
+ *     summary: Search approved listings
+ *     description: Full-text search over title, description, address, city, project name and developer, tolerant of typos. Results are ordered by relevance and carry highlighted title and description snippets (matches wrapped in <mark>). When nothing matches, `suggestions` lists similar cities, projects, developers and listing titles.
+ *     tags: [Search]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: condo near klcc
+ *       - in: query
+ *         name: city
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: bedrooms
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: bathrooms
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: furnished
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Search results retrieved successfully
+ *       400:
+ *         description: Missing or too long query
+ */
+router.get('/properties', searchController.searchProperties);
+
+/**
+ * @swagger
+ * /api/v1/search/autocomplete:
+ *   get:
+ *     summary: Autocomplete cities and project names
+ *     description: Values starting with the query, or with a word starting with it, most listed first.
+ *     tags: [Search]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: kua
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [city, project]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Suggestions retrieved successfully
+ */
+router.get('/autocomplete', searchController.autocomplete);
+
+export default router;
@@ -0,0 +1,139 @@
+import { and, eq, sql, SQL } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { properties, propertySearchDocument } from '../../db/schema';
+
+const SUGGESTION_LIMIT = 3;
+
+export type AutocompleteType = 'city' | 'project';
+
+export interface SearchHighlight {
+  title: string;
+  description: string;
+}
+
+// Listing text is user-supplied, so it is escaped before <mark> tags are added
+const escapeHtml = (value: SQL) =>
+  sql`replace(replace(replace(${value}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+
+// Escape LIKE wildcards so user input only matches literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Property search on Postgres full-text search, with pg_trgm similarity for
+ * typos, "did you mean" suggestions and autocomplete
+ */
+class SearchService {
+  private document = propertySearchDocument(properties);
+
+  private tsQuery(query: string): SQL {
+    return sql`websearch_to_tsquery('english', ${query})`;
+  }
+
+  /**
+   * Listings matching the query on any searchable field, or close to it in
+   * the title, city, project or developer
+   */
+  matchCondition(query: string): SQL {
+    return sql`(${this.document} @@ ${this.tsQuery(query)} OR ${query} <% ${properties.title} OR ${query} <% ${properties.city} OR ${query} <% ${properties.projectName} OR ${query} <% ${properties.developer})`;
+  }
+
+  /**
+   * Relevance of a listing to the query: full-text rank plus the best
+   * trigram similarity, so near-misses still rank below exact matches
+   */
+  rank(query: string): SQL<number> {
+    return sql<number>`(ts_rank_cd(${this.document}, ${this.tsQuery(query)}) + greatest(word_similarity(${query}, ${properties.title}), word_similarity(${query}, ${properties.city}), word_similarity(${query}, ${properties.projectName}), word_similarity(${query}, ${properties.developer})))`;
+  }
+
+  /**
+   * Title and description snippets with the matched words wrapped in <mark>
+   */
+  async highlight(
+    propertyIds: string[],
+    query: string
+  ): Promise<Record<string, SearchHighlight>> {
+    if (propertyIds.length === 0) return {};
+
+    const tsQuery = this.tsQuery(query);
+    const rows = await db
+      .select({
+        id: properties.id,
+        title: sql<string>`ts_headline('english', ${escapeHtml(sql`${properties.title}`)}, ${tsQuery}, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')`,
+        description: sql<string>`ts_headline('english', ${escapeHtml(sql`coalesce(${properties.description}, '')`)}, ${tsQuery}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=10, MaxWords=25')`,
+      })
+      .from(properties)
+      .where(sql`${properties.id} IN ${propertyIds}`);
+
+    return rows.reduce(
+      (acc, { id, ...highlight }) => {
+        acc[id] = highlight;
+        return acc;
+      },
+      {} as Record<string, SearchHighlight>
+    );
+  }
+
+  /**
+   * "Did you mean": city, project, developer and listing names that are
+   * similar to a query which found nothing
+   */
+  async suggest(query: string): Promise<string[]> {
+    const approved = eq(properties.status, 'APPROVED');
+    const candidates = (column: SQL) =>
+      sql`SELECT ${column} AS term FROM ${properties} WHERE ${approved} AND ${column} % ${query}`;
+
+    const result = await db.execute<{ term: string }>(sql`
+      SELECT term FROM (
+        ${candidates(sql`${properties.city}`)}
+        UNION ${candidates(sql`${properties.projectName}`)}
+        UNION ${candidates(sql`${properties.developer}`)}
+        UNION ${candidates(sql`${properties.title}`)}
+      ) AS candidates
+      WHERE lower(term) <> lower(${query})
+      ORDER BY similarity(term, ${query}) DESC, term
+      LIMIT ${SUGGESTION_LIMIT}
+    `);
+
+    return Array.from(result, row => row.term);
+  }
+
+  /**
+   * Cities and project names starting with the prefix, or with a word
+   * starting with it, most listed first
+   */
+  async autocomplete(prefix: string, types: AutocompleteType[], limit: number) {
+    const pattern = escapeLike(prefix);
+    const column = (type: AutocompleteType) =>
+      type === 'city' ? properties.city : properties.projectName;
+
+    const results = await Promise.all(
+      types.map(async type => {
+        const value = column(type);
+        const rows = await db
+          .select({
+            value: sql<string>`${value}`,
+            count: sql<number>`count(*)`.mapWith(Number),
+          })
+          .from(properties)
+          .where(
+            and(
+              eq(properties.status, 'APPROVED'),
+              sql`(${value} ILIKE ${`${pattern}%`} OR ${value} ILIKE ${`% ${pattern}%`})`
+            )
+          )
+          .groupBy(value)
+          .orderBy(sql`count(*) DESC`, value)
+          .limit(limit);
+
+        return rows.map(row => ({ ...row, type }));
+      })
+    );
+
+    return results
+      .flat()
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+  }
+}
+
+export default new SearchService();
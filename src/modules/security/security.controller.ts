@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { PaginatedResponse } from '../../types';
+import loginProtectionService from '../../services/loginProtection.service';
+import securityEventsService from '../../services/securityEvents.service';
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+class SecurityController {
+  /**
+   * Query security events such as lockouts and unlocks (Admin only)
+   */
+  async getEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const { type, userId, email, ipAddress, from, to, page, limit } =
+        req.query;
+
+      const { events, pagination } = await securityEventsService.list({
+        type: type as string | undefined,
+        userId: userId as string | undefined,
+        email: email as string | undefined,
+        ipAddress: ipAddress as string | undefined,
+        from: parseDate(from),
+        to: parseDate(to),
+        page: Math.max(Number(page) || 1, 1),
+        limit: Math.min(Math.max(Number(limit) || 20, 1), 100),
+      });
+
+      const response: PaginatedResponse = {
+        success: true,
+        data: events,
+        pagination,
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get security events error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch security events',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Clear a user's login lockout (Admin only)
+   */
+  async unlockUser(req: Request, res: Response): Promise<void> {
+    try {
+      await loginProtectionService.unlockAccount(req.params.id, req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'Account unlocked successfully',
+      });
+    } catch (error) {
+      if ((error as Error).message === 'User not found') {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      console.error('Unlock user error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to unlock account',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Clear an IP address block (Admin only)
+   */
+  async unlockIp(req: Request, res: Response): Promise<void> {
+    try {
+      const { ipAddress } = req.body;
+
+      if (!ipAddress) {
+        res.status(400).json({
+          success: false,
+          error: 'IP address is required',
+        });
+        return;
+      }
+
+      await loginProtectionService.unlockIp(ipAddress, req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'IP address unblocked successfully',
+      });
+    } catch (error) {
+      console.error('Unlock IP error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to unblock IP address',
+        message: (error as Error).message,
+      });
+    }
+  }
+}
+
+export default new SecurityController();
@@ -0,0 +1,126 @@
+import express from 'express';
+import { body } from 'express-validator';
+import { auth, requirePermission } from '../../middleware/auth';
+import securityController from './security.controller';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/security/events:
+ *   get:
+ *     summary: Query security events (Admin only)
+ *     description: Account lockouts, IP blocks, unlocks and admin actions on users, newest first.
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [ACCOUNT_LOCKED, IP_BLOCKED, ACCOUNT_UNLOCKED, IP_UNLOCKED, USER_SUSPENDED, USER_REACTIVATED, USER_ROLE_CHANGED, USER_DELETED]
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ipAddress
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Security events retrieved successfully
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get(
+  '/events',
+  auth,
+  requirePermission('security:manage'),
+  securityController.getEvents
+);
+
+/**
+ * @swagger
+ * /api/v1/security/users/{id}/unlock:
+ *   post:
+ *     summary: Unlock a user locked out after failed logins (Admin only)
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       404:
+ *         description: User not found
+ */
+router.post(
+  '/users/:id/unlock',
+  auth,
+  requirePermission('security:manage'),
+  securityController.unlockUser
+);
+
+/**
+ * @swagger
+ * /api/v1/security/ips/unlock:
+ *   post:
+ *     summary: Unblock an IP address blocked after failed logins (Admin only)
+ *     tags: [Security]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ipAddress
+ *             properties:
+ *               ipAddress:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: IP address unblocked
+ */
+router.post(
+  '/ips/unlock',
+  auth,
+  requirePermission('security:manage'),
+  [body('ipAddress').isIP().withMessage('Valid IP address is required')],
+  securityController.unlockIp
+);
+
+export default router;
@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { ApiResponse } from '../../types';
+import tokenService from '../../services/token.service';
+import { toPublicUser } from '../../utils/publicUser';
+import { getSessionContext } from '../../utils/sessionContext';
+import twoFactorService from '../twoFactor/twoFactor.service';
+import socialAuthService from './socialAuth.service';
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Map service errors to HTTP status codes
+ */
+const sendSocialAuthError = (
+  res: Response,
+  error: unknown,
+  fallback: string
+) => {
+  const message = (error as Error).message;
+
+  let status = 500;
+  if (message.startsWith('Unsupported provider')) status = 404;
+  else if (message.startsWith('Invalid ')) status = 401;
+  else if (message.includes('not configured')) status = 503;
+  else if (message.startsWith('Account is suspended')) status = 403;
+  else if (
+    message.startsWith('Email already registered') ||
+    message.includes('already linked')
+  )
+    status = 409;
+  else if (
+    message.includes('is required') ||
+    message.includes('are required') ||
+    message.startsWith('Cannot unlink') ||
+    message.startsWith('No ')
+  )
+    status = 400;
+
+  if (status === 500) {
+    console.error(`${fallback}:`, error);
+  }
+
+  res.status(status).json({
+    success: false,
+    error: status === 500 ? fallback : message,
+    ...(status === 500 && { message }),
+  });
+};
+
+class SocialAuthController {
+  /**
+   * Sign in or sign up with a social identity provider
+   */
+  async authenticate(req: Request, res: Response): Promise<void> {
+    try {
+      const { provider } = req.params;
+      const { user, created } = await socialAuthService.authenticate(
+        provider,
+        req.body
+      );
+
+      // Social sign-in is only the first factor when 2FA is enabled
+      const challenge = await twoFactorService.createLoginChallenge(user, {
+        deviceId: getSessionContext(req).deviceId,
+      });
+
+      if (challenge) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication required',
+          data: challenge,
+        });
+        return;
+      }
+
+      const tokens = await tokenService.issueTokens(
+        user,
+        getSessionContext(req)
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        message: `${capitalize(provider)} authentication successful`,
+        data: {
+          user: toPublicUser(user),
+          isNewUser: created,
+          ...tokens,
+        },
+      };
+
+      res.status(created ? 201 : 200).json(response);
+    } catch (error) {
+      sendSocialAuthError(res, error, 'Failed to authenticate');
+    }
+  }
+
+  /**
+   * Link a social identity to the logged-in user
+   */
+  async link(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await socialAuthService.link(
+        req.user!,
+        req.params.provider,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        message: `${capitalize(req.params.provider)} account linked successfully`,
+        data: toPublicUser(user),
+      });
+    } catch (error) {
+      sendSocialAuthError(res, error, 'Failed to link account');
+    }
+  }
+
+  /**
+   * Unlink a social identity from the logged-in user
+   */
+  async unlink(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await socialAuthService.unlink(
+        req.user!,
+        req.params.provider
+      );
+
+      res.json({
+        success: true,
+        message: `${capitalize(req.params.provider)} account unlinked successfully`,
+        data: toPublicUser(user),
+      });
+    } catch (error) {
+      sendSocialAuthError(res, error, 'Failed to unlink account');
+    }
+  }
+}
+
+export default new SocialAuthController();
@@ -0,0 +1,337 @@
+import googleIdTokenVerifier from '../../services/googleIdToken.service';
+import {
+  JwksKeySource,
+  RemoteJwksKeySource,
+  verifyIdToken,
+} from '../../utils/jwks';
+
+export type SocialIdColumn =
+  | 'googleId'
+  | 'facebookId'
+  | 'appleId'
+  | 'githubId'
+  | 'twitterId';
+
+/**
+ * Identity asserted by a provider after its token or code has been verified
+ */
+export interface SocialIdentity {
+  providerUserId: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  name?: string;
+  profilePicture?: string;
+}
+
+/**
+ * Credentials sent by the client. Which fields are used depends on the provider.
+ */
+export interface SocialAuthPayload {
+  idToken?: string;
+  accessToken?: string;
+  code?: string;
+  codeVerifier?: string;
+  redirectUri?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface SocialIdentityProvider {
+  name: string;
+  column: SocialIdColumn;
+  verify(payload: SocialAuthPayload): Promise<SocialIdentity>;
+}
+
+const splitList = (value: string | undefined) =>
+  (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+async function fetchJson<T>(
+  url: string,
+  init: RequestInit,
+  label: string
+): Promise<T> {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    throw new Error(`Invalid ${label} credentials: ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+export class GoogleIdentityProvider implements SocialIdentityProvider {
+  name = 'google';
+  column: SocialIdColumn = 'googleId';
+
+  async verify(payload: SocialAuthPayload): Promise<SocialIdentity> {
+    if (!payload.idToken) {
+      throw new Error('Google ID token is required');
+    }
+
+    const claims = await googleIdTokenVerifier.verify(payload.idToken);
+
+    return {
+      providerUserId: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified,
+      firstName: claims.given_name,
+      lastName: claims.family_name,
+      name: claims.name,
+      profilePicture: claims.picture,
+    };
+  }
+}
+
+export class AppleIdentityProvider implements SocialIdentityProvider {
+  name = 'apple';
+  column: SocialIdColumn = 'appleId';
+
+  constructor(
+    private audiences = splitList(process.env.APPLE_CLIENT_IDS),
+    private keySource: JwksKeySource = new RemoteJwksKeySource(
+      'https://appleid.apple.com/auth/keys'
+    )
+  ) {}
+
+  async verify(payload: SocialAuthPayload): Promise<SocialIdentity> {
+    if (this.audiences.length === 0) {
+      throw new Error('Apple sign-in is not configured');
+    }
+
+    if (!payload.idToken) {
+      throw new Error('Apple ID token is required');
+    }
+
+    const claims = await verifyIdToken(payload.idToken, this.keySource, {
+      audiences: this.audiences,
+      issuers: ['https://appleid.apple.com'],
+      label: 'Apple',
+    });
+
+    if (!claims.sub) {
+      throw new Error('Invalid Apple ID token: missing subject');
+    }
+
+    // Apple only shares the user's name with the client, on first sign-in
+    return {
+      providerUserId: claims.sub,
+      email: claims.email ? String(claims.email) : null,
+      emailVerified:
+        claims.email_verified === true || claims.email_verified === 'true',
+      firstName: payload.firstName,
+      lastName: payload.lastName,
+    };
+  }
+}
+
+export class FacebookIdentityProvider implements SocialIdentityProvider {
+  name = 'facebook';
+  column: SocialIdColumn = 'facebookId';
+
+  constructor(
+    private appId = process.env.FACEBOOK_APP_ID,
+    private appSecret = process.env.FACEBOOK_APP_SECRET,
+    private graphUrl = `https://graph.facebook.com/${process.env.FACEBOOK_GRAPH_VERSION || 'v19.0'}`
+  ) {}
+
+  async verify(payload: SocialAuthPayload): Promise<SocialIdentity> {
+    if (!this.appId || !this.appSecret) {
+      throw new Error('Facebook sign-in is not configured');
+    }
+
+    if (!payload.accessToken) {
+      throw new Error('Facebook access token is required');
+    }
+
+    // Make sure the token was issued to our app before trusting /me
+    const debug = await fetchJson<{
+      data?: { is_valid?: boolean; app_id?: string; user_id?: string };
+    }>(
+      `${this.graphUrl}/debug_token?input_token=${encodeURIComponent(payload.accessToken)}&access_token=${this.appId}|${this.appSecret}`,
+      {},
+      'Facebook'
+    );
+
+    if (!debug.data?.is_valid || debug.data.app_id !== this.appId) {
+      throw new Error(
+        'Invalid Facebook credentials: token not issued for this app'
+      );
+    }
+
+    const profile = await fetchJson<{
+      id: string;
+      email?: string;
+      name?: string;
+      first_name?: string;
+      last_name?: string;
+      picture?: { data?: { url?: string } };
+    }>(
+      `${this.graphUrl}/me?fields=id,email,name,first_name,last_name,picture&access_token=${encodeURIComponent(payload.accessToken)}`,
+      {},
+      'Facebook'
+    );
+
+    if (profile.id !== debug.data.user_id) {
+      throw new Error('Invalid Facebook credentials: user mismatch');
+    }
+
+    return {
+      providerUserId: profile.id,
+      email: profile.email || null,
+      // Facebook only returns emails that the user has confirmed
+      emailVerified: !!profile.email,
+      firstName: profile.first_name,
+      lastName: profile.last_name,
+      name: profile.name,
+      profilePicture: profile.picture?.data?.url,
+    };
+  }
+}
+
+export class GitHubIdentityProvider implements SocialIdentityProvider {
+  name = 'github';
+  column: SocialIdColumn = 'githubId';
+
+  constructor(
+    private clientId = process.env.GITHUB_CLIENT_ID,
+    private clientSecret = process.env.GITHUB_CLIENT_SECRET
+  ) {}
+
+  async verify(payload: SocialAuthPayload): Promise<SocialIdentity> {
+    if (!this.clientId || !this.clientSecret) {
+      throw new Error('GitHub sign-in is not configured');
+    }
+
+    if (!payload.code) {
+      throw new Error('GitHub authorization code is required');
+    }
+
+    const tokenResponse = await fetchJson<{
+      access_token?: string;
+      error?: string;
+    }>(
+      'https://github.com/login/oauth/access_token',
+      {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+          code: payload.code,
+          redirect_uri: payload.redirectUri,
+        }),
+      },
+      'GitHub'
+    );
+
+    if (!tokenResponse.access_token) {
+      throw new Error(
+        `Invalid GitHub credentials: ${tokenResponse.error || 'no access token'}`
+      );
+    }
+
+    const headers = {
+      Authorization: `Bearer ${tokenResponse.access_token}`,
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'rentverse-backend',
+    };
+
+    const profile = await fetchJson<{
+      id: number;
+      login: string;
+      name?: string;
+      avatar_url?: string;
+    }>('https://api.github.com/user', { headers }, 'GitHub');
+
+    const emails = await fetchJson<
+      { email: string; primary: boolean; verified: boolean }[]
+    >('https://api.github.com/user/emails', { headers }, 'GitHub');
+
+    const primary =
+      emails.find(item => item.primary && item.verified) ||
+      emails.find(item => item.verified);
+
+    return {
+      providerUserId: String(profile.id),
+      email: primary?.email || null,
+      emailVerified: !!primary,
+      name: profile.name || profile.login,
+      profilePicture: profile.avatar_url,
+    };
+  }
+}
+
+export class TwitterIdentityProvider implements SocialIdentityProvider {
+  name = 'twitter';
+  column: SocialIdColumn = 'twitterId';
+
+  constructor(
+    private clientId = process.env.TWITTER_CLIENT_ID,
+    private clientSecret = process.env.TWITTER_CLIENT_SECRET
+  ) {}
+
+  async verify(payload: SocialAuthPayload): Promise<SocialIdentity> {
+    if (!this.clientId) {
+      throw new Error('Twitter sign-in is not configured');
+    }
+
+    if (!payload.code || !payload.codeVerifier || !payload.redirectUri) {
+      throw new Error(
+        'Twitter authorization code, code verifier and redirect URI are required'
+      );
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+    if (this.clientSecret) {
+      headers.Authorization = `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`;
+    }
+
+    // OAuth 2.0 authorization code flow with PKCE
+    const tokenResponse = await fetchJson<{ access_token?: string }>(
+      'https://api.twitter.com/2/oauth2/token',
+      {
+        method: 'POST',
+        headers,
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          client_id: this.clientId,
+          code: payload.code,
+          code_verifier: payload.codeVerifier,
+          redirect_uri: payload.redirectUri,
+        }).toString(),
+      },
+      'Twitter'
+    );
+
+    if (!tokenResponse.access_token) {
+      throw new Error('Invalid Twitter credentials: no access token');
+    }
+
+    const profile = await fetchJson<{
+      data: { id: string; name?: string; profile_image_url?: string };
+    }>(
+      'https://api.twitter.com/2/users/me?user.fields=profile_image_url',
+      { headers: { Authorization: `Bearer ${tokenResponse.access_token}` } },
+      'Twitter'
+    );
+
+    // Twitter does not expose the account email through this API
+    return {
+      providerUserId: profile.data.id,
+      email: null,
+      emailVerified: false,
+      name: profile.data.name,
+      profilePicture: profile.data.profile_image_url,
+    };
+  }
+}
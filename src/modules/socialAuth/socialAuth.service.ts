@@ -0,0 +1,227 @@
+import { randomUUID } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { users } from '../../db/schema';
+import { NewUser, User } from '../../types';
+import {
+  AppleIdentityProvider,
+  FacebookIdentityProvider,
+  GitHubIdentityProvider,
+  GoogleIdentityProvider,
+  SocialAuthPayload,
+  SocialIdColumn,
+  SocialIdentity,
+  SocialIdentityProvider,
+  TwitterIdentityProvider,
+} from './socialAuth.providers';
+
+const SOCIAL_ID_COLUMNS: SocialIdColumn[] = [
+  'googleId',
+  'facebookId',
+  'appleId',
+  'githubId',
+  'twitterId',
+];
+
+export class SocialAuthService {
+  private providers = new Map<string, SocialIdentityProvider>();
+
+  constructor(providers: SocialIdentityProvider[] = []) {
+    providers.forEach(provider => this.registerProvider(provider));
+  }
+
+  /**
+   * Register or replace a provider (tests swap in local fakes this way)
+   */
+  registerProvider(provider: SocialIdentityProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProvider(name: string): SocialIdentityProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unsupported provider: ${name}`);
+    }
+    return provider;
+  }
+
+  listProviders(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  private async findUserBy(
+    column: SocialIdColumn | 'email',
+    value: string
+  ): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users[column], value))
+      .limit(1);
+    return user;
+  }
+
+  /**
+   * Sign in with a provider, creating the account or linking it by verified email
+   */
+  async authenticate(
+    providerName: string,
+    payload: SocialAuthPayload
+  ): Promise<{ user: User; created: boolean }> {
+    const provider = this.getProvider(providerName);
+    const identity = await provider.verify(payload);
+
+    const linkedUser = await this.findUserBy(
+      provider.column,
+      identity.providerUserId
+    );
+    if (linkedUser) {
+      this.assertActive(linkedUser);
+      return { user: linkedUser, created: false };
+    }
+
+    if (!identity.email) {
+      throw new Error(
+        `Email is required: sign in with another method and link your ${provider.name} account`
+      );
+    }
+
+    const emailUser = await this.findUserBy('email', identity.email);
+    if (emailUser) {
+      // Only a provider-verified email proves ownership of the existing account
+      if (!identity.emailVerified) {
+        throw new Error(
+          `Email already registered: sign in with your password and link your ${provider.name} account`
+        );
+      }
+
+      this.assertActive(emailUser);
+      const user = await this.attachIdentity(emailUser, provider, identity);
+      return { user, created: false };
+    }
+
+    const now = new Date();
+    const firstName = identity.firstName || '';
+    const lastName = identity.lastName || '';
+    const newUserData: NewUser = {
+      id: randomUUID(),
+      email: identity.email,
+      password: '', // No password for social login users
+      firstName,
+      lastName,
+      name:
+        identity.name || `${firstName} ${lastName}`.trim() || identity.email,
+      profilePicture: identity.profilePicture,
+      [provider.column]: identity.providerUserId,
+      role: 'USER',
+      isActive: true,
+      verifiedAt: identity.emailVerified ? now : null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const [user] = await db.insert(users).values(newUserData).returning();
+    return { user, created: true };
+  }
+
+  /**
+   * Link a provider identity to an already authenticated user
+   */
+  async link(
+    user: User,
+    providerName: string,
+    payload: SocialAuthPayload
+  ): Promise<User> {
+    const provider = this.getProvider(providerName);
+    const identity = await provider.verify(payload);
+
+    const linkedUser = await this.findUserBy(
+      provider.column,
+      identity.providerUserId
+    );
+    if (linkedUser && linkedUser.id !== user.id) {
+      throw new Error(
+        `This ${provider.name} account is already linked to another user`
+      );
+    }
+
+    if (
+      user[provider.column] &&
+      user[provider.column] !== identity.providerUserId
+    ) {
+      throw new Error(
+        `A different ${provider.name} account is already linked to this user`
+      );
+    }
+
+    return this.attachIdentity(user, provider, identity);
+  }
+
+  /**
+   * Unlink a provider, refusing if it is the user's only way to sign in
+   */
+  async unlink(user: User, providerName: string): Promise<User> {
+    const provider = this.getProvider(providerName);
+
+    if (!user[provider.column]) {
+      throw new Error(`No ${provider.name} account is linked to this user`);
+    }
+
+    const otherLogins = SOCIAL_ID_COLUMNS.filter(
+      column => column !== provider.column && !!user[column]
+    );
+    if (!user.password && otherLogins.length === 0) {
+      throw new Error(
+        `Cannot unlink ${provider.name}: set a password or link another provider first`
+      );
+    }
+
+    const [updated] = await db
+      .update(users)
+      .set({ [provider.column]: null, updatedAt: new Date() })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    return updated;
+  }
+
+  private assertActive(user: User): void {
+    if (!user.isActive) {
+      throw new Error('Account is suspended. Please contact support.');
+    }
+  }
+
+  private async attachIdentity(
+    user: User,
+    provider: SocialIdentityProvider,
+    identity: SocialIdentity
+  ): Promise<User> {
+    const now = new Date();
+    // A provider-verified copy of the account email also verifies the account
+    const verifiesEmail =
+      !user.verifiedAt &&
+      identity.emailVerified &&
+      identity.email?.toLowerCase() === user.email.toLowerCase();
+
+    const [updated] = await db
+      .update(users)
+      .set({
+        [provider.column]: identity.providerUserId,
+        profilePicture: user.profilePicture || identity.profilePicture,
+        ...(verifiesEmail && { verifiedAt: now }),
+        updatedAt: now,
+      })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    return updated;
+  }
+}
+
+export default new SocialAuthService([
+  new GoogleIdentityProvider(),
+  new AppleIdentityProvider(),
+  new FacebookIdentityProvider(),
+  new GitHubIdentityProvider(),
+  new TwitterIdentityProvider(),
+]);
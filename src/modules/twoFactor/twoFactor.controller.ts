@@ -0,0 +1,258 @@
+import { Request, Response } from 'express';
+import { ApiResponse } from '../../types';
+import tokenService from '../../services/token.service';
+import securityPolicyService from '../../services/securityPolicy.service';
+import { toPublicUser } from '../../utils/publicUser';
+import { getSessionContext } from '../../utils/sessionContext';
+import twoFactorService from './twoFactor.service';
+
+/**
+ * Map service errors to HTTP status codes
+ */
+const sendTwoFactorError = (
+  res: Response,
+  error: unknown,
+  fallback: string
+) => {
+  const message = (error as Error).message;
+
+  let status = 500;
+  if (message === 'Invalid or expired two-factor challenge') status = 401;
+  else if (
+    message.startsWith('Account temporarily locked') ||
+    message.startsWith('Too many failed')
+  )
+    status = 429;
+  else if (message.startsWith('Invalid ')) status = 400;
+  else if (message.includes('cannot be disabled')) status = 403;
+  else if (message === 'User not found') status = 404;
+  else if (
+    message.includes('already enabled') ||
+    message.includes('not enabled') ||
+    message.includes('not been started')
+  )
+    status = 409;
+  else if (message.includes('is required')) status = 400;
+
+  if (status === 500) {
+    console.error(`${fallback}:`, error);
+  }
+
+  res.status(status).json({
+    success: false,
+    error: status === 500 ? fallback : message,
+    ...(status === 500 && { message }),
+  });
+};
+
+class TwoFactorController {
+  /**
+   * Get 2FA status of the logged-in user
+   */
+  async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const status = await twoFactorService.getStatus(req.user!.id);
+
+      res.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to get two-factor status');
+    }
+  }
+
+  /**
+   * Start enrollment and return the secret and otpauth URI for the authenticator app
+   */
+  async enroll(req: Request, res: Response): Promise<void> {
+    try {
+      const enrollment = await twoFactorService.beginEnrollment(req.user!.id);
+
+      res.json({
+        success: true,
+        message:
+          'Scan the otpauth URI with your authenticator app, then confirm with a code',
+        data: enrollment,
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to start two-factor enrollment');
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code and receive recovery codes
+   */
+  async confirm(req: Request, res: Response): Promise<void> {
+    try {
+      const { code } = req.body;
+
+      if (!code) {
+        res.status(400).json({
+          success: false,
+          error: 'Two-factor code is required',
+        });
+        return;
+      }
+
+      const recoveryCodes = await twoFactorService.confirmEnrollment(
+        req.user!.id,
+        code
+      );
+
+      res.json({
+        success: true,
+        message:
+          'Two-factor authentication enabled. Store the recovery codes somewhere safe.',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to confirm two-factor enrollment');
+    }
+  }
+
+  /**
+   * Replace the recovery codes
+   */
+  async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+        req.user!.id,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        message: 'Recovery codes regenerated',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to regenerate recovery codes');
+    }
+  }
+
+  /**
+   * Turn 2FA off
+   */
+  async disable(req: Request, res: Response): Promise<void> {
+    try {
+      await twoFactorService.disable(req.user!.id, req.body);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error) {
+      sendTwoFactorError(
+        res,
+        error,
+        'Failed to disable two-factor authentication'
+      );
+    }
+  }
+
+  /**
+   * Second login step: exchange the challenge and a code for tokens
+   */
+  async verifyLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const { challengeToken, code, recoveryCode } = req.body;
+
+      if (!challengeToken) {
+        res.status(400).json({
+          success: false,
+          error: 'Challenge token is required',
+        });
+        return;
+      }
+
+      const { user, deviceId } = await twoFactorService.completeLoginChallenge(
+        challengeToken,
+        { code, recoveryCode },
+        { ipAddress: req.ip, userAgent: req.header('User-Agent') }
+      );
+
+      // The device may only have been identified in the first login step
+      const context = getSessionContext(req);
+      const tokens = await tokenService.issueTokens(user, {
+        ...context,
+        deviceId: context.deviceId || deviceId,
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Login successful',
+        data: {
+          user: toPublicUser(user),
+          ...tokens,
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to verify two-factor code');
+    }
+  }
+
+  /**
+   * Get the roles that must use 2FA (Admin only)
+   */
+  async getPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const requiredRoles =
+        await securityPolicyService.getTwoFactorRequiredRoles();
+
+      res.json({
+        success: true,
+        data: { requiredRoles },
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to get two-factor policy');
+    }
+  }
+
+  /**
+   * Set the roles that must use 2FA (Admin only)
+   */
+  async updatePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { requiredRoles } = req.body;
+
+      if (!Array.isArray(requiredRoles)) {
+        res.status(400).json({
+          success: false,
+          error: 'requiredRoles must be an array of roles',
+        });
+        return;
+      }
+
+      // Otherwise the admin would lock themselves out of this endpoint
+      if (
+        requiredRoles.includes(req.user!.role) &&
+        !req.user!.twoFactorEnabledAt
+      ) {
+        res.status(409).json({
+          success: false,
+          error:
+            'Enable two-factor authentication on your own account before requiring it for your role',
+        });
+        return;
+      }
+
+      const roles = await securityPolicyService.setTwoFactorRequiredRoles(
+        requiredRoles,
+        req.user!.id
+      );
+
+      res.json({
+        success: true,
+        message: 'Two-factor policy updated',
+        data: { requiredRoles: roles },
+      });
+    } catch (error) {
+      sendTwoFactorError(res, error, 'Failed to update two-factor policy');
+    }
+  }
+}
+
+export default new TwoFactorController();
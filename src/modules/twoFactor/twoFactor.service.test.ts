@@ -0,0 +1,143 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import jwt from 'jsonwebtoken';
+import type { TestDatabase } from '../../test/testDatabase';
+import type { User } from '../../types';
+import { currentTimeStep, generateTotp } from '../../utils/totp';
+
+vi.mock('../../config/database', async () => {
+  const { createTestDatabase } = await import('../../test/testDatabase');
+  return createTestDatabase();
+});
+
+describe('TwoFactorService', () => {
+  let database: TestDatabase;
+  let twoFactorService: typeof import('./twoFactor.service').default;
+
+  const createUser = async (email: string) => {
+    const { db, schema } = database;
+    const [user] = await db
+      .insert(schema.users)
+      .values({ email, name: email, password: 'x' })
+      .returning();
+    return user;
+  };
+
+  const reload = async (user: User) => {
+    const { db, schema } = database;
+    const [fresh] = await db
+      .select()
+      .from(schema.users)
+      .where(eq(schema.users.id, user.id));
+    return fresh;
+  };
+
+  // An enrolled user, their secret, recovery codes and the step confirmed with
+  const enroll = async (email: string) => {
+    const user = await createUser(email);
+    const { secret } = await twoFactorService.beginEnrollment(user.id);
+    const step = currentTimeStep();
+    const recoveryCodes = await twoFactorService.confirmEnrollment(
+      user.id,
+      generateTotp(secret, step)
+    );
+    return { user: await reload(user), secret, recoveryCodes, step };
+  };
+
+  const challengeFor = async (user: User) =>
+    (await twoFactorService.createLoginChallenge(user))!.challengeToken;
+
+  beforeAll(async () => {
+    database = (await import(
+      '../../config/database'
+    )) as unknown as TestDatabase;
+    const mail = await import('../../services/mail.service');
+    mail.default.setTransport(new mail.MemoryMailTransport());
+    twoFactorService = (await import('./twoFactor.service')).default;
+  });
+
+  it('asks for no second factor until enrollment is confirmed', async () => {
+    const user = await createUser('no-2fa@example.com');
+    await twoFactorService.beginEnrollment(user.id);
+
+    expect(
+      await twoFactorService.createLoginChallenge(await reload(user))
+    ).toBeNull();
+    await expect(
+      twoFactorService.confirmEnrollment(user.id, '000000')
+    ).rejects.toThrow('Invalid two-factor code');
+  });
+
+  it('completes the login challenge with a code only once', async () => {
+    const { user, secret, step } = await enroll('totp@example.com');
+    const code = generateTotp(secret, step + 1);
+
+    const completed = await twoFactorService.completeLoginChallenge(
+      await challengeFor(user),
+      { code }
+    );
+    expect(completed.user.id).toBe(user.id);
+
+    await expect(
+      twoFactorService.completeLoginChallenge(await challengeFor(user), {
+        code,
+      })
+    ).rejects.toThrow('Invalid two-factor code');
+    // Nor an earlier step, such as the one enrollment was confirmed with
+    await expect(
+      twoFactorService.completeLoginChallenge(await challengeFor(user), {
+        code: generateTotp(secret, step),
+      })
+    ).rejects.toThrow('Invalid two-factor code');
+  });
+
+  it('accepts each recovery code once', async () => {
+    const { user, recoveryCodes } = await enroll('recovery@example.com');
+
+    expect(recoveryCodes).toHaveLength(10);
+    await twoFactorService.completeLoginChallenge(await challengeFor(user), {
+      recoveryCode: recoveryCodes[0].toUpperCase(),
+    });
+    await expect(
+      twoFactorService.completeLoginChallenge(await challengeFor(user), {
+        recoveryCode: recoveryCodes[0],
+      })
+    ).rejects.toThrow('Invalid recovery code');
+    expect(
+      (await twoFactorService.getStatus(user.id)).recoveryCodesRemaining
+    ).toBe(9);
+  });
+
+  it('refuses tokens that are not a two-factor challenge', async () => {
+    const { user, secret, step } = await enroll('forged@example.com');
+    const other = jwt.sign(
+      { userId: user.id, purpose: 'account_unlock' },
+      process.env.JWT_SECRET!
+    );
+
+    for (const token of [other, 'not-a-token']) {
+      await expect(
+        twoFactorService.completeLoginChallenge(token, {
+          code: generateTotp(secret, step + 1),
+        })
+      ).rejects.toThrow('Invalid or expired two-factor challenge');
+    }
+  });
+
+  it('counts wrong codes towards the login lockout', async () => {
+    const { user } = await enroll('guessing@example.com');
+    const { db, schema } = database;
+
+    await expect(
+      twoFactorService.completeLoginChallenge(await challengeFor(user), {
+        code: '000000',
+      })
+    ).rejects.toThrow('Invalid two-factor code');
+
+    const [throttle] = await db
+      .select()
+      .from(schema.loginThrottles)
+      .where(eq(schema.loginThrottles.key, 'account:guessing@example.com'));
+    expect(throttle.failureCount).toBe(1);
+  });
+});
@@ -0,0 +1,352 @@
+import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import { and, count, eq, isNull, lt, or } from 'drizzle-orm';
+import { db } from '../../config/database';
+import { twoFactorRecoveryCodes, users } from '../../db/schema';
+import { User } from '../../types';
+import securityPolicyService from '../../services/securityPolicy.service';
+import loginProtectionService, {
+  LoginAttemptContext,
+} from '../../services/loginProtection.service';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from '../../utils/totp';
+
+const CHALLENGE_PURPOSE = 'two_factor_login';
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Second factor presented by the user: an authenticator code or a recovery code
+ */
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface LoginChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: string;
+}
+
+interface ChallengeTokenPayload {
+  userId: string;
+  deviceId?: string | null;
+  purpose: string;
+}
+
+export class TwoFactorService {
+  private issuer = process.env.TWO_FACTOR_ISSUER || 'Rentverse';
+  private challengeExpiresIn =
+    process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m';
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private async loadUser(userId: string): Promise<User> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  async getStatus(userId: string) {
+    const user = await this.loadUser(userId);
+
+    const [remaining] = await db
+      .select({ count: count() })
+      .from(twoFactorRecoveryCodes)
+      .where(
+        and(
+          eq(twoFactorRecoveryCodes.userId, userId),
+          isNull(twoFactorRecoveryCodes.usedAt)
+        )
+      );
+
+    return {
+      enabled: !!user.twoFactorEnabledAt,
+      enabledAt: user.twoFactorEnabledAt,
+      required: await securityPolicyService.isTwoFactorRequired(user.role),
+      recoveryCodesRemaining: user.twoFactorEnabledAt ? remaining.count : 0,
+    };
+  }
+
+  /**
+   * Start enrollment with a fresh secret. 2FA stays off until the user confirms a code.
+   */
+  async beginEnrollment(
+    userId: string
+  ): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await this.loadUser(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    await db
+      .update(users)
+      .set({
+        twoFactorSecret: secret,
+        twoFactorLastUsedStep: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, user.id));
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, this.issuer),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the recovery codes, which are only shown this once.
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.loadUser(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new Error('Two-factor enrollment has not been started');
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const now = new Date();
+    await db
+      .update(users)
+      .set({
+        twoFactorEnabledAt: now,
+        twoFactorLastUsedStep: step,
+        updatedAt: now,
+      })
+      .where(eq(users.id, user.id));
+
+    return this.replaceRecoveryCodes(user.id);
+  }
+
+  /**
+   * Issue a new set of recovery codes, invalidating the old ones
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    factor: SecondFactor
+  ): Promise<string[]> {
+    const user = await this.loadUser(userId);
+
+    if (!user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    await this.verifySecondFactor(user, factor);
+    return this.replaceRecoveryCodes(user.id);
+  }
+
+  async disable(userId: string, factor: SecondFactor): Promise<void> {
+    const user = await this.loadUser(userId);
+
+    if (!user.twoFactorEnabledAt) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (await securityPolicyService.isTwoFactorRequired(user.role)) {
+      throw new Error(
+        'Two-factor authentication is required for your role and cannot be disabled'
+      );
+    }
+
+    await this.verifySecondFactor(user, factor);
+
+    await db
+      .update(users)
+      .set({
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, user.id));
+
+    await db
+      .delete(twoFactorRecoveryCodes)
+      .where(eq(twoFactorRecoveryCodes.userId, user.id));
+  }
+
+  /**
+   * After the first factor succeeded: returns a short-lived challenge if the
+   * user has 2FA enabled, or null if tokens can be issued right away
+   */
+  async createLoginChallenge(
+    user: User,
+    options: { deviceId?: string | null } = {}
+  ): Promise<LoginChallenge | null> {
+    if (!user.twoFactorEnabledAt) {
+      return null;
+    }
+
+    const payload: ChallengeTokenPayload = {
+      userId: user.id,
+      deviceId: options.deviceId || null,
+      purpose: CHALLENGE_PURPOSE,
+    };
+
+    const challengeToken = jwt.sign(payload, process.env.JWT_SECRET!, {
+      expiresIn: this.challengeExpiresIn,
+    } as jwt.SignOptions);
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresIn: this.challengeExpiresIn,
+    };
+  }
+
+  /**
+   * Second login step: check the challenge and the second factor
+   */
+  async completeLoginChallenge(
+    challengeToken: string,
+    factor: SecondFactor,
+    attempt: LoginAttemptContext = {}
+  ): Promise<{ user: User; deviceId: string | null }> {
+    let payload: ChallengeTokenPayload;
+    try {
+      payload = jwt.verify(
+        challengeToken,
+        process.env.JWT_SECRET!
+      ) as ChallengeTokenPayload;
+    } catch (error) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+
+    if (payload.purpose !== CHALLENGE_PURPOSE) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+
+    const user = await this.loadUser(payload.userId);
+    if (!user.twoFactorEnabledAt || !user.isActive) {
+      throw new Error('Invalid or expired two-factor challenge');
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const block = await loginProtectionService.checkAllowed(
+      user.email,
+      attempt
+    );
+    if (block) {
+      throw new Error(loginProtectionService.describeBlock(block));
+    }
+
+    try {
+      await this.verifySecondFactor(user, factor);
+    } catch (error) {
+      await loginProtectionService.recordFailure(user.email, attempt);
+      throw error;
+    }
+
+    await loginProtectionService.recordSuccess(user.email);
+    return { user, deviceId: payload.deviceId || null };
+  }
+
+  /**
+   * Accept a TOTP code (each time step only once) or an unused recovery code
+   */
+  private async verifySecondFactor(
+    user: User,
+    factor: SecondFactor
+  ): Promise<void> {
+    if (factor.code) {
+      const step = user.twoFactorSecret
+        ? verifyTotp(user.twoFactorSecret, factor.code)
+        : null;
+
+      if (step !== null) {
+        // Reject a code that was already used, even by a concurrent request
+        const [accepted] = await db
+          .update(users)
+          .set({ twoFactorLastUsedStep: step })
+          .where(
+            and(
+              eq(users.id, user.id),
+              or(
+                isNull(users.twoFactorLastUsedStep),
+                lt(users.twoFactorLastUsedStep, step)
+              )
+            )
+          )
+          .returning({ id: users.id });
+
+        if (accepted) {
+          return;
+        }
+      }
+
+      throw new Error('Invalid two-factor code');
+    }
+
+    if (factor.recoveryCode) {
+      const [used] = await db
+        .update(twoFactorRecoveryCodes)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(twoFactorRecoveryCodes.userId, user.id),
+            eq(
+              twoFactorRecoveryCodes.codeHash,
+              this.hashRecoveryCode(factor.recoveryCode)
+            ),
+            isNull(twoFactorRecoveryCodes.usedAt)
+          )
+        )
+        .returning({ id: twoFactorRecoveryCodes.id });
+
+      if (used) {
+        return;
+      }
+
+      throw new Error('Invalid recovery code');
+    }
+
+    throw new Error('Two-factor code or recovery code is required');
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+
+    await db
+      .delete(twoFactorRecoveryCodes)
+      .where(eq(twoFactorRecoveryCodes.userId, userId));
+
+    await db.insert(twoFactorRecoveryCodes).values(
+      codes.map(code => ({
+        userId,
+        codeHash: this.hashRecoveryCode(code),
+      }))
+    );
+
+    return codes;
+  }
+}
+
+export default new TwoFactorService();
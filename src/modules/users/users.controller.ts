@@ -1,12 +1,57 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { randomUUID } from 'crypto';
 import { db } from '../../config/database';
-import { users, propertyFavorites, properties, propertyTypes } from '../../db/schema';
+import { users, propertyFavorites, properties, propertyTypes, roleEnum } from '../../db/schema';
 import { eq, like, desc, count, and } from 'drizzle-orm';
-import { ApiResponse, PaginatedResponse, NewUser, JwtPayload } from '../../types';
+import { ApiResponse, PaginatedResponse, NewUser } from '../../types';
 import { cache } from '../../utils/cache';
+import tokenService from '../../services/token.service';
+import emailVerificationService from '../../services/emailVerification.service';
+import passwordResetService from '../../services/passwordReset.service';
+import securityPolicyService from '../../services/securityPolicy.service';
+import twoFactorService from '../twoFactor/twoFactor.service';
+import { toPublicUser } from '../../utils/publicUser';
+import { getSessionContext } from '../../utils/sessionContext';
+import loginProtectionService from '../../services/loginProtection.service';
+import userManagementService from '../../services/userManagement.service';
+import personalDataService from '../../services/personalData.service';
+import uploadsService from '../../services/uploads.service';
+import fileUploadService from '../../utils/fileUpload';
+import { Role } from '../../services/securityPolicy.service';
+
+/**
+ * Map user management errors to HTTP status codes
+ */
+const sendUserManagementError = (res: Response, error: unknown, fallback: string) => {
+  const message = (error as Error).message;
+
+  let status = 500;
+  if (message === 'User not found') status = 404;
+  else if (message.startsWith('You cannot')) status = 400;
+  else if (
+    message.startsWith('Cannot remove the last') ||
+    message.includes('already') ||
+    message.includes('not suspended') ||
+    message.includes('active bookings')
+  )
+    status = 409;
+
+  if (status === 500) {
+    console.error(`${fallback}:`, error);
+  }
+
+  res.status(status).json({
+    success: false,
+    error: status === 500 ? fallback : message,
+    ...(status === 500 && { message }),
+  });
+};
+
+const getReason = (req: Request): string | null => {
+  const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+  return reason || null;
+};
 
 class UsersController {
   /**
@@ -14,7 +59,7 @@ class UsersController {
    */
   async register(req: Request, res: Response): Promise<void> {
     try {
-      const { email, password, firstName, lastName, phone, role = 'USER' } = req.body;
+      const { email, password, firstName, lastName, phone } = req.body;
 
       // Check if user already exists
       const [existingUser] = await db
@@ -44,7 +89,8 @@ class UsersController {
         lastName,
         name: `${firstName} ${lastName}`, // Required computed field
         phone,
-        role: role as 'USER' | 'ADMIN',
+        // Roles are granted by admins or landlord approval, never chosen at sign-up
+        role: 'USER',
         createdAt: now,
         updatedAt: now,
       };
@@ -59,26 +105,26 @@ class UsersController {
           lastName: users.lastName,
           phone: users.phone,
           role: users.role,
+          verifiedAt: users.verifiedAt,
           createdAt: users.createdAt,
         });
 
-      // Generate JWT token
-      const payload: JwtPayload = {
-        userId: newUser.id,
-        email: newUser.email,
-        role: newUser.role,
-      };
+      // Registration succeeds even if the mail cannot be delivered; the user can resend it
+      try {
+        await emailVerificationService.sendVerificationEmail(newUser);
+      } catch (mailError) {
+        console.error('Send verification email error:', mailError);
+      }
 
-      const token = jwt.sign(payload, process.env.JWT_SECRET!, {
-        expiresIn: process.env.JWT_EXPIRES_IN || '7d',
-      });
+      // Start a session and issue access + refresh tokens
+      const tokens = await tokenService.issueTokens(newUser, getSessionContext(req));
 
       const response: ApiResponse = {
         success: true,
-        message: 'User registered successfully',
+        message: 'User registered successfully. Please check your email to verify your account.',
         data: {
           user: newUser,
-          token,
+          ...tokens,
         },
       };
 
@@ -93,6 +139,124 @@ class UsersController {
     }
   }
 
+  /**
+   * Verify email address with the token from the verification email
+   */
+  async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        res.status(400).json({
+          success: false,
+          error: 'Verification token is required',
+        });
+        return;
+      }
+
+      const user = await emailVerificationService.verify(token);
+
+      res.json({
+        success: true,
+        message: 'Email verified successfully',
+        data: {
+          id: user.id,
+          email: user.email,
+          verifiedAt: user.verifiedAt,
+        },
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+
+      if (['Invalid verification token', 'Verification token expired'].includes(message)) {
+        res.status(400).json({
+          success: false,
+          error: message,
+        });
+        return;
+      }
+
+      console.error('Verify email error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify email',
+        message,
+      });
+    }
+  }
+
+  /**
+   * Resend the verification email to the logged-in user
+   */
+  async resendVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.user!;
+
+      if (user.verifiedAt) {
+        res.status(400).json({
+          success: false,
+          error: 'Email is already verified',
+        });
+        return;
+      }
+
+      await emailVerificationService.sendVerificationEmail(user);
+
+      res.json({
+        success: true,
+        message: 'Verification email sent',
+      });
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send verification email',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Unlock an account with the token from the lockout email
+   */
+  async unlockAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        res.status(400).json({
+          success: false,
+          error: 'Unlock token is required',
+        });
+        return;
+      }
+
+      await loginProtectionService.unlockWithToken(token);
+
+      res.json({
+        success: true,
+        message: 'Account unlocked. You can log in again.',
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+
+      if (message === 'Invalid or expired unlock token') {
+        res.status(400).json({
+          success: false,
+          error: message,
+        });
+        return;
+      }
+
+      console.error('Unlock account error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to unlock account',
+        message,
+      });
+    }
+  }
+
   /**
    * Login user
    */
@@ -100,6 +264,31 @@ class UsersController {
     try {
       const { email, password } = req.body;
 
+      if (!email || !password) {
+        res.status(400).json({
+          success: false,
+          error: 'Email and password are required',
+        });
+        return;
+      }
+
+      const attempt = {
+        ipAddress: req.ip,
+        userAgent: req.header('User-Agent'),
+      };
+
+      // Refuse early while the account or IP is delayed or locked out
+      const block = await loginProtectionService.checkAllowed(email, attempt);
+      if (block) {
+        res.set('Retry-After', String(block.retryAfterSeconds));
+        res.status(429).json({
+          success: false,
+          error: loginProtectionService.describeBlock(block),
+          retryAfter: block.retryAfterSeconds,
+        });
+        return;
+      }
+
       // Find user by email
       const [user] = await db
         .select()
@@ -107,7 +296,12 @@ class UsersController {
         .where(eq(users.email, email))
         .limit(1);
 
-      if (!user || !user.password) {
+      // Check password
+      const isPasswordValid =
+        !!user?.password && (await bcrypt.compare(password, user.password));
+
+      if (!user || !isPasswordValid) {
+        await loginProtectionService.recordFailure(email, attempt);
         res.status(401).json({
           success: false,
           error: 'Invalid email or password',
@@ -115,37 +309,41 @@ class UsersController {
         return;
       }
 
-      // Check password
-      const isPasswordValid = await bcrypt.compare(password, user.password);
-
-      if (!isPasswordValid) {
-        res.status(401).json({
+      if (!user.isActive) {
+        res.status(403).json({
           success: false,
-          error: 'Invalid email or password',
+          error: 'Account is suspended. Please contact support.',
         });
         return;
       }
 
-      // Generate JWT token
-      const payload: JwtPayload = {
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-      };
-
-      const token = jwt.sign(payload, process.env.JWT_SECRET!, {
-        expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+      // With 2FA enabled, tokens are only issued after the second step
+      const challenge = await twoFactorService.createLoginChallenge(user, {
+        deviceId: getSessionContext(req).deviceId,
       });
 
-      // Remove password from response
-      const { password: _, ...userWithoutPassword } = user;
+      if (challenge) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication required',
+          data: challenge,
+        });
+        return;
+      }
+
+      // Failures are only cleared once the whole login, including 2FA, succeeded
+      await loginProtectionService.recordSuccess(email);
+
+      // Start a session and issue access + refresh tokens
+      const tokens = await tokenService.issueTokens(user, getSessionContext(req));
 
       const response: ApiResponse = {
         success: true,
         message: 'Login successful',
         data: {
-          user: userWithoutPassword,
-          token,
+          user: toPublicUser(user),
+          ...tokens,
+          twoFactorSetupRequired: await securityPolicyService.isTwoFactorRequired(user.role),
         },
       };
 
@@ -165,11 +363,9 @@ class UsersController {
    */
   async getProfile(req: Request, res: Response): Promise<void> {
     try {
-      const { password: _, ...userWithoutPassword } = req.user!;
-
       const response: ApiResponse = {
         success: true,
-        data: userWithoutPassword,
+        data: toPublicUser(req.user!),
       };
 
       res.json(response);
@@ -188,27 +384,61 @@ class UsersController {
    */
   async updateProfile(req: Request, res: Response): Promise<void> {
     try {
-      const { firstName, lastName, phone } = req.body;
+      const { firstName, lastName, phone, profilePicture } = req.body;
       const userId = req.user!.id;
 
-      const [updatedUser] = await db
-        .update(users)
-        .set({
-          firstName,
-          lastName,
-          phone,
-          updatedAt: new Date(),
-        })
-        .where(eq(users.id, userId))
-        .returning({
-          id: users.id,
-          email: users.email,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          phone: users.phone,
-          role: users.role,
-          updatedAt: users.updatedAt,
-        });
+      // A file uploaded to the profile-pictures folder, or null to remove it
+      let profilePictureUrl: string | null | undefined;
+      if (profilePicture !== undefined) {
+        const filePath = profilePicture
+          ? fileUploadService.getStoragePath(String(profilePicture))
+          : null;
+        if (profilePicture && !(filePath && fileUploadService.isInFolder(filePath, 'profile-pictures'))) {
+          res.status(400).json({
+            success: false,
+            error: 'profilePicture must be the key or URL of a file uploaded to the profile-pictures folder',
+          });
+          return;
+        }
+        profilePictureUrl = filePath && fileUploadService.getFileUrl(filePath);
+      }
+
+      const updatedUser = await db.transaction(async tx => {
+        const [current] = await tx
+          .select({ profilePicture: users.profilePicture })
+          .from(users)
+          .where(eq(users.id, userId))
+          .for('update');
+
+        const [updated] = await tx
+          .update(users)
+          .set({
+            firstName,
+            lastName,
+            phone,
+            ...(profilePictureUrl !== undefined && { profilePicture: profilePictureUrl }),
+            updatedAt: new Date(),
+          })
+          .where(eq(users.id, userId))
+          .returning({
+            id: users.id,
+            email: users.email,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            phone: users.phone,
+            profilePicture: users.profilePicture,
+            role: users.role,
+            updatedAt: users.updatedAt,
+          });
+
+        // The replaced picture is left for the orphaned upload collection
+        if (profilePictureUrl !== undefined && current?.profilePicture !== profilePictureUrl) {
+          await uploadsService.detach(tx, [current?.profilePicture]);
+          await uploadsService.attach(tx, [profilePictureUrl], { type: 'user', id: userId }, userId);
+        }
+
+        return updated;
+      });
 
       const response: ApiResponse = {
         success: true,
@@ -218,6 +448,14 @@ class UsersController {
 
       res.json(response);
     } catch (error) {
+      if ((error as Error).message.startsWith('Access denied')) {
+        res.status(403).json({
+          success: false,
+          error: (error as Error).message,
+        });
+        return;
+      }
+
       console.error('Update profile error:', error);
       res.status(500).json({
         success: false,
@@ -257,7 +495,9 @@ class UsersController {
           lastName: users.lastName,
           phone: users.phone,
           role: users.role,
-          isEmailVerified: users.isEmailVerified,
+          isActive: users.isActive,
+          verifiedAt: users.verifiedAt,
+          deletedAt: users.deletedAt,
           createdAt: users.createdAt,
           updatedAt: users.updatedAt,
         })
@@ -435,6 +675,79 @@ class UsersController {
     }
   }
 
+  /**
+   * Request a password reset email
+   */
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        res.status(400).json({
+          success: false,
+          error: 'Email is required',
+        });
+        return;
+      }
+
+      await passwordResetService.requestReset(email, { ip: req.ip });
+
+      // Same response whether or not the account exists
+      res.json({
+        success: true,
+        message: 'If an account exists for this email, a password reset link has been sent',
+      });
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to request password reset',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Reset password with the token from the reset email
+   */
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, newPassword } = req.body;
+
+      if (!token || !newPassword || newPassword.length < 6) {
+        res.status(400).json({
+          success: false,
+          error: 'Token and a new password of at least 6 characters are required',
+        });
+        return;
+      }
+
+      await passwordResetService.resetPassword(token, newPassword);
+
+      res.json({
+        success: true,
+        message: 'Password has been reset. Please log in with your new password.',
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+
+      if (['Invalid reset token', 'Reset token expired'].includes(message)) {
+        res.status(400).json({
+          success: false,
+          error: message,
+        });
+        return;
+      }
+
+      console.error('Reset password error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reset password',
+        message,
+      });
+    }
+  }
+
   /**
    * Get user's bookings
    */
@@ -480,17 +793,42 @@ class UsersController {
         return;
       }
 
-      // For now, just return a mock response
-      // In production, implement proper refresh token logic
+      const tokens = await tokenService.rotateRefreshToken(
+        refreshToken,
+        async userId => {
+          const [user] = await db
+            .select({ id: users.id, email: users.email, role: users.role })
+            .from(users)
+            .where(and(eq(users.id, userId), eq(users.isActive, true)))
+            .limit(1);
+          return user;
+        },
+        getSessionContext(req)
+      );
+
       res.json({
         success: true,
-        message: 'Refresh token feature not yet implemented',
-        data: {
-          token: 'mock-new-token',
-          refreshToken: 'mock-new-refresh-token',
-        },
+        message: 'Token refreshed successfully',
+        data: tokens,
       });
     } catch (error) {
+      const message = (error as Error).message;
+
+      if (
+        [
+          'Invalid refresh token',
+          'Refresh token expired',
+          'Refresh token reuse detected',
+          'Session has been revoked',
+        ].includes(message)
+      ) {
+        res.status(401).json({
+          success: false,
+          error: message,
+        });
+        return;
+      }
+
       console.error('Refresh token error:', error);
       res.status(500).json({
         success: false,
@@ -501,139 +839,378 @@ class UsersController {
   }
 
   /**
-   * Google authentication
+   * Logout - revoke the current session, or every session of the user
    */
-  async googleAuth(req: Request, res: Response): Promise<void> {
+  async logout(req: Request, res: Response): Promise<void> {
     try {
-      const { googleId, email, name, firstName, lastName, profilePicture } = req.body;
+      const { refreshToken, allDevices } = req.body;
+      const userId = req.user!.id;
 
-      // Check if user already exists by googleId or email
-      const [existingUser] = await db
-        .select()
+      if (allDevices) {
+        const revokedCount = await tokenService.revokeAllSessions(userId);
+
+        res.json({
+          success: true,
+          message: 'Logged out from all devices',
+          data: { revokedSessions: revokedCount },
+        });
+        return;
+      }
+
+      let sessionId = req.sessionId || null;
+      if (!sessionId && refreshToken) {
+        sessionId = await tokenService.findSessionIdByRefreshToken(refreshToken);
+      }
+
+      if (sessionId) {
+        await tokenService.revokeSession(sessionId);
+      }
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully',
+      });
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to logout',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * List the current user's active sessions
+   */
+  async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const sessions = await tokenService.listActiveSessions(req.user!.id);
+
+      res.json({
+        success: true,
+        data: sessions.map(session => ({
+          ...session,
+          current: session.id === req.sessionId,
+        })),
+      });
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch sessions',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Revoke one of the current user's sessions
+   */
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const revoked = await tokenService.revokeUserSession(
+        req.user!.id,
+        req.params.sessionId
+      );
+
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Session revoked successfully',
+      });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke session',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Revoke every session of the current user except this one
+   */
+  async revokeOtherSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const revokedCount = await tokenService.revokeOtherSessions(
+        req.user!.id,
+        req.sessionId!
+      );
+
+      res.json({
+        success: true,
+        message: 'Logged out from all other devices',
+        data: { revokedSessions: revokedCount },
+      });
+    } catch (error) {
+      console.error('Revoke other sessions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke sessions',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * List a user's active sessions (Admin only)
+   */
+  async getUserSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const sessions = await tokenService.listActiveSessions(req.params.id);
+
+      res.json({
+        success: true,
+        data: sessions,
+      });
+    } catch (error) {
+      console.error('Get user sessions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch sessions',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Revoke every session of a user (Admin only)
+   */
+  async forceLogout(req: Request, res: Response): Promise<void> {
+    try {
+      const [user] = await db
+        .select({ id: users.id })
         .from(users)
-        .where(eq(users.googleId, googleId))
+        .where(eq(users.id, req.params.id))
         .limit(1);
 
-      let user;
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
 
-      if (existingUser) {
-        // Update existing user
-        [user] = await db
-          .update(users)
-          .set({
-            name,
-            firstName,
-            lastName,
-            profilePicture,
-            updatedAt: new Date(),
-          })
-          .where(eq(users.id, existingUser.id))
-          .returning({
-            id: users.id,
-            email: users.email,
-            firstName: users.firstName,
-            lastName: users.lastName,
-            name: users.name,
-            phone: users.phone,
-            profilePicture: users.profilePicture,
-            role: users.role,
-            googleId: users.googleId,
+      const revokedCount = await tokenService.revokeAllSessions(
+        user.id,
+        'ADMIN_FORCE_LOGOUT'
+      );
+
+      res.json({
+        success: true,
+        message: 'User logged out from all devices',
+        data: { revokedSessions: revokedCount },
+      });
+    } catch (error) {
+      console.error('Force logout error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to force logout',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Download a copy of the current user's personal data
+   */
+  async exportMyData(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await personalDataService.exportData(req.user!.id);
+      const date = new Date().toISOString().slice(0, 10);
+
+      res.set('Content-Disposition', `attachment; filename="rentverse-data-${date}.json"`);
+      res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      console.error('Export personal data error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export personal data',
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Erase the current user's account and personal data
+   */
+  async deleteMyAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const { password } = req.body;
+      const user = req.user!;
+
+      // Accounts with a password must confirm it; social-only accounts confirm explicitly
+      if (user.password) {
+        if (!password || !(await bcrypt.compare(password, user.password))) {
+          res.status(401).json({
+            success: false,
+            error: 'Password is incorrect',
           });
-      } else {
-        // Check if user exists by email (for linking accounts)
-        const [emailUser] = await db
-          .select()
-          .from(users)
-          .where(eq(users.email, email))
-          .limit(1);
-
-        if (emailUser) {
-          // Link Google account to existing email user
-          [user] = await db
-            .update(users)
-            .set({
-              googleId,
-              name,
-              firstName,
-              lastName,
-              profilePicture,
-              updatedAt: new Date(),
-            })
-            .where(eq(users.id, emailUser.id))
-            .returning({
-              id: users.id,
-              email: users.email,
-              firstName: users.firstName,
-              lastName: users.lastName,
-              name: users.name,
-              phone: users.phone,
-              profilePicture: users.profilePicture,
-              role: users.role,
-              googleId: users.googleId,
-            });
-        } else {
-          // Create new user
-          const now = new Date();
-          const newUserData: NewUser = {
-            id: randomUUID(),
-            email,
-            password: '', // No password for Google users
-            firstName,
-            lastName,
-            name,
-            profilePicture,
-            googleId,
-            role: 'USER',
-            isActive: true,
-            createdAt: now,
-            updatedAt: now,
-          };
-
-          [user] = await db
-            .insert(users)
-            .values(newUserData)
-            .returning({
-              id: users.id,
-              email: users.email,
-              firstName: users.firstName,
-              lastName: users.lastName,
-              name: users.name,
-              phone: users.phone,
-              profilePicture: users.profilePicture,
-              role: users.role,
-              googleId: users.googleId,
-            });
+          return;
         }
+      } else if (req.body.confirm !== true) {
+        res.status(400).json({
+          success: false,
+          error: 'Confirmation is required to delete your account',
+        });
+        return;
       }
 
-      // Generate JWT token
-      const payload: JwtPayload = {
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-      };
+      await userManagementService.eraseAccount(user.id);
 
-      const token = jwt.sign(payload, process.env.JWT_SECRET!, {
-        expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+      res.json({
+        success: true,
+        message: 'Your account and personal data have been deleted',
       });
+    } catch (error) {
+      sendUserManagementError(res, error, 'Failed to delete account');
+    }
+  }
 
-      const response: ApiResponse = {
+  /**
+   * Properties, bookings, payments and admin history of a user (Admin only)
+   */
+  async getUserOverview(req: Request, res: Response): Promise<void> {
+    try {
+      const overview = await userManagementService.getOverview(req.params.id);
+
+      res.json({
         success: true,
-        message: 'Google authentication successful',
-        data: {
-          user,
-          token,
-        },
-      };
+        data: overview,
+      });
+    } catch (error) {
+      sendUserManagementError(res, error, 'Failed to fetch user overview');
+    }
+  }
 
-      res.json(response);
+  /**
+   * Suspend a user and end all their sessions (Admin only)
+   */
+  async suspendUser(req: Request, res: Response): Promise<void> {
+    try {
+      const reason = getReason(req);
+      if (!reason) {
+        res.status(400).json({
+          success: false,
+          error: 'Reason is required',
+        });
+        return;
+      }
+
+      const result = await userManagementService.suspend(req.params.id, req.user!.id, reason);
+
+      res.json({
+        success: true,
+        message: 'User suspended successfully',
+        data: result,
+      });
     } catch (error) {
-      console.error('Google auth error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to authenticate with Google',
-        message: (error as Error).message,
+      sendUserManagementError(res, error, 'Failed to suspend user');
+    }
+  }
+
+  /**
+   * Reactivate a suspended user (Admin only)
+   */
+  async reactivateUser(req: Request, res: Response): Promise<void> {
+    try {
+      const reason = getReason(req);
+      if (!reason) {
+        res.status(400).json({
+          success: false,
+          error: 'Reason is required',
+        });
+        return;
+      }
+
+      const user = await userManagementService.reactivate(req.params.id, req.user!.id, reason);
+
+      res.json({
+        success: true,
+        message: 'User reactivated successfully',
+        data: user,
+      });
+    } catch (error) {
+      sendUserManagementError(res, error, 'Failed to reactivate user');
+    }
+  }
+
+  /**
+   * Change a user's role (Admin only)
+   */
+  async changeUserRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { role } = req.body;
+      const reason = getReason(req);
+
+      if (!roleEnum.enumValues.includes(role)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid role. Valid options: ${roleEnum.enumValues.join(', ')}`,
+        });
+        return;
+      }
+
+      if (!reason) {
+        res.status(400).json({
+          success: false,
+          error: 'Reason is required',
+        });
+        return;
+      }
+
+      const user = await userManagementService.changeRole(
+        req.params.id,
+        role as Role,
+        req.user!.id,
+        reason
+      );
+
+      res.json({
+        success: true,
+        message: 'User role updated successfully',
+        data: user,
       });
+    } catch (error) {
+      sendUserManagementError(res, error, 'Failed to change user role');
+    }
+  }
+
+  /**
+   * Delete a user by anonymizing their account (Admin only)
+   */
+  async deleteUser(req: Request, res: Response): Promise<void> {
+    try {
+      const reason = getReason(req);
+      if (!reason) {
+        res.status(400).json({
+          success: false,
+          error: 'Reason is required',
+        });
+        return;
+      }
+
+      await userManagementService.deleteUser(req.params.id, req.user!.id, reason);
+
+      res.json({
+        success: true,
+        message: 'User deleted successfully',
+      });
+    } catch (error) {
+      sendUserManagementError(res, error, 'Failed to delete user');
     }
   }
 }
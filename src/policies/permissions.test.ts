@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Action, Actor, can, ROLE_PERMISSIONS } from './permissions';
+
+const user: Actor = { id: 'user', role: 'USER' };
+const host: Actor = { id: 'host', role: 'HOST' };
+const landlord: Actor = { id: 'landlord', role: 'LANDLORD' };
+const admin: Actor = { id: 'admin', role: 'ADMIN' };
+
+const ADMIN_ONLY: Action[] = [
+  'property:moderate',
+  'booking:list',
+  'landlordRegistration:view',
+  'landlordRegistration:review',
+  'amenity:manage',
+  'propertyType:manage',
+  'prediction:manage',
+  'user:list',
+  'user:manage',
+  'security:manage',
+  'audit:view',
+];
+
+describe('can', () => {
+  it('grants nothing without a user or to an unknown role', () => {
+    expect(can(null, 'property:create')).toBe(false);
+    expect(can(undefined, 'property:create')).toBe(false);
+    expect(
+      can({ id: 'x', role: 'GUEST' as Actor['role'] }, 'property:create')
+    ).toBe(false);
+  });
+
+  it('lets every role create listings', () => {
+    for (const actor of [user, host, landlord, admin]) {
+      expect(can(actor, 'property:create')).toBe(true);
+    }
+  });
+
+  it.each(ADMIN_ONLY)('grants %s to admins only', action => {
+    expect(can(admin, action)).toBe(true);
+    for (const actor of [user, host, landlord]) {
+      expect(can(actor, action)).toBe(false);
+    }
+  });
+
+  it('gives admins every action on any resource', () => {
+    const actions = Object.keys(ROLE_PERMISSIONS.ADMIN) as Action[];
+    for (const action of actions) {
+      expect(
+        can(admin, action, { ownerId: 'someone', tenantId: 'someone' })
+      ).toBe(true);
+    }
+  });
+
+  describe('listings', () => {
+    const own = { ownerId: 'landlord' };
+    const others = { ownerId: 'someone' };
+
+    it.each([
+      'property:update',
+      'property:delete',
+      'property:viewUnpublished',
+    ] as Action[])('allows %s on own listings only', action => {
+      expect(can(landlord, action, own)).toBe(true);
+      expect(can(landlord, action, others)).toBe(false);
+      expect(can(host, action, { ownerId: 'host' })).toBe(true);
+      expect(can(user, action, { ownerId: 'user' })).toBe(true);
+      expect(can(user, action, others)).toBe(false);
+    });
+
+    it('needs the listing to check ownership', () => {
+      expect(can(landlord, 'property:update')).toBe(false);
+      expect(can(landlord, 'property:update', null)).toBe(false);
+    });
+  });
+
+  describe('bookings', () => {
+    const booking = { tenantId: 'user', landlordId: 'landlord' };
+
+    it('lets the tenant and the landlord view a booking', () => {
+      expect(can(user, 'booking:view', booking)).toBe(true);
+      expect(can(landlord, 'booking:view', booking)).toBe(true);
+      expect(can(host, 'booking:view', booking)).toBe(false);
+      expect(
+        can(host, 'booking:view', { ...booking, landlordId: 'host' })
+      ).toBe(true);
+    });
+
+    it('hides a booking from everyone else', () => {
+      const stranger: Actor = { id: 'stranger', role: 'USER' };
+      expect(can(stranger, 'booking:view', booking)).toBe(false);
+      expect(can(stranger, 'booking:view', { tenantId: 'user' })).toBe(false);
+    });
+
+    it('lets tenants update and cancel their own bookings', () => {
+      expect(can(user, 'booking:update', booking)).toBe(true);
+      expect(can(user, 'booking:cancel', booking)).toBe(true);
+      expect(can(user, 'booking:update', { tenantId: 'someone' })).toBe(false);
+    });
+
+    it('lets landlords and hosts update bookings on their listings', () => {
+      expect(can(landlord, 'booking:update', booking)).toBe(true);
+      expect(can(landlord, 'booking:cancel', booking)).toBe(false);
+      const hosted = { tenantId: 'user', landlordId: 'host' };
+      expect(can(host, 'booking:update', hosted)).toBe(true);
+      expect(can(host, 'booking:cancel', hosted)).toBe(false);
+    });
+
+    it('does not let a plain user act as landlord of a booking', () => {
+      const asLandlord = { tenantId: 'someone', landlordId: 'user' };
+      expect(can(user, 'booking:view', asLandlord)).toBe(true);
+      expect(can(user, 'booking:update', asLandlord)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { User } from '../types';
+import { Role } from '../services/securityPolicy.service';
+
+/**
+ * Everything a user can be allowed to do, as `<resource>:<verb>`
+ */
+export type Action =
+  | 'property:create'
+  | 'property:viewUnpublished'
+  | 'property:update'
+  | 'property:delete'
+  | 'property:moderate'
+  | 'booking:list'
+  | 'booking:view'
+  | 'booking:update'
+  | 'booking:cancel'
+  | 'landlordRegistration:view'
+  | 'landlordRegistration:review'
+  | 'amenity:manage'
+  | 'propertyType:manage'
+  | 'prediction:manage'
+  | 'user:list'
+  | 'user:manage'
+  | 'security:manage'
+  | 'audit:view';
+
+/**
+ * The subset of a user the rules look at
+ */
+export type Actor = Pick<User, 'id' | 'role'>;
+
+export interface PropertyResource {
+  ownerId: string;
+}
+
+export interface BookingResource {
+  tenantId: string;
+  landlordId?: string | null;
+}
+
+// The resource each ownership rule is checked against
+interface ActionResources {
+  'property:viewUnpublished': PropertyResource;
+  'property:update': PropertyResource;
+  'property:delete': PropertyResource;
+  'booking:view': BookingResource;
+  'booking:update': BookingResource;
+  'booking:cancel': BookingResource;
+}
+
+type ResourceOf<A extends Action> = A extends keyof ActionResources
+  ? ActionResources[A]
+  : never;
+
+/**
+ * A grant is either unconditional or an ownership rule checked against the resource
+ */
+type Rule<R> = true | ((actor: Actor, resource: R) => boolean);
+
+type Permissions = { [A in Action]?: Rule<ResourceOf<A>> };
+
+const ownsProperty = (actor: Actor, property: PropertyResource) =>
+  property.ownerId === actor.id;
+
+const isTenant = (actor: Actor, booking: BookingResource) =>
+  booking.tenantId === actor.id;
+
+// Both sides of a booking may read it
+const isBookingParty = (actor: Actor, booking: BookingResource) =>
+  isTenant(actor, booking) || booking.landlordId === actor.id;
+
+const USER_PERMISSIONS: Permissions = {
+  'property:create': true,
+  'property:viewUnpublished': ownsProperty,
+  'property:update': ownsProperty,
+  'property:delete': ownsProperty,
+  'booking:view': isBookingParty,
+  'booking:update': isTenant,
+  'booking:cancel': isTenant,
+};
+
+// Hosts and landlords also manage the bookings made on their listings
+const LISTING_MANAGER_PERMISSIONS: Permissions = {
+  ...USER_PERMISSIONS,
+  'booking:update': isBookingParty,
+};
+
+const ADMIN_PERMISSIONS: Permissions = {
+  'property:create': true,
+  'property:viewUnpublished': true,
+  'property:update': true,
+  'property:delete': true,
+  'property:moderate': true,
+  'booking:list': true,
+  'booking:view': true,
+  'booking:update': true,
+  'booking:cancel': true,
+  'landlordRegistration:view': true,
+  'landlordRegistration:review': true,
+  'amenity:manage': true,
+  'propertyType:manage': true,
+  'prediction:manage': true,
+  'user:list': true,
+  'user:manage': true,
+  'security:manage': true,
+  'audit:view': true,
+};
+
+export const ROLE_PERMISSIONS: Record<Role, Permissions> = {
+  USER: USER_PERMISSIONS,
+  HOST: LISTING_MANAGER_PERMISSIONS,
+  LANDLORD: LISTING_MANAGER_PERMISSIONS,
+  ADMIN: ADMIN_PERMISSIONS,
+};
+
+/**
+ * Whether the user may perform the action. Ownership rules need the resource;
+ * without one only unconditional grants pass.
+ */
+export const can = (
+  user: Actor | null | undefined,
+  action: Action,
+  resource?: unknown
+): boolean => {
+  if (!user) {
+    return false;
+  }
+
+  const rule = ROLE_PERMISSIONS[user.role as Role]?.[action];
+  if (!rule) {
+    return false;
+  }
+
+  if (rule === true) {
+    return true;
+  }
+
+  // Callers pass rows straight from queries; each rule reads only the
+  // ownership fields of its action's resource
+  const check = rule as (actor: Actor, resource: unknown) => boolean;
+  return resource != null && check(user, resource);
+};
@@ -1,6 +1,8 @@
 import express from 'express';
 import { body } from 'express-validator';
+import { auth, requirePermission } from '../middleware/auth';
 import usersController from '../modules/users/users.controller';
+import twoFactorController from '../modules/twoFactor/twoFactor.controller';
 
 const router = express.Router();
 
@@ -24,4 +26,61 @@ router.post(
   usersController.login
 );
 
+router.post(
+  '/refresh-token',
+  [body('refreshToken').notEmpty().withMessage('Refresh token is required')],
+  usersController.refreshToken
+);
+
+router.post('/logout', auth, usersController.logout);
+
+router.post(
+  '/verify-email',
+  [body('token').notEmpty().withMessage('Verification token is required')],
+  usersController.verifyEmail
+);
+
+router.post('/resend-verification', auth, usersController.resendVerification);
+
+router.post(
+  '/forgot-password',
+  [body('email').isEmail().withMessage('Valid email is required')],
+  usersController.forgotPassword
+);
+
+router.post(
+  '/reset-password',
+  [
+    body('token').notEmpty().withMessage('Reset token is required'),
+    body('newPassword').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+  ],
+  usersController.resetPassword
+);
+
+router.post(
+  '/unlock-account',
+  [body('token').notEmpty().withMessage('Unlock token is required')],
+  usersController.unlockAccount
+);
+
+router.post('/2fa/verify', twoFactorController.verifyLogin);
+router.get('/2fa', auth, twoFactorController.getStatus);
+router.post('/2fa/enroll', auth, twoFactorController.enroll);
+router.post(
+  '/2fa/confirm',
+  auth,
+  [body('code').notEmpty().withMessage('Two-factor code is required')],
+  twoFactorController.confirm
+);
+router.post('/2fa/recovery-codes', auth, twoFactorController.regenerateRecoveryCodes);
+router.post('/2fa/disable', auth, twoFactorController.disable);
+router.get('/2fa/policy', auth, requirePermission('security:manage'), twoFactorController.getPolicy);
+router.put(
+  '/2fa/policy',
+  auth,
+  requirePermission('security:manage'),
+  [body('requiredRoles').isArray().withMessage('requiredRoles must be an array of roles')],
+  twoFactorController.updatePolicy
+);
+
 export default router;
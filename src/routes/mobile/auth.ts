@@ -1,7 +1,9 @@
 import express from 'express';
 import { body } from 'express-validator';
-import { auth } from '../../middleware/auth';
+import { auth, requirePermission } from '../../middleware/auth';
 import usersController from '../../modules/users/users.controller';
+import socialAuthController from '../../modules/socialAuth/socialAuth.controller';
+import twoFactorController from '../../modules/twoFactor/twoFactor.controller';
 
 const router = express.Router();
 
@@ -37,7 +39,7 @@ const router = express.Router();
  *                 type: string
  *     responses:
  *       201:
- *         description: User registered successfully
+ *         description: User registered successfully and a verification email sent
  *       400:
  *         description: Validation error or user already exists
  */
@@ -73,11 +75,22 @@ router.post(
  *                 format: email
  *               password:
  *                 type: string
+ *               deviceId:
+ *                 type: string
+ *                 description: Stable device identifier; a new login replaces the device's previous session
+ *               deviceName:
+ *                 type: string
+ *                 example: "Pixel 8"
+ *               platform:
+ *                 type: string
+ *                 example: android
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a two-factor challenge (twoFactorRequired and challengeToken) to complete at /2fa/verify
  *       401:
  *         description: Invalid credentials
+ *       429:
+ *         description: Too many failed attempts; the account or IP is delayed or temporarily locked (see Retry-After)
  */
 router.post(
   '/login',
@@ -123,17 +136,48 @@ router.get('/me', auth, usersController.getProfile);
  *                 type: string
  *     responses:
  *       200:
- *         description: Token refreshed successfully
+ *         description: Token refreshed successfully. The old refresh token is rotated out.
  *       401:
  *         description: Invalid refresh token
  */
-router.post('/refresh-token', usersController.refreshToken);
+router.post(
+  '/refresh-token',
+  [body('refreshToken').notEmpty().withMessage('Refresh token is required')],
+  usersController.refreshToken
+);
 
 /**
  * @swagger
- * /api/v1/m/auth/google:
+ * /api/v1/m/auth/logout:
  *   post:
- *     summary: Authenticate with Google (Mobile)
+ *     summary: Logout and revoke refresh tokens (Mobile)
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *               allDevices:
+ *                 type: boolean
+ *                 description: Revoke every session of the user
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/logout', auth, usersController.logout);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/verify-email:
+ *   post:
+ *     summary: Verify email address (Mobile)
  *     tags: [Mobile - Auth]
  *     requestBody:
  *       required: true
@@ -142,44 +186,410 @@ router.post('/refresh-token', usersController.refreshToken);
  *           schema:
  *             type: object
  *             required:
- *               - googleId
- *               - email
- *               - name
- *               - firstName
- *               - lastName
+ *               - token
  *             properties:
- *               googleId:
+ *               token:
  *                 type: string
- *                 description: Google user ID
+ *                 description: Token from the verification email link
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       400:
+ *         description: Invalid or expired verification token
+ */
+router.post(
+  '/verify-email',
+  [body('token').notEmpty().withMessage('Verification token is required')],
+  usersController.verifyEmail
+);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/resend-verification:
+ *   post:
+ *     summary: Resend the verification email (Mobile)
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       400:
+ *         description: Email is already verified
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/resend-verification', auth, usersController.resendVerification);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset email (Mobile)
+ *     description: Always responds with success so registered emails cannot be discovered. Accounts without a password (social sign-in only) can use it to set one.
+ *     tags: [Mobile - Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
  *               email:
  *                 type: string
  *                 format: email
- *               name:
- *                 type: string
- *                 description: Full name
- *               firstName:
- *                 type: string
- *               lastName:
+ *     responses:
+ *       200:
+ *         description: Reset email sent if the account exists
+ */
+router.post(
+  '/forgot-password',
+  [body('email').isEmail().withMessage('Valid email is required')],
+  usersController.forgotPassword
+);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/reset-password:
+ *   post:
+ *     summary: Reset password with a reset token (Mobile)
+ *     description: The token can only be used once. Every existing session is signed out.
+ *     tags: [Mobile - Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
  *                 type: string
- *               profilePicture:
+ *               newPassword:
  *                 type: string
- *                 description: Profile picture URL
+ *                 minLength: 6
  *     responses:
  *       200:
- *         description: Google authentication successful
+ *         description: Password reset successfully
  *       400:
- *         description: Invalid request data
+ *         description: Invalid or expired reset token
  */
 router.post(
-  '/google',
+  '/reset-password',
   [
-    body('googleId').notEmpty().withMessage('Google ID is required'),
-    body('email').isEmail().withMessage('Valid email is required'),
-    body('name').notEmpty().withMessage('Name is required'),
-    body('firstName').notEmpty().withMessage('First name is required'),
-    body('lastName').notEmpty().withMessage('Last name is required'),
+    body('token').notEmpty().withMessage('Reset token is required'),
+    body('newPassword').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
   ],
-  usersController.googleAuth
+  usersController.resetPassword
 );
 
+/**
+ * @swagger
+ * /api/v1/m/auth/unlock-account:
+ *   post:
+ *     summary: Unlock an account with the token from the lockout email (Mobile)
+ *     tags: [Mobile - Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       400:
+ *         description: Invalid or expired unlock token
+ */
+router.post(
+  '/unlock-account',
+  [body('token').notEmpty().withMessage('Unlock token is required')],
+  usersController.unlockAccount
+);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/2fa/verify:
+ *   post:
+ *     summary: Complete a two-factor login (Mobile)
+ *     description: Second login step after login or social sign-in answered with twoFactorRequired.
+ *     tags: [Mobile - Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: 6-digit code from the authenticator app
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       400:
+ *         description: Invalid code
+ *       401:
+ *         description: Invalid or expired challenge
+ */
+router.post('/2fa/verify', twoFactorController.verifyLogin);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/2fa:
+ *   get:
+ *     summary: Get two-factor status (Mobile)
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether 2FA is enabled or required, and recovery codes left
+ */
+router.get('/2fa', auth, twoFactorController.getStatus);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/2fa/enroll:
+ *   post:
+ *     summary: Start two-factor enrollment (Mobile)
+ *     description: Returns a TOTP secret and otpauth URI. 2FA is enabled once confirmed.
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret and otpauth URI
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ */
+router.post('/2fa/enroll', auth, twoFactorController.enroll);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/2fa/confirm:
+ *   post:
+ *     summary: Confirm two-factor enrollment (Mobile)
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: 2FA enabled, recovery codes returned once
+ *       400:
+ *         description: Invalid code
+ */
+router.post(
+  '/2fa/confirm',
+  auth,
+  [body('code').notEmpty().withMessage('Two-factor code is required')],
+  twoFactorController.confirm
+);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes (Mobile)
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes, the old ones no longer work
+ */
+router.post('/2fa/recovery-codes', auth, twoFactorController.regenerateRecoveryCodes);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication (Mobile)
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: 2FA disabled
+ *       403:
+ *         description: 2FA is required for the user's role
+ */
+router.post('/2fa/disable', auth, twoFactorController.disable);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/2fa/policy:
+ *   get:
+ *     summary: Get roles required to use 2FA (Admin only)
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Required roles
+ *   put:
+ *     summary: Set roles required to use 2FA (Admin only)
+ *     description: Users in these roles are refused on admin-only routes until they enable 2FA.
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - requiredRoles
+ *             properties:
+ *               requiredRoles:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [USER, ADMIN, HOST, LANDLORD]
+ *     responses:
+ *       200:
+ *         description: Policy updated
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get('/2fa/policy', auth, requirePermission('security:manage'), twoFactorController.getPolicy);
+router.put(
+  '/2fa/policy',
+  auth,
+  requirePermission('security:manage'),
+  [body('requiredRoles').isArray().withMessage('requiredRoles must be an array of roles')],
+  twoFactorController.updatePolicy
+);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/{provider}:
+ *   post:
+ *     summary: Sign in with a social identity provider (Mobile)
+ *     description: |
+ *       The credential is verified server-side before any account is linked or created.
+ *       google and apple take an ID token, facebook an access token,
+ *       github an authorization code and twitter an authorization code with PKCE verifier.
+ *     tags: [Mobile - Auth]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google, apple, facebook, github, twitter]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               idToken:
+ *                 type: string
+ *               accessToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               codeVerifier:
+ *                 type: string
+ *               redirectUri:
+ *                 type: string
+ *               firstName:
+ *                 type: string
+ *                 description: Apple only, shared by Apple on first sign-in
+ *               lastName:
+ *                 type: string
+ *               deviceId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Authentication successful
+ *       201:
+ *         description: Account created
+ *       401:
+ *         description: Invalid provider credentials
+ *       404:
+ *         description: Unsupported provider
+ *       409:
+ *         description: Email already registered and not verified by the provider
+ */
+router.post('/:provider', socialAuthController.authenticate);
+
+/**
+ * @swagger
+ * /api/v1/m/auth/{provider}/link:
+ *   post:
+ *     summary: Link a social account to the current user (Mobile)
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Account linked
+ *       409:
+ *         description: Account already linked to another user
+ *   delete:
+ *     summary: Unlink a social account from the current user (Mobile)
+ *     tags: [Mobile - Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Account unlinked
+ *       400:
+ *         description: Provider not linked or it is the only sign-in method
+ */
+router.post('/:provider/link', auth, socialAuthController.link);
+router.delete('/:provider/link', auth, socialAuthController.unlink);
+
 export default router;
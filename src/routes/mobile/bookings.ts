@@ -1,5 +1,5 @@
 import express from 'express';
-import { auth } from '../../middleware/auth';
+import { auth, requireVerifiedEmail } from '../../middleware/auth';
 import bookingsController from '../../modules/bookings/bookings.controller';
 
 const router = express.Router();
@@ -165,7 +165,9 @@ router.put('/:id/status', auth, bookingsController.updateBookingStatus);
  *         description: Booking created successfully
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Email address not verified
  */
-router.post('/', auth, bookingsController.createBooking);
+router.post('/', auth, requireVerifiedEmail, bookingsController.createBooking);
 
 export default router;
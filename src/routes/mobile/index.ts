@@ -14,6 +14,7 @@ import paymentRoutes from '../../modules/payment/payment.routes';
 import signatureRoutes from './signatures';
 import testSignatureRoutes from './testSignature';
 import landlordRegistrationRoutes from './landlordRegistration';
+import searchRoutes from '../../modules/search/search.routes';
 
 const router = express.Router();
 
@@ -33,6 +34,7 @@ router.use('/payment', paymentRoutes);
 router.use('/signatures', signatureRoutes);
 router.use('/test', testSignatureRoutes);
 router.use('/landlord-registration', landlordRegistrationRoutes);
+router.use('/search', searchRoutes);
 
 router.get('/', (req, res) => {
   res.json({
@@ -55,6 +57,7 @@ router.get('/', (req, res) => {
       payment: '/api/v1/m/payment',
       signatures: '/api/v1/m/signatures',
       landlordRegistration: '/api/v1/m/landlord-registration',
+      search: '/api/v1/m/search',
     },
   });
 });
@@ -1,6 +1,6 @@
 import express from 'express';
 import { body } from 'express-validator';
-import { auth } from '../../middleware/auth';
+import { auth, requireVerifiedEmail } from '../../middleware/auth';
 import landlordRegistrationController from '../../modules/landlordRegistration/landlordRegistration.controller';
 
 const router = express.Router();
@@ -60,16 +60,16 @@ const router = express.Router();
  *                 example: "Bank BCA"
  *               identityCardUrl:
  *                 type: string
- *                 format: uri
- *                 example: "https://storage.com/id-card.jpg"
+ *                 description: Key of a file uploaded to the landlord-documents folder
+ *                 example: "rentverse/landlord-documents/3f1c9e7a-1712345678901.jpg"
  *               businessLicenseUrl:
  *                 type: string
- *                 format: uri
- *                 example: "https://storage.com/license.jpg"
+ *                 description: Key of a file uploaded to the landlord-documents folder
+ *                 example: "rentverse/landlord-documents/3f1c9e7a-1712345678901.jpg"
  *               taxDocumentUrl:
  *                 type: string
- *                 format: uri
- *                 example: "https://storage.com/tax-doc.jpg"
+ *                 description: Key of a file uploaded to the landlord-documents folder
+ *                 example: "rentverse/landlord-documents/3f1c9e7a-1712345678901.jpg"
  *     responses:
  *       201:
  *         description: Registration submitted successfully
@@ -77,10 +77,13 @@ const router = express.Router();
  *         description: Validation error or already has pending registration
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Email address not verified
  */
 router.post(
   '/register',
   auth,
+  requireVerifiedEmail,
   [
     body('businessName').notEmpty().withMessage('Business name is required'),
     body('businessType').notEmpty().withMessage('Business type is required'),
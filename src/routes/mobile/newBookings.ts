@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { auth } from '../../middleware/auth';
+import { auth, requireVerifiedEmail } from '../../middleware/auth';
 import BookingController from '../../modules/newBookings/booking.controller';
 
 const router = Router();
@@ -8,7 +8,7 @@ const router = Router();
 router.post('/check-availability', BookingController.checkAvailability);
 
 // Create new booking
-router.post('/create', auth, BookingController.createBooking);
+router.post('/create', auth, requireVerifiedEmail, BookingController.createBooking);
 
 // Process installment payment
 router.post('/pay-installment', auth, BookingController.processInstallmentPayment);
@@ -1,18 +1,33 @@
 import express from 'express';
 import { auth } from '../../middleware/auth';
+import { optionalAuth } from '../../middleware/optionalAuth';
 import propertiesController from '../../modules/properties/properties.controller';
 
 const router = express.Router();
-router.get('/nearby', async (req, res) => {
+router.get('/nearby', optionalAuth, async (req, res) => {
   const propertyInteractionsController = (
     await import('../../modules/properties/propertyInteractions.controller')
   ).default;
   return propertyInteractionsController.getNearbyProperties(req, res);
 });
 
-router.get('/', propertiesController.getAllProperties);
+router.get('/bounds', optionalAuth, async (req, res) => {
+  const propertyInteractionsController = (
+    await import('../../modules/properties/propertyInteractions.controller')
+  ).default;
+  return propertyInteractionsController.getPropertiesInBounds(req, res);
+});
+
+router.get('/map', async (req, res) => {
+  const propertyInteractionsController = (
+    await import('../../modules/properties/propertyInteractions.controller')
+  ).default;
+  return propertyInteractionsController.getMapClusters(req, res);
+});
+
+router.get('/', optionalAuth, propertiesController.getAllProperties);
 
-router.get('/:id', propertiesController.getPropertyById);
+router.get('/:id', optionalAuth, propertiesController.getPropertyById);
 
 router.post('/:id/favorite', auth, async (req, res) => {
   const propertyInteractionsController = (
@@ -38,11 +53,4 @@ router.post('/:id/rate', auth, async (req, res) => {
   return propertyInteractionsController.rateProperty(req, res);
 });
 
-router.get('/nearby', async (req, res) => {
-  const propertyInteractionsController = (
-    await import('../../modules/properties/propertyInteractions.controller')
-  ).default;
-  return propertyInteractionsController.getNearbyProperties(req, res);
-});
-
 export default router;
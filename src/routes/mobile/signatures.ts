@@ -1,6 +1,7 @@
 import express from 'express';
 import multer from 'multer';
 import { auth } from '../../middleware/auth';
+import { inspectUploads } from '../../middleware/uploadInspection';
 import fileUploadService from '../../utils/fileUpload';
 import { db } from '../../config/database';
 import { sql } from 'drizzle-orm';
@@ -10,6 +11,9 @@ const router = express.Router();
 // Configure multer for signature uploads
 const upload = multer({
   storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.MAX_SIGNATURE_FILE_SIZE || '2097152'), // 2MB
+  },
   fileFilter: (req, file, cb) => {
     if (file.mimetype.startsWith('image/')) {
       cb(null, true);
@@ -20,7 +24,7 @@ const upload = multer({
 });
 
 // Upload signature
-router.post('/upload', auth, upload.single('signature'), async (req, res) => {
+router.post('/upload', auth, upload.single('signature'), inspectUploads, async (req, res) => {
   try {
     const userId = req.user?.id;
     if (!userId) {
@@ -60,7 +64,7 @@ router.post('/upload', auth, upload.single('signature'), async (req, res) => {
     console.log('Saving to database for user:', userId);
     await db.execute(sql`
       INSERT INTO user_signatures ("userId", "signatureUrl", "fileName", "isActive") 
-      VALUES (${userId}, ${result.url}, ${req.file.originalname}, true)
+      VALUES (${userId}, ${result.key}, ${req.file.originalname}, true)
     `);
     console.log('Database insert completed');
 
@@ -90,7 +94,8 @@ router.post('/upload', auth, upload.single('signature'), async (req, res) => {
       message: 'Signature uploaded successfully',
       data: {
         id: signature.id,
-        signatureUrl: signature.signatureUrl,
+        // Signatures are private; this link expires shortly
+        signatureUrl: result.url,
         fileName: signature.fileName,
         createdAt: signature.createdAt,
       }
@@ -134,11 +139,14 @@ router.get('/', auth, async (req, res) => {
       });
     }
 
+    const { url: signatureUrl, expiresAt } = await fileUploadService.getDownloadUrl(signature.signatureUrl);
+
     res.json({
       success: true,
       data: {
         id: signature.id,
-        signatureUrl: signature.signatureUrl,
+        signatureUrl,
+        expiresAt,
         fileName: signature.fileName,
         createdAt: signature.createdAt,
       }
@@ -185,10 +193,10 @@ router.delete('/:signatureId', auth, async (req, res) => {
     }
 
     // Delete from storage
-    const fileName = signature.signatureUrl.split('/').pop();
-    if (fileName) {
+    const filePath = fileUploadService.getStoragePath(signature.signatureUrl);
+    if (filePath) {
       try {
-        await fileUploadService.deleteFile(fileName);
+        await fileUploadService.deleteFile(filePath);
       } catch (error) {
         console.log('File delete error (continuing):', error);
       }
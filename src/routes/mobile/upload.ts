@@ -1,7 +1,9 @@
 import express from 'express';
 import multer from 'multer';
 import { auth } from '../../middleware/auth';
+import { inspectUploads } from '../../middleware/uploadInspection';
 import fileUploadService from '../../utils/fileUpload';
+import uploadsService from '../../services/uploads.service';
 
 const router = express.Router();
 
@@ -37,7 +39,7 @@ const upload = multer({
  *       401:
  *         description: Unauthorized
  */
-router.post('/single', auth, upload.single('file'), async (req, res) => {
+router.post('/single', auth, upload.single('file'), inspectUploads, async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({
@@ -47,6 +49,8 @@ router.post('/single', auth, upload.single('file'), async (req, res) => {
     }
 
     const result = await fileUploadService.uploadFile(req.file, 'mobile-uploads');
+    // Deleted later unless something attaches it
+    await uploadsService.register([result], req.user!.id);
 
     res.json({
       success: true,
@@ -87,7 +91,7 @@ router.post('/single', auth, upload.single('file'), async (req, res) => {
  *       401:
  *         description: Unauthorized
  */
-router.post('/multiple', auth, upload.array('files', 10), async (req, res) => {
+router.post('/multiple', auth, upload.array('files', 10), inspectUploads, async (req, res) => {
   try {
     const files = req.files as Express.Multer.File[];
     
@@ -103,6 +107,7 @@ router.post('/multiple', auth, upload.array('files', 10), async (req, res) => {
     );
     
     const results = await Promise.all(uploadPromises);
+    await uploadsService.register(results, req.user!.id);
 
     res.json({
       success: true,
@@ -117,7 +122,7 @@ router.post('/multiple', auth, upload.array('files', 10), async (req, res) => {
   }
 });
 
-router.post('/profile-picture', auth, upload.single('profilePicture'), async (req, res) => {
+router.post('/profile-picture', auth, upload.single('profilePicture'), inspectUploads, async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({
@@ -135,6 +140,8 @@ router.post('/profile-picture', auth, upload.single('profilePicture'), async (re
     }
 
     const result = await fileUploadService.uploadFile(req.file, 'profile-pictures');
+    // Kept once set as the profile picture through PUT /users/profile
+    await uploadsService.register([result], req.user!.id);
 
     res.json({
       success: true,
@@ -41,6 +41,10 @@ router.get('/profile', auth, usersController.getProfile);
  *                 type: string
  *               phone:
  *                 type: string
+ *               profilePicture:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Key or URL of a file uploaded to the profile-pictures folder, or null to remove it
  *     responses:
  *       200:
  *         description: Profile updated successfully
@@ -141,4 +145,103 @@ router.post('/change-password', auth, usersController.changePassword);
  */
 router.get('/bookings', auth, usersController.getUserBookings);
 
+/**
+ * @swagger
+ * /api/v1/m/users/sessions:
+ *   get:
+ *     summary: List my active sessions (Mobile)
+ *     description: Device name, platform, IP, user agent and last-seen time of every logged-in device. The session making the request is flagged as current.
+ *     tags: [Mobile - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *   delete:
+ *     summary: Log out all other sessions (Mobile)
+ *     tags: [Mobile - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/sessions', auth, usersController.getSessions);
+router.delete('/sessions', auth, usersController.revokeOtherSessions);
+
+/**
+ * @swagger
+ * /api/v1/m/users/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke one of my sessions (Mobile)
+ *     tags: [Mobile - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+router.delete('/sessions/:sessionId', auth, usersController.revokeSession);
+
+/**
+ * @swagger
+ * /api/v1/m/users/data-export:
+ *   get:
+ *     summary: Download a copy of my personal data (Mobile)
+ *     description: Profile, properties, bookings, installments, payment transactions, favorites, ratings, views, signatures, landlord registrations and links to stored files, as a JSON file.
+ *     tags: [Mobile - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Personal data export
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/data-export', auth, usersController.exportMyData);
+
+/**
+ * @swagger
+ * /api/v1/m/users/account:
+ *   delete:
+ *     summary: Delete my account and personal data (Mobile)
+ *     description: Personal data and uploaded documents are erased; bookings and payments are kept anonymized. Refused while bookings are in progress.
+ *     tags: [Mobile - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 description: Required if the account has a password
+ *               confirm:
+ *                 type: boolean
+ *                 description: Must be true for accounts without a password
+ *     responses:
+ *       200:
+ *         description: Account deleted
+ *       401:
+ *         description: Password is incorrect
+ *       409:
+ *         description: Bookings in progress
+ */
+router.delete('/account', auth, usersController.deleteMyAccount);
+
 export default router;
@@ -0,0 +1,102 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import type { TestDatabase } from '../test/testDatabase';
+
+vi.mock('../config/database', async () => {
+  const { createTestDatabase } = await import('../test/testDatabase');
+  return createTestDatabase();
+});
+
+const OWN_FILE = 'rentverse/uploads/own.png';
+const OTHER_FILE = 'rentverse/uploads/other.png';
+const ATTACHED_FILE = 'rentverse/uploads/attached.png';
+
+describe('DELETE /upload/delete', () => {
+  let deleteRoute: (req: Request, res: Response) => Promise<unknown>;
+  let fileUploadService: typeof import('../utils/fileUpload').default;
+  let owner: { id: string };
+
+  // Status and body of the response, for a request by the owner
+  const send = async (body: Record<string, unknown>) => {
+    const res = {
+      statusCode: 200,
+      body: undefined as unknown,
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json(data: unknown) {
+        this.body = data;
+        return this;
+      },
+    };
+    await deleteRoute(
+      { body, user: owner } as unknown as Request,
+      res as unknown as Response
+    );
+    return res;
+  };
+
+  beforeAll(async () => {
+    const { db, schema } = (await import(
+      '../config/database'
+    )) as unknown as TestDatabase;
+    let other: { id: string };
+    [owner, other] = await db
+      .insert(schema.users)
+      .values([
+        { email: 'owner@example.com', name: 'Owner', password: 'x' },
+        { email: 'other@example.com', name: 'Other', password: 'x' },
+      ])
+      .returning();
+
+    const uploadsService = (await import('../services/uploads.service'))
+      .default;
+    const file = (key: string) => ({ key, size: 1, mimetype: 'image/png' });
+    await uploadsService.register(
+      [file(OWN_FILE), file(ATTACHED_FILE)],
+      owner.id
+    );
+    await uploadsService.register([file(OTHER_FILE)], other.id);
+    await uploadsService.attach(
+      db,
+      [ATTACHED_FILE],
+      { type: 'user', id: owner.id },
+      owner.id
+    );
+
+    fileUploadService = (await import('../utils/fileUpload')).default;
+    const router = (await import('./upload')).default;
+    const layer = router.stack.find(item => item.route?.path === '/delete')!;
+    const handlers = layer.route!.stack;
+    deleteRoute = handlers[handlers.length - 1].handle as typeof deleteRoute;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ["someone else's upload", { filePath: OTHER_FILE }],
+    ['an upload in use', { filePath: ATTACHED_FILE }],
+    ['a file that was never uploaded', { filePath: 'rentverse/x/y.png' }],
+  ])('refuses to delete %s', async (_case, body) => {
+    const deleteFile = vi.spyOn(fileUploadService, 'deleteFile');
+
+    const res = await send(body);
+
+    expect(res.statusCode).toBe(403);
+    expect(deleteFile).not.toHaveBeenCalled();
+  });
+
+  it('deletes an unused upload of the caller, given by URL', async () => {
+    const deleteFile = vi
+      .spyOn(fileUploadService, 'deleteFile')
+      .mockResolvedValue({ success: true, message: 'Deleted', key: OWN_FILE });
+
+    const res = await send({ fileUrl: fileUploadService.getFileUrl(OWN_FILE) });
+
+    expect(res.statusCode).toBe(200);
+    expect(deleteFile).toHaveBeenCalledWith(OWN_FILE);
+  });
+});
@@ -1,7 +1,9 @@
 import express from 'express';
 import multer from 'multer';
 import { auth } from '../middleware/auth';
+import { inspectUploads } from '../middleware/uploadInspection';
 import fileUploadService from '../utils/fileUpload';
+import uploadsService from '../services/uploads.service';
 
 const router = express.Router();
 
@@ -42,6 +44,7 @@ const upload = multer({
  *               folder:
  *                 type: string
  *                 default: uploads
+ *                 description: Photos sent to `properties` or `profile-pictures` are stripped of metadata and get thumb, medium and large WebP variants
  *     responses:
  *       200:
  *         description: File uploaded successfully
@@ -49,8 +52,12 @@ const upload = multer({
  *         description: Invalid file or validation error
  *       401:
  *         description: Unauthorized
+ *       422:
+ *         description: Rejected by the malware scan and quarantined
+ *       503:
+ *         description: Malware scanner unavailable
  */
-router.post('/single', auth, upload.single('file'), async (req, res) => {
+router.post('/single', auth, upload.single('file'), inspectUploads, async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({
@@ -61,6 +68,8 @@ router.post('/single', auth, upload.single('file'), async (req, res) => {
 
     const folder = req.body.folder || 'uploads';
     const result = await fileUploadService.uploadFile(req.file, folder);
+    // Deleted later unless something attaches it
+    await uploadsService.register([result], req.user!.id);
 
     res.json({
       success: true,
@@ -106,8 +115,12 @@ router.post('/single', auth, upload.single('file'), async (req, res) => {
  *         description: Invalid files or validation error
  *       401:
  *         description: Unauthorized
+ *       422:
+ *         description: Rejected by the malware scan and quarantined
+ *       503:
+ *         description: Malware scanner unavailable
  */
-router.post('/multiple', auth, upload.array('files', 10), async (req, res) => {
+router.post('/multiple', auth, upload.array('files', 10), inspectUploads, async (req, res) => {
   try {
     if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
       return res.status(400).json({
@@ -118,6 +131,7 @@ router.post('/multiple', auth, upload.array('files', 10), async (req, res) => {
 
     const folder = req.body.folder || 'uploads';
     const results = await fileUploadService.uploadMultipleFiles(req.files, folder);
+    await uploadsService.register(results, req.user!.id);
 
     res.json({
       success: true,
@@ -159,11 +173,14 @@ router.post('/multiple', auth, upload.array('files', 10), async (req, res) => {
  *         description: Invalid request
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Not your upload, or in use
  */
 router.delete('/delete', auth, async (req, res) => {
   try {
     const { filePath, fileUrl } = req.body;
-    const pathToDelete = filePath || fileUrl;
+    const reference = filePath || fileUrl;
+    const pathToDelete = reference ? fileUploadService.getStoragePath(String(reference)) : null;
 
     if (!pathToDelete) {
       return res.status(400).json({
@@ -172,7 +189,17 @@ router.delete('/delete', auth, async (req, res) => {
       });
     }
 
+    // Only the uploader can delete a file, and only while nothing uses it
+    const upload = await uploadsService.find(pathToDelete);
+    if (!upload || upload.ownerId !== req.user!.id || upload.referencedByType) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied: You can only delete your own uploads that are not in use',
+      });
+    }
+
     const result = await fileUploadService.deleteFile(pathToDelete);
+    await uploadsService.forget([result.key]);
 
     res.json({
       success: true,
@@ -1,6 +1,6 @@
 import express from 'express';
 import { body } from 'express-validator';
-import { auth, authorize } from '../middleware/auth';
+import { auth, requirePermission } from '../middleware/auth';
 import usersController from '../modules/users/users.controller';
 
 const router = express.Router();
@@ -42,6 +42,10 @@ router.get('/profile', auth, usersController.getProfile);
  *                 type: string
  *               phone:
  *                 type: string
+ *               profilePicture:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Key or URL of a file uploaded to the profile-pictures folder, or null to remove it
  *     responses:
  *       200:
  *         description: Profile updated successfully
@@ -95,6 +99,327 @@ router.put(
  *       403:
  *         description: Forbidden - Admin access required
  */
-router.get('/', auth, authorize('ADMIN'), usersController.getAllUsers);
+router.get('/', auth, requirePermission('user:list'), usersController.getAllUsers);
+
+/**
+ * @swagger
+ * /api/v1/users/sessions:
+ *   get:
+ *     summary: List my active sessions
+ *     description: Device name, platform, IP, user agent and last-seen time of every logged-in device. The session making the request is flagged as current.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *   delete:
+ *     summary: Log out all other sessions
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/sessions', auth, usersController.getSessions);
+router.delete('/sessions', auth, usersController.revokeOtherSessions);
+
+/**
+ * @swagger
+ * /api/v1/users/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke one of my sessions
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+router.delete('/sessions/:sessionId', auth, usersController.revokeSession);
+
+/**
+ * @swagger
+ * /api/v1/users/data-export:
+ *   get:
+ *     summary: Download a copy of my personal data
+ *     description: Profile, properties, bookings, installments, payment transactions, favorites, ratings, views, signatures, landlord registrations and links to stored files, as a JSON file.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Personal data export
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/data-export', auth, usersController.exportMyData);
+
+/**
+ * @swagger
+ * /api/v1/users/account:
+ *   delete:
+ *     summary: Delete my account and personal data
+ *     description: Personal data and uploaded documents are erased; bookings and payments are kept anonymized. Refused while bookings are in progress.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 description: Required if the account has a password
+ *               confirm:
+ *                 type: boolean
+ *                 description: Must be true for accounts without a password
+ *     responses:
+ *       200:
+ *         description: Account deleted
+ *       401:
+ *         description: Password is incorrect
+ *       409:
+ *         description: Bookings in progress
+ */
+router.delete('/account', auth, usersController.deleteMyAccount);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/sessions:
+ *   get:
+ *     summary: List a user's active sessions (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get('/:id/sessions', auth, requirePermission('user:manage'), usersController.getUserSessions);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/force-logout:
+ *   post:
+ *     summary: Log a user out of every device (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: User not found
+ */
+router.post('/:id/force-logout', auth, requirePermission('user:manage'), usersController.forceLogout);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/overview:
+ *   get:
+ *     summary: Get a user's properties, bookings, payments and admin history (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User overview retrieved successfully
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: User not found
+ */
+router.get('/:id/overview', auth, requirePermission('user:manage'), usersController.getUserOverview);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/suspend:
+ *   post:
+ *     summary: Suspend a user and end all their sessions (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: User suspended
+ *       400:
+ *         description: Reason missing or trying to suspend yourself
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: Already suspended or the last active admin
+ */
+router.post('/:id/suspend', auth, requirePermission('user:manage'), usersController.suspendUser);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/reactivate:
+ *   post:
+ *     summary: Reactivate a suspended user (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: User reactivated
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User is not suspended
+ */
+router.post('/:id/reactivate', auth, requirePermission('user:manage'), usersController.reactivateUser);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/role:
+ *   put:
+ *     summary: Change a user's role (Admin only)
+ *     description: The user's sessions are ended so new tokens carry the new role. The last active admin cannot be demoted.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *               - reason
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [USER, ADMIN, HOST, LANDLORD]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         description: Invalid role or reason missing
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: Role unchanged or the last active admin
+ */
+router.put('/:id/role', auth, requirePermission('user:manage'), usersController.changeUserRole);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}:
+ *   delete:
+ *     summary: Delete a user by anonymizing their account (Admin only)
+ *     description: Personal data is removed and the account deactivated. Bookings and payments are kept and the user's listings are taken offline. Refused while the user has bookings in progress.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: User deleted
+ *       400:
+ *         description: Reason missing or trying to delete yourself
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User has active bookings or is the last active admin
+ */
+router.delete('/:id', auth, requirePermission('user:manage'), usersController.deleteUser);
 
 export default router;
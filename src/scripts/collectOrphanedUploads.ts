@@ -0,0 +1,45 @@
+import { connectDB, disconnectDB } from '../config/database';
+import uploadsService from '../services/uploads.service';
+
+const USAGE = 'Usage: npm run uploads:gc -- [--older-than <hours>] [--dry-run]';
+
+/**
+ * Delete uploads never attached to anything, for running from cron or a
+ * scheduled job instead of, or as well as, the server's own interval
+ */
+const main = async () => {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+
+  let olderThanHours: number | undefined;
+  const olderThanIndex = args.indexOf('--older-than');
+  if (olderThanIndex !== -1) {
+    olderThanHours = Number(args[olderThanIndex + 1]);
+    if (!Number.isFinite(olderThanHours) || olderThanHours < 0) {
+      console.error(USAGE);
+      process.exit(1);
+    }
+  }
+
+  await connectDB();
+  try {
+    const result = await uploadsService.collectOrphans({
+      olderThanHours,
+      dryRun,
+    });
+
+    console.log(
+      dryRun
+        ? `${result.keys.length} orphaned uploads from before ${result.cutoff.toISOString()} would be deleted:`
+        : `Deleted ${result.deleted} orphaned uploads from before ${result.cutoff.toISOString()}`
+    );
+    result.keys.forEach(key => console.log(`  ${key}`));
+  } finally {
+    await disconnectDB();
+  }
+};
+
+main().catch(error => {
+  console.error('❌ Orphaned upload collection failed:', error);
+  process.exit(1);
+});
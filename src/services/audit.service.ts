@@ -0,0 +1,148 @@
+import { Request } from 'express';
+import { and, count, desc, eq, gte, lte, SQL } from 'drizzle-orm';
+import { db } from '../config/database';
+import { auditEvents } from '../db/schema';
+
+// Never copied into a diff, even when they change
+const REDACTED_FIELDS = new Set([
+  'password',
+  'twoFactorSecret',
+  'tokenHash',
+  'codeHash',
+  'bankAccountNumber',
+]);
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventFilters {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+const normalize = (value: unknown) =>
+  value instanceof Date ? value.toISOString() : value;
+
+/**
+ * Fields of `after` that differ from `before`. Without a `before` every field
+ * of `after` counts as changed.
+ */
+export const diff = (
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges => {
+  const changes: AuditChanges = {};
+  const keys = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+
+  for (const key of keys) {
+    if (key === 'updatedAt') continue;
+
+    const from = normalize(before?.[key] ?? null);
+    const to = normalize(after?.[key] ?? null);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { from: '[redacted]', to: '[redacted]' }
+      : { from, to };
+  }
+
+  return changes;
+};
+
+class AuditService {
+  /**
+   * Record a change made while handling the request. The actor, IP and request
+   * id come from the request. A failed write is logged rather than thrown, as
+   * the change itself has already been made.
+   */
+  async record(req: Request, entry: AuditEntry): Promise<void> {
+    // Tells the request audit middleware this request is already covered
+    if (req.res) {
+      req.res.locals.auditRecorded = true;
+    }
+
+    const changes =
+      entry.before !== undefined || entry.after !== undefined
+        ? diff(entry.before, entry.after)
+        : null;
+
+    try {
+      await db.insert(auditEvents).values({
+        actorId: req.user?.id || null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId || null,
+        changes,
+        metadata: entry.metadata || null,
+        ipAddress: req.ip || null,
+        userAgent: req.header('User-Agent') || null,
+        requestId: req.requestId || null,
+      });
+    } catch (error) {
+      console.error('Record audit event error:', { entry, error });
+    }
+  }
+
+  /**
+   * Newest first, with optional filters and pagination
+   */
+  async list(filters: AuditEventFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const conditions: SQL[] = [];
+    if (filters.actorId)
+      conditions.push(eq(auditEvents.actorId, filters.actorId));
+    if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+    if (filters.entityType)
+      conditions.push(eq(auditEvents.entityType, filters.entityType));
+    if (filters.entityId)
+      conditions.push(eq(auditEvents.entityId, filters.entityId));
+    if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const events = await db
+      .select()
+      .from(auditEvents)
+      .where(where)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(auditEvents)
+      .where(where);
+
+    return {
+      events,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages: Math.ceil(totalResult.count / limit),
+      },
+    };
+  }
+}
+
+export default new AuditService();
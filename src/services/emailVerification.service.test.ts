@@ -0,0 +1,74 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import type { TestDatabase } from '../test/testDatabase';
+import type { User } from '../types';
+
+vi.mock('../config/database', async () => {
+  const { createTestDatabase } = await import('../test/testDatabase');
+  return createTestDatabase();
+});
+
+describe('EmailVerificationService', () => {
+  let database: TestDatabase;
+  let emailVerificationService: typeof import('./emailVerification.service').default;
+  let outbox: import('./mail.service').MemoryMailTransport;
+  let user: User;
+
+  beforeAll(async () => {
+    database = (await import('../config/database')) as unknown as TestDatabase;
+    const { db, schema } = database;
+    [user] = await db
+      .insert(schema.users)
+      .values({
+        email: 'victim@example.com',
+        firstName: '<a href="https://evil.example.com">Rentverse</a>',
+        name: 'Victim',
+        password: 'x',
+      })
+      .returning();
+
+    const mail = await import('./mail.service');
+    outbox = new mail.MemoryMailTransport();
+    mail.default.setTransport(outbox);
+    emailVerificationService = (await import('./emailVerification.service'))
+      .default;
+  });
+
+  beforeEach(() => {
+    outbox.clear();
+  });
+
+  it('escapes the name in the html part of the email', async () => {
+    await emailVerificationService.sendVerificationEmail(user);
+
+    const [message] = outbox.outbox;
+    expect(message.html).not.toContain('<a href="https://evil.example.com">');
+    expect(message.html).toContain(
+      'Hi &lt;a href=&quot;https://evil.example.com&quot;&gt;Rentverse&lt;/a&gt;,'
+    );
+  });
+
+  it('verifies the email with the token from the link', async () => {
+    await emailVerificationService.sendVerificationEmail(user);
+    const token = new URL(
+      outbox.outbox[0].text.match(/\S+verify-email\S+/)![0]
+    ).searchParams.get('token')!;
+
+    const verified = await emailVerificationService.verify(token);
+
+    expect(verified.verifiedAt).toBeInstanceOf(Date);
+  });
+
+  it('refuses a token issued for a previous email address', async () => {
+    const token = emailVerificationService.issueToken(user);
+    const { db, schema } = database;
+    await db
+      .update(schema.users)
+      .set({ email: 'changed@example.com' })
+      .where(eq(schema.users.id, user.id));
+
+    await expect(emailVerificationService.verify(token)).rejects.toThrow(
+      'Invalid verification token'
+    );
+  });
+});
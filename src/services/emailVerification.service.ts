@@ -0,0 +1,109 @@
+import jwt from 'jsonwebtoken';
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { users } from '../db/schema';
+import { User } from '../types';
+import mailService, { escapeHtml } from './mail.service';
+
+const TOKEN_PURPOSE = 'email_verification';
+
+interface VerificationSubject {
+  id: string;
+  email: string;
+  firstName?: string | null;
+}
+
+interface VerificationTokenPayload {
+  userId: string;
+  email: string;
+  purpose: string;
+}
+
+class EmailVerificationService {
+  private expiresIn = process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h';
+
+  /**
+   * Sign a verification token bound to the user's current email
+   */
+  issueToken(user: VerificationSubject): string {
+    const payload: VerificationTokenPayload = {
+      userId: user.id,
+      email: user.email,
+      purpose: TOKEN_PURPOSE,
+    };
+
+    return jwt.sign(payload, process.env.JWT_SECRET!, {
+      expiresIn: this.expiresIn,
+    } as jwt.SignOptions);
+  }
+
+  buildVerificationUrl(token: string): string {
+    const baseUrl =
+      process.env.EMAIL_VERIFICATION_URL ||
+      `${process.env.FRONTEND_URL || 'http://localhost:3000'}/verify-email`;
+
+    return `${baseUrl}?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Issue a fresh token and mail the verification link
+   */
+  async sendVerificationEmail(user: VerificationSubject): Promise<void> {
+    const url = this.buildVerificationUrl(this.issueToken(user));
+    const greeting = user.firstName ? `Hi ${user.firstName},` : 'Hi,';
+
+    await mailService.send({
+      to: user.email,
+      subject: 'Verify your Rentverse email address',
+      text: `${greeting}\n\nPlease confirm your email address by opening the link below:\n\n${url}\n\nThe link expires in ${this.expiresIn}. If you did not create a Rentverse account, you can ignore this email.`,
+      html: `<p>${escapeHtml(greeting)}</p><p>Please confirm your email address by clicking the link below:</p><p><a href="${escapeHtml(url)}">Verify email</a></p><p>The link expires in ${this.expiresIn}. If you did not create a Rentverse account, you can ignore this email.</p>`,
+    });
+  }
+
+  /**
+   * Verify a token and mark the user's email as verified
+   */
+  async verify(token: string): Promise<User> {
+    let payload: VerificationTokenPayload;
+    try {
+      payload = jwt.verify(
+        token,
+        process.env.JWT_SECRET!
+      ) as VerificationTokenPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new Error('Verification token expired');
+      }
+      throw new Error('Invalid verification token');
+    }
+
+    if (payload.purpose !== TOKEN_PURPOSE) {
+      throw new Error('Invalid verification token');
+    }
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, payload.userId))
+      .limit(1);
+
+    // A token issued for a previous email address does not verify the new one
+    if (!user || user.email !== payload.email) {
+      throw new Error('Invalid verification token');
+    }
+
+    if (user.verifiedAt) {
+      return user;
+    }
+
+    const [updated] = await db
+      .update(users)
+      .set({ verifiedAt: new Date(), updatedAt: new Date() })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    return updated;
+  }
+}
+
+export default new EmailVerificationService();
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { StaticJwksKeySource } from '../utils/jwks';
+import { GoogleIdTokenVerifier } from './googleIdToken.service';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+});
+
+const verifier = new GoogleIdTokenVerifier({
+  audiences: ['client-id'],
+  keySource: new StaticJwksKeySource([
+    { ...publicKey.export({ format: 'jwk' }), kid: 'test-key' },
+  ]),
+});
+
+const sign = (claims: object, options: jwt.SignOptions = {}) =>
+  jwt.sign(
+    { email: 'user@example.com', email_verified: true, ...claims },
+    privateKey,
+    {
+      algorithm: 'RS256',
+      keyid: 'test-key',
+      audience: 'client-id',
+      issuer: 'https://accounts.google.com',
+      subject: 'google-user',
+      expiresIn: '5m',
+      ...options,
+    }
+  );
+
+describe('GoogleIdTokenVerifier', () => {
+  it('accepts a token signed with a known key', async () => {
+    const claims = await verifier.verify(sign({}));
+
+    expect(claims).toMatchObject({
+      sub: 'google-user',
+      email: 'user@example.com',
+      email_verified: true,
+    });
+  });
+
+  it('rejects tokens for another audience', async () => {
+    await expect(
+      verifier.verify(sign({}, { audience: 'someone-else' }))
+    ).rejects.toThrow(/Invalid Google ID token: jwt audience invalid/);
+  });
+
+  it('rejects tokens signed with an unknown key', async () => {
+    await expect(
+      verifier.verify(sign({}, { keyid: 'other-key' }))
+    ).rejects.toThrow('Invalid Google ID token: unknown signing key');
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  JwksKeySource,
+  RemoteJwksKeySource,
+  verifyIdToken,
+} from '../utils/jwks';
+
+const GOOGLE_ISSUERS: [string, string] = [
+  'accounts.google.com',
+  'https://accounts.google.com',
+];
+
+export interface GoogleIdTokenClaims {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+}
+
+interface GoogleIdTokenVerifierOptions {
+  audiences?: string[];
+  keySource?: JwksKeySource;
+}
+
+export class GoogleIdTokenVerifier {
+  private audiences: string[];
+  private keySource: JwksKeySource;
+
+  constructor(options: GoogleIdTokenVerifierOptions = {}) {
+    this.audiences =
+      options.audiences ||
+      (process.env.GOOGLE_CLIENT_IDS || '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean);
+    this.keySource =
+      options.keySource ||
+      new RemoteJwksKeySource(
+        process.env.GOOGLE_JWKS_URI ||
+          'https://www.googleapis.com/oauth2/v3/certs'
+      );
+  }
+
+  /**
+   * Replace the key source, e.g. with a local key set in tests
+   */
+  setKeySource(keySource: JwksKeySource): void {
+    this.keySource = keySource;
+  }
+
+  /**
+   * Verify signature, audience, issuer and expiry of a Google ID token
+   */
+  async verify(idToken: string): Promise<GoogleIdTokenClaims> {
+    if (this.audiences.length === 0) {
+      throw new Error('Google sign-in is not configured');
+    }
+
+    const claims = await verifyIdToken(idToken, this.keySource, {
+      audiences: this.audiences,
+      issuers: GOOGLE_ISSUERS,
+      label: 'Google',
+    });
+
+    if (!claims.sub || !claims.email) {
+      throw new Error('Invalid Google ID token: missing subject or email');
+    }
+
+    return {
+      sub: claims.sub,
+      email: String(claims.email),
+      email_verified:
+        claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name,
+      given_name: claims.given_name,
+      family_name: claims.family_name,
+      picture: claims.picture,
+    };
+  }
+}
+
+export default new GoogleIdTokenVerifier();
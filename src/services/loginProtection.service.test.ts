@@ -0,0 +1,125 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import type { TestDatabase } from '../test/testDatabase';
+
+vi.mock('../config/database', async () => {
+  const { createTestDatabase } = await import('../test/testDatabase');
+  return createTestDatabase();
+});
+
+describe('LoginProtectionService', () => {
+  let database: TestDatabase;
+  let loginProtectionService: typeof import('./loginProtection.service').default;
+  let outbox: import('./mail.service').MemoryMailTransport;
+
+  const fail = async (email: string, times: number, ipAddress?: string) => {
+    for (let i = 0; i < times; i++) {
+      await loginProtectionService.recordFailure(email, { ipAddress });
+    }
+  };
+
+  beforeAll(async () => {
+    database = (await import('../config/database')) as unknown as TestDatabase;
+    const { db, schema } = database;
+    await db.insert(schema.users).values({
+      email: 'member@example.com',
+      firstName: 'Member',
+      name: 'Member',
+      password: 'x',
+    });
+
+    const mail = await import('./mail.service');
+    outbox = new mail.MemoryMailTransport();
+    mail.default.setTransport(outbox);
+    loginProtectionService = (await import('./loginProtection.service'))
+      .default;
+  });
+
+  beforeEach(async () => {
+    const { db, schema } = database;
+    await db.delete(schema.loginThrottles);
+    outbox.clear();
+  });
+
+  it('lets the first failed attempts through without delay', async () => {
+    await fail('member@example.com', 2);
+
+    expect(
+      await loginProtectionService.checkAllowed('member@example.com')
+    ).toBeNull();
+  });
+
+  it('delays further attempts once failures pile up', async () => {
+    await fail('Member@Example.com', 3);
+
+    expect(
+      await loginProtectionService.checkAllowed('member@example.com')
+    ).toEqual({ reason: 'ACCOUNT_THROTTLED', retryAfterSeconds: 1 });
+  });
+
+  it('locks the account and emails an unlock link that works once', async () => {
+    const { db, schema } = database;
+    await fail('member@example.com', 10);
+
+    const block =
+      await loginProtectionService.checkAllowed('member@example.com');
+    expect(block?.reason).toBe('ACCOUNT_LOCKED');
+    expect(block?.retryAfterSeconds).toBeGreaterThan(14 * 60);
+
+    const [locked] = await db
+      .select()
+      .from(schema.securityEvents)
+      .where(
+        and(
+          eq(schema.securityEvents.type, 'ACCOUNT_LOCKED'),
+          eq(schema.securityEvents.email, 'member@example.com')
+        )
+      );
+    expect(locked).toBeDefined();
+
+    expect(outbox.outbox).toHaveLength(1);
+    const token = new URL(
+      outbox.outbox[0].text.match(/\S+unlock-account\S+/)![0]
+    ).searchParams.get('token')!;
+
+    await loginProtectionService.unlockWithToken(token);
+    expect(
+      await loginProtectionService.checkAllowed('member@example.com')
+    ).toBeNull();
+    await expect(loginProtectionService.unlockWithToken(token)).rejects.toThrow(
+      'Invalid or expired unlock token'
+    );
+  });
+
+  it('locks unknown emails like real ones, without sending mail', async () => {
+    await fail('nobody@example.com', 10);
+
+    expect(
+      (await loginProtectionService.checkAllowed('nobody@example.com'))?.reason
+    ).toBe('ACCOUNT_LOCKED');
+    expect(outbox.outbox).toHaveLength(0);
+  });
+
+  it('clears the account on success but keeps counting the IP', async () => {
+    await fail('member@example.com', 3, '198.51.100.7');
+    await loginProtectionService.recordSuccess('member@example.com');
+
+    expect(
+      await loginProtectionService.checkAllowed('member@example.com', {
+        ipAddress: '198.51.100.7',
+      })
+    ).toBeNull();
+
+    // Spread over many accounts, the IP itself gets throttled
+    for (let i = 0; i < 17; i++) {
+      await fail(`user${i}@example.com`, 1, '198.51.100.7');
+    }
+    expect(
+      (
+        await loginProtectionService.checkAllowed('member@example.com', {
+          ipAddress: '198.51.100.7',
+        })
+      )?.reason
+    ).toBe('IP_THROTTLED');
+  });
+});
@@ -0,0 +1,392 @@
+import jwt from 'jsonwebtoken';
+import { eq, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { loginThrottles, users } from '../db/schema';
+import { LoginThrottle } from '../types';
+import mailService, { escapeHtml } from './mail.service';
+import securityEventsService from './securityEvents.service';
+
+const UNLOCK_PURPOSE = 'account_unlock';
+
+export interface LoginAttemptContext {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Why a login attempt is refused, and for how long
+ */
+export interface LoginBlock {
+  reason:
+    | 'ACCOUNT_LOCKED'
+    | 'ACCOUNT_THROTTLED'
+    | 'IP_BLOCKED'
+    | 'IP_THROTTLED';
+  retryAfterSeconds: number;
+}
+
+interface ThrottleLimits {
+  delayAfter: number;
+  lockAfter: number;
+  lockMinutes: number;
+}
+
+interface UnlockTokenPayload {
+  key: string;
+  lockedUntil: number;
+  purpose: string;
+}
+
+const envInt = (name: string, fallback: number) =>
+  parseInt(process.env[name] || String(fallback));
+
+/**
+ * Failed-login tracking per account and per IP.
+ * Past `delayAfter` failures each further attempt must wait an exponentially
+ * growing delay; at `lockAfter` failures the key is locked for `lockMinutes`.
+ * Accounts are keyed by email, so unknown emails behave like real ones.
+ */
+class LoginProtectionService {
+  private windowMinutes = envInt('LOGIN_FAILURE_WINDOW_MINUTES', 15);
+  private maxDelaySeconds = envInt('LOGIN_MAX_DELAY_SECONDS', 60);
+
+  private accountLimits: ThrottleLimits = {
+    delayAfter: envInt('LOGIN_ACCOUNT_DELAY_AFTER', 3),
+    lockAfter: envInt('LOGIN_ACCOUNT_LOCKOUT_THRESHOLD', 10),
+    lockMinutes: envInt('LOGIN_ACCOUNT_LOCKOUT_MINUTES', 15),
+  };
+
+  // Much looser, so many users behind one NAT do not lock each other out
+  private ipLimits: ThrottleLimits = {
+    delayAfter: envInt('LOGIN_IP_DELAY_AFTER', 20),
+    lockAfter: envInt('LOGIN_IP_BLOCK_THRESHOLD', 100),
+    lockMinutes: envInt('LOGIN_IP_BLOCK_MINUTES', 15),
+  };
+
+  /**
+   * Throttle key of an account's failures, by its email
+   */
+  accountKey(email: string): string {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private ipKey(ipAddress: string): string {
+    return `ip:${ipAddress}`;
+  }
+
+  private async getThrottle(key: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await db
+      .select()
+      .from(loginThrottles)
+      .where(eq(loginThrottles.key, key))
+      .limit(1);
+    return throttle;
+  }
+
+  private secondsUntil(date: Date | null, now: Date): number {
+    return date && date > now
+      ? Math.ceil((date.getTime() - now.getTime()) / 1000)
+      : 0;
+  }
+
+  describeBlock(block: LoginBlock): string {
+    return block.reason === 'ACCOUNT_LOCKED'
+      ? 'Account temporarily locked after too many failed login attempts. Check your email to unlock it or try again later.'
+      : 'Too many failed login attempts. Please try again later.';
+  }
+
+  /**
+   * Returns why the attempt must be refused, or null if it may proceed
+   */
+  async checkAllowed(
+    email: string,
+    context: LoginAttemptContext = {}
+  ): Promise<LoginBlock | null> {
+    const now = new Date();
+
+    const account = await this.getThrottle(this.accountKey(email));
+    if (account) {
+      const locked = this.secondsUntil(account.lockedUntil, now);
+      if (locked > 0) {
+        return { reason: 'ACCOUNT_LOCKED', retryAfterSeconds: locked };
+      }
+      const delayed = this.secondsUntil(account.delayUntil, now);
+      if (delayed > 0) {
+        return { reason: 'ACCOUNT_THROTTLED', retryAfterSeconds: delayed };
+      }
+    }
+
+    if (context.ipAddress) {
+      const ip = await this.getThrottle(this.ipKey(context.ipAddress));
+      if (ip) {
+        const blocked = this.secondsUntil(ip.lockedUntil, now);
+        if (blocked > 0) {
+          return { reason: 'IP_BLOCKED', retryAfterSeconds: blocked };
+        }
+        const delayed = this.secondsUntil(ip.delayUntil, now);
+        if (delayed > 0) {
+          return { reason: 'IP_THROTTLED', retryAfterSeconds: delayed };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Count a failed attempt against the account and the IP, locking either when its threshold is hit
+   */
+  async recordFailure(
+    email: string,
+    context: LoginAttemptContext = {}
+  ): Promise<void> {
+    const account = await this.registerFailure(
+      this.accountKey(email),
+      this.accountLimits
+    );
+
+    if (account.newlyLocked) {
+      await this.onAccountLocked(email, account.throttle, context);
+    }
+
+    if (context.ipAddress) {
+      const ip = await this.registerFailure(
+        this.ipKey(context.ipAddress),
+        this.ipLimits
+      );
+
+      if (ip.newlyLocked) {
+        await securityEventsService.record({
+          type: 'IP_BLOCKED',
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          metadata: {
+            failureCount: ip.throttle.failureCount,
+            lockedUntil: ip.throttle.lockedUntil,
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * A successful login clears the account's failures. The IP counter is left
+   * to expire, so one valid account cannot reset it for an attacker.
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await db
+      .delete(loginThrottles)
+      .where(eq(loginThrottles.key, this.accountKey(email)));
+  }
+
+  /**
+   * Unlock with the token from the lockout email. The token only matches the
+   * lockout it was issued for, so it cannot be reused.
+   */
+  async unlockWithToken(token: string): Promise<void> {
+    let payload: UnlockTokenPayload;
+    try {
+      payload = jwt.verify(
+        token,
+        process.env.JWT_SECRET!
+      ) as UnlockTokenPayload;
+    } catch (error) {
+      throw new Error('Invalid or expired unlock token');
+    }
+
+    if (payload.purpose !== UNLOCK_PURPOSE) {
+      throw new Error('Invalid or expired unlock token');
+    }
+
+    const throttle = await this.getThrottle(payload.key);
+    if (
+      !throttle?.lockedUntil ||
+      throttle.lockedUntil.getTime() !== payload.lockedUntil
+    ) {
+      throw new Error('Invalid or expired unlock token');
+    }
+
+    await db.delete(loginThrottles).where(eq(loginThrottles.key, payload.key));
+
+    const email = payload.key.replace(/^account:/, '');
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.email, email))
+      .limit(1);
+
+    await securityEventsService.record({
+      type: 'ACCOUNT_UNLOCKED',
+      userId: user?.id,
+      email,
+      metadata: { method: 'EMAIL' },
+    });
+  }
+
+  /**
+   * Clear an account's failures and lockout (Admin)
+   */
+  async unlockAccount(userId: string, actorId: string): Promise<void> {
+    const [user] = await db
+      .select({ id: users.id, email: users.email })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    await db
+      .delete(loginThrottles)
+      .where(eq(loginThrottles.key, this.accountKey(user.email)));
+
+    await securityEventsService.record({
+      type: 'ACCOUNT_UNLOCKED',
+      userId: user.id,
+      email: user.email.toLowerCase(),
+      actorId,
+      metadata: { method: 'ADMIN' },
+    });
+  }
+
+  /**
+   * Clear an IP's failures and block (Admin)
+   */
+  async unlockIp(ipAddress: string, actorId: string): Promise<void> {
+    await db
+      .delete(loginThrottles)
+      .where(eq(loginThrottles.key, this.ipKey(ipAddress)));
+
+    await securityEventsService.record({
+      type: 'IP_UNLOCKED',
+      ipAddress,
+      actorId,
+      metadata: { method: 'ADMIN' },
+    });
+  }
+
+  /**
+   * Atomically bump the failure counter (restarting it once the window has
+   * passed) and work out the delay or lockout that applies
+   */
+  private async registerFailure(
+    key: string,
+    limits: ThrottleLimits
+  ): Promise<{ throttle: LoginThrottle; newlyLocked: boolean }> {
+    const now = new Date();
+    const windowStart = new Date(
+      now.getTime() - this.windowMinutes * 60 * 1000
+    );
+
+    const [throttle] = await db
+      .insert(loginThrottles)
+      .values({ key, failureCount: 1, lastFailureAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: {
+          failureCount: sql`CASE WHEN ${loginThrottles.lastFailureAt} < ${windowStart} THEN 1 ELSE ${loginThrottles.failureCount} + 1 END`,
+          lastFailureAt: now,
+          updatedAt: now,
+        },
+      })
+      .returning();
+
+    const failures = throttle.failureCount;
+
+    if (failures >= limits.lockAfter) {
+      const alreadyLocked =
+        !!throttle.lockedUntil && throttle.lockedUntil > now;
+      if (alreadyLocked) {
+        return { throttle, newlyLocked: false };
+      }
+
+      const [locked] = await db
+        .update(loginThrottles)
+        .set({
+          lockedUntil: new Date(now.getTime() + limits.lockMinutes * 60 * 1000),
+          delayUntil: null,
+          failureCount: 0,
+          updatedAt: now,
+        })
+        .where(eq(loginThrottles.key, key))
+        .returning();
+
+      return {
+        throttle: { ...locked, failureCount: failures },
+        newlyLocked: true,
+      };
+    }
+
+    if (failures >= limits.delayAfter) {
+      const delaySeconds = Math.min(
+        2 ** (failures - limits.delayAfter),
+        this.maxDelaySeconds
+      );
+
+      await db
+        .update(loginThrottles)
+        .set({ delayUntil: new Date(now.getTime() + delaySeconds * 1000) })
+        .where(eq(loginThrottles.key, key));
+    }
+
+    return { throttle, newlyLocked: false };
+  }
+
+  private async onAccountLocked(
+    email: string,
+    throttle: LoginThrottle,
+    context: LoginAttemptContext
+  ): Promise<void> {
+    const [user] = await db
+      .select({ id: users.id, email: users.email, firstName: users.firstName })
+      .from(users)
+      .where(eq(users.email, email))
+      .limit(1);
+
+    await securityEventsService.record({
+      type: 'ACCOUNT_LOCKED',
+      userId: user?.id,
+      email: email.trim().toLowerCase(),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: {
+        failureCount: throttle.failureCount,
+        lockedUntil: throttle.lockedUntil,
+      },
+    });
+
+    // Nobody to notify for unknown emails, but they are locked all the same
+    if (!user || !throttle.lockedUntil) {
+      return;
+    }
+
+    const payload: UnlockTokenPayload = {
+      key: this.accountKey(email),
+      lockedUntil: throttle.lockedUntil.getTime(),
+      purpose: UNLOCK_PURPOSE,
+    };
+    const token = jwt.sign(payload, process.env.JWT_SECRET!, {
+      expiresIn: `${this.accountLimits.lockMinutes}m`,
+    } as jwt.SignOptions);
+
+    const baseUrl =
+      process.env.ACCOUNT_UNLOCK_URL ||
+      `${process.env.FRONTEND_URL || 'http://localhost:3000'}/unlock-account`;
+    const url = `${baseUrl}?token=${encodeURIComponent(token)}`;
+    const greeting = user.firstName ? `Hi ${user.firstName},` : 'Hi,';
+
+    try {
+      await mailService.send({
+        to: user.email,
+        subject: 'Your Rentverse account has been temporarily locked',
+        text: `${greeting}\n\nWe locked your account for ${this.accountLimits.lockMinutes} minutes after too many failed login attempts. If this was you, you can unlock it now:\n\n${url}\n\nIf it was not you, consider resetting your password.`,
+        html: `<p>${escapeHtml(greeting)}</p><p>We locked your account for ${this.accountLimits.lockMinutes} minutes after too many failed login attempts. If this was you, you can unlock it now:</p><p><a href="${escapeHtml(url)}">Unlock my account</a></p><p>If it was not you, consider resetting your password.</p>`,
+      });
+    } catch (error) {
+      console.error('Send unlock email error:', error);
+    }
+  }
+}
+
+export default new LoginProtectionService();
@@ -0,0 +1,148 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape a value for the html part of a message. Names and other values
+ * users choose must go through this, or they could add links and markup.
+ */
+export const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, character => HTML_ESCAPES[character]);
+
+/**
+ * Delivers a fully addressed message
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * SMTP delivery for production
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required for the smtp mail transport');
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '587');
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE
+        ? process.env.SMTP_SECURE === 'true'
+        : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Writes each message as a JSON file, so links can be opened during local development
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private directory = process.env.MAIL_OUTBOX_DIR || 'tmp/mail-outbox'
+  ) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${randomUUID()}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt }, null, 2)
+    );
+
+    console.log(
+      `📧 Mail to ${message.to} written to ${path.join(this.directory, fileName)}`
+    );
+  }
+}
+
+/**
+ * Keeps messages in memory (tests)
+ */
+export class MemoryMailTransport implements MailTransport {
+  outbox: (MailMessage & { from: string })[] = [];
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.outbox.push(message);
+  }
+
+  clear(): void {
+    this.outbox = [];
+  }
+}
+
+/**
+ * Pick a transport from MAIL_TRANSPORT, defaulting to SMTP in production only
+ */
+function createTransportFromEnv(): MailTransport {
+  const transport =
+    process.env.MAIL_TRANSPORT ||
+    (process.env.NODE_ENV === 'production' ? 'smtp' : 'file');
+
+  switch (transport) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'memory':
+      return new MemoryMailTransport();
+    case 'file':
+      return new FileMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+class MailService {
+  private transport: MailTransport | null = null;
+  private from = process.env.MAIL_FROM || 'Rentverse <no-reply@rentverse.app>';
+
+  /**
+   * Replace the transport, e.g. with a MemoryMailTransport in tests
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  getTransport(): MailTransport {
+    // Created lazily so a missing SMTP config only fails when mail is sent
+    if (!this.transport) {
+      this.transport = createTransportFromEnv();
+    }
+    return this.transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.getTransport().send({ from: this.from, ...message });
+  }
+}
+
+export default new MailService();
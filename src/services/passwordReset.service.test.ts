@@ -0,0 +1,65 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { TestDatabase } from '../test/testDatabase';
+import type { MailTransport } from './mail.service';
+
+vi.mock('../config/database', async () => {
+  const { createTestDatabase } = await import('../test/testDatabase');
+  return createTestDatabase();
+});
+
+describe('PasswordResetService.requestReset', () => {
+  let passwordResetService: typeof import('./passwordReset.service').default;
+  let mailService: typeof import('./mail.service').default;
+  let outbox: import('./mail.service').MemoryMailTransport;
+
+  beforeAll(async () => {
+    const { db, schema } = (await import(
+      '../config/database'
+    )) as unknown as TestDatabase;
+    await db.insert(schema.users).values([
+      { email: 'member@example.com', name: 'Member', password: 'x' },
+      { email: 'other@example.com', name: 'Other', password: 'x' },
+    ]);
+
+    const mail = await import('./mail.service');
+    mailService = mail.default;
+    outbox = new mail.MemoryMailTransport();
+    passwordResetService = (await import('./passwordReset.service')).default;
+  });
+
+  afterEach(() => {
+    outbox.clear();
+    mailService.setTransport(outbox);
+    vi.restoreAllMocks();
+  });
+
+  it('emails a reset link to existing accounts only', async () => {
+    mailService.setTransport(outbox);
+
+    await passwordResetService.requestReset('member@example.com');
+    await passwordResetService.requestReset('nobody@example.com');
+
+    expect(outbox.outbox.map(message => message.to)).toEqual([
+      'member@example.com',
+    ]);
+    expect(outbox.outbox[0].text).toContain('reset-password?token=');
+  });
+
+  it('resolves the same way when the email cannot be delivered', async () => {
+    const failing: MailTransport = {
+      send: async () => {
+        throw new Error('SMTP connection refused');
+      },
+    };
+    mailService.setTransport(failing);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      passwordResetService.requestReset('other@example.com')
+    ).resolves.toBeUndefined();
+    await expect(
+      passwordResetService.requestReset('nobody@example.com')
+    ).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,170 @@
+import bcrypt from 'bcryptjs';
+import { createHash, randomBytes } from 'crypto';
+import { and, count, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '../config/database';
+import { passwordResetTokens, users } from '../db/schema';
+import mailService, { escapeHtml } from './mail.service';
+import tokenService from './token.service';
+
+interface ResetRequestOptions {
+  ip?: string;
+}
+
+class PasswordResetService {
+  private ttlMinutes = parseInt(
+    process.env.PASSWORD_RESET_EXPIRES_IN_MINUTES || '60'
+  );
+  private maxRequestsPerHour = parseInt(
+    process.env.PASSWORD_RESET_MAX_PER_HOUR || '3'
+  );
+
+  private hashToken(rawToken: string): string {
+    return createHash('sha256').update(rawToken).digest('hex');
+  }
+
+  buildResetUrl(rawToken: string): string {
+    const baseUrl =
+      process.env.PASSWORD_RESET_URL ||
+      `${process.env.FRONTEND_URL || 'http://localhost:3000'}/reset-password`;
+
+    return `${baseUrl}?token=${encodeURIComponent(rawToken)}`;
+  }
+
+  /**
+   * Email a reset link if the account exists.
+   * Resolves the same way for unknown emails, rate-limited requests and
+   * failed deliveries so callers cannot use it to discover registered
+   * addresses.
+   */
+  async requestReset(
+    email: string,
+    options: ResetRequestOptions = {}
+  ): Promise<void> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, email))
+      .limit(1);
+
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    const since = new Date(Date.now() - 60 * 60 * 1000);
+    const [recent] = await db
+      .select({ count: count() })
+      .from(passwordResetTokens)
+      .where(
+        and(
+          eq(passwordResetTokens.userId, user.id),
+          gt(passwordResetTokens.createdAt, since)
+        )
+      );
+
+    if (recent.count >= this.maxRequestsPerHour) {
+      console.warn(`Password reset rate limit reached for user ${user.id}`);
+      return;
+    }
+
+    const now = new Date();
+
+    // Only the most recent link stays usable
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(
+        and(
+          eq(passwordResetTokens.userId, user.id),
+          isNull(passwordResetTokens.usedAt)
+        )
+      );
+
+    const rawToken = randomBytes(32).toString('base64url');
+    await db.insert(passwordResetTokens).values({
+      userId: user.id,
+      tokenHash: this.hashToken(rawToken),
+      expiresAt: new Date(now.getTime() + this.ttlMinutes * 60 * 1000),
+      requestedIp: options.ip || null,
+      createdAt: now,
+    });
+
+    // Social-only accounts have no password yet and use the same link to set one
+    const action = user.password ? 'reset your password' : 'set a password';
+    const url = this.buildResetUrl(rawToken);
+    const greeting = user.firstName ? `Hi ${user.firstName},` : 'Hi,';
+
+    try {
+      await mailService.send({
+        to: user.email,
+        subject: 'Reset your Rentverse password',
+        text: `${greeting}\n\nWe received a request to ${action} for your Rentverse account. Open the link below to continue:\n\n${url}\n\nThe link expires in ${this.ttlMinutes} minutes and can only be used once. If you did not request this, you can ignore this email.`,
+        html: `<p>${escapeHtml(greeting)}</p><p>We received a request to ${action} for your Rentverse account.</p><p><a href="${escapeHtml(url)}">Choose a new password</a></p><p>The link expires in ${this.ttlMinutes} minutes and can only be used once. If you did not request this, you can ignore this email.</p>`,
+      });
+    } catch (error) {
+      // An error only for existing accounts would reveal them
+      console.error(`Password reset email to user ${user.id} failed:`, error);
+    }
+  }
+
+  /**
+   * Consume a reset token, set the new password and sign out every session
+   */
+  async resetPassword(rawToken: string, newPassword: string): Promise<void> {
+    const [stored] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, this.hashToken(rawToken)))
+      .limit(1);
+
+    if (!stored || stored.usedAt) {
+      throw new Error('Invalid reset token');
+    }
+
+    const now = new Date();
+    if (stored.expiresAt <= now) {
+      throw new Error('Reset token expired');
+    }
+
+    // Only one concurrent caller can consume the token
+    const [claimed] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(
+        and(
+          eq(passwordResetTokens.id, stored.id),
+          isNull(passwordResetTokens.usedAt)
+        )
+      )
+      .returning({ id: passwordResetTokens.id });
+
+    if (!claimed) {
+      throw new Error('Invalid reset token');
+    }
+
+    const [user] = await db
+      .select({ id: users.id, verifiedAt: users.verifiedAt })
+      .from(users)
+      .where(eq(users.id, stored.userId))
+      .limit(1);
+
+    if (!user) {
+      throw new Error('Invalid reset token');
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+
+    // Following the emailed link also proves ownership of the address
+    await db
+      .update(users)
+      .set({
+        password: hashedPassword,
+        verifiedAt: user.verifiedAt || now,
+        updatedAt: now,
+      })
+      .where(eq(users.id, user.id));
+
+    await tokenService.revokeAllSessions(user.id, 'PASSWORD_RESET');
+  }
+}
+
+export default new PasswordResetService();
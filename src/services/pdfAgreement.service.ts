@@ -31,7 +31,7 @@ export class PDFAgreementService {
             const pdfBuffer = Buffer.concat(chunks);
             const fileName = `rental_agreement_${booking.id}.pdf`;
             
-            // Upload to Supabase
+            // Upload to file storage
             const uploadResult = await fileUploadService.uploadPDFBuffer(
               pdfBuffer, 
               fileName, 
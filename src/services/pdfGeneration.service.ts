@@ -18,7 +18,7 @@ interface RentalAgreementData {
 
 class PDFGenerationService {
   /**
-   * Upload PDF buffer to Supabase Storage
+   * Upload PDF buffer to file storage
    */
   async uploadPDFToStorage(pdfBuffer: Buffer, fileName: string): Promise<any> {
     try {
@@ -28,7 +28,7 @@ class PDFGenerationService {
         'rental-agreements'
       );
 
-      console.log('✅ PDF uploaded successfully to Supabase');
+      console.log('✅ PDF uploaded successfully to storage');
 
       return {
         key: result.key,
@@ -38,7 +38,7 @@ class PDFGenerationService {
         bucket: result.bucket,
       };
     } catch (error) {
-      console.error('❌ Supabase PDF upload error:', error);
+      console.error('❌ PDF storage upload error:', error);
       throw error;
     }
   }
@@ -0,0 +1,203 @@
+import { desc, eq, inArray, or } from 'drizzle-orm';
+import { db } from '../config/database';
+import {
+  bookings,
+  installments,
+  landlordRegistrations,
+  paymentTransactions,
+  properties,
+  propertyFavorites,
+  propertyRatings,
+  propertyViews,
+  userSignatures,
+  users,
+} from '../db/schema';
+import { toPublicUser } from '../utils/publicUser';
+import fileUploadService from '../utils/fileUpload';
+
+export type StoredFileType =
+  | 'PROFILE_PICTURE'
+  | 'SIGNATURE'
+  | 'IDENTITY_CARD'
+  | 'BUSINESS_LICENSE'
+  | 'TAX_DOCUMENT'
+  | 'BOOKING_CONTRACT';
+
+export interface StoredFile {
+  type: StoredFileType;
+  // Storage key, or the URL of files stored before documents were private
+  url: string;
+}
+
+/**
+ * Files that belong to the person rather than to a financial record, and are
+ * removed when the account is erased
+ */
+export const PERSONAL_FILE_TYPES: StoredFileType[] = [
+  'PROFILE_PICTURE',
+  'SIGNATURE',
+  'IDENTITY_CARD',
+  'BUSINESS_LICENSE',
+  'TAX_DOCUMENT',
+];
+
+/**
+ * Collects everything stored about a user, for data export and erasure
+ */
+class PersonalDataService {
+  /**
+   * Every file the user uploaded or that was generated for them
+   */
+  async listStoredFiles(userId: string): Promise<StoredFile[]> {
+    const [user] = await db
+      .select({ profilePicture: users.profilePicture })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    const signatures = await db
+      .select({ url: userSignatures.signatureUrl })
+      .from(userSignatures)
+      .where(eq(userSignatures.userId, userId));
+
+    const registrations = await db
+      .select({
+        identityCardUrl: landlordRegistrations.identityCardUrl,
+        businessLicenseUrl: landlordRegistrations.businessLicenseUrl,
+        taxDocumentUrl: landlordRegistrations.taxDocumentUrl,
+      })
+      .from(landlordRegistrations)
+      .where(eq(landlordRegistrations.userId, userId));
+
+    const contracts = await db
+      .select({ url: bookings.contractPdfUrl })
+      .from(bookings)
+      .where(
+        or(eq(bookings.tenantId, userId), eq(bookings.landlordId, userId))
+      );
+
+    const files: StoredFile[] = [];
+    const add = (type: StoredFileType, url: string | null | undefined) => {
+      if (url) files.push({ type, url });
+    };
+
+    add('PROFILE_PICTURE', user?.profilePicture);
+    signatures.forEach(signature => add('SIGNATURE', signature.url));
+    registrations.forEach(registration => {
+      add('IDENTITY_CARD', registration.identityCardUrl);
+      add('BUSINESS_LICENSE', registration.businessLicenseUrl);
+      add('TAX_DOCUMENT', registration.taxDocumentUrl);
+    });
+    contracts.forEach(contract => add('BOOKING_CONTRACT', contract.url));
+
+    return files;
+  }
+
+  /**
+   * A copy of the user's personal data as one JSON document
+   */
+  async exportData(userId: string) {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const userBookings = await db
+      .select()
+      .from(bookings)
+      .where(or(eq(bookings.tenantId, userId), eq(bookings.landlordId, userId)))
+      .orderBy(desc(bookings.createdAt));
+
+    const bookingIds = userBookings.map(booking => booking.id);
+
+    const bookingInstallments = bookingIds.length
+      ? await db
+          .select()
+          .from(installments)
+          .where(inArray(installments.bookingId, bookingIds))
+          .orderBy(installments.bookingId, installments.installmentNumber)
+      : [];
+
+    const transactions = bookingIds.length
+      ? await db
+          .select()
+          .from(paymentTransactions)
+          .where(inArray(paymentTransactions.bookingId, bookingIds))
+          .orderBy(desc(paymentTransactions.createdAt))
+      : [];
+
+    const ownedProperties = await db
+      .select()
+      .from(properties)
+      .where(eq(properties.ownerId, userId))
+      .orderBy(desc(properties.createdAt));
+
+    const favorites = await db
+      .select({
+        propertyId: propertyFavorites.propertyId,
+        propertyTitle: properties.title,
+        favoritedAt: propertyFavorites.favoritedAt,
+      })
+      .from(propertyFavorites)
+      .leftJoin(properties, eq(propertyFavorites.propertyId, properties.id))
+      .where(eq(propertyFavorites.userId, userId))
+      .orderBy(desc(propertyFavorites.favoritedAt));
+
+    const ratings = await db
+      .select()
+      .from(propertyRatings)
+      .where(eq(propertyRatings.userId, userId))
+      .orderBy(desc(propertyRatings.ratedAt));
+
+    const views = await db
+      .select({
+        propertyId: propertyViews.propertyId,
+        ipAddress: propertyViews.ipAddress,
+        userAgent: propertyViews.userAgent,
+        viewedAt: propertyViews.viewedAt,
+      })
+      .from(propertyViews)
+      .where(eq(propertyViews.userId, userId))
+      .orderBy(desc(propertyViews.viewedAt));
+
+    const signatures = await db
+      .select()
+      .from(userSignatures)
+      .where(eq(userSignatures.userId, userId))
+      .orderBy(desc(userSignatures.createdAt));
+
+    const registrations = await db
+      .select()
+      .from(landlordRegistrations)
+      .where(eq(landlordRegistrations.userId, userId))
+      .orderBy(desc(landlordRegistrations.createdAt));
+
+    return {
+      exportedAt: new Date(),
+      profile: toPublicUser(user),
+      properties: ownedProperties,
+      bookings: userBookings,
+      installments: bookingInstallments,
+      paymentTransactions: transactions,
+      favorites,
+      ratings,
+      views,
+      signatures,
+      landlordRegistrations: registrations,
+      // Private documents get links that expire shortly
+      files: await Promise.all(
+        (await this.listStoredFiles(userId)).map(async file => ({
+          type: file.type,
+          ...(await fileUploadService.getDownloadUrl(file.url)),
+        }))
+      ),
+    };
+  }
+}
+
+export default new PersonalDataService();
@@ -0,0 +1,73 @@
+import net from 'net';
+import { MalwareScanner, ScanResult } from './malwareScanner';
+
+// clamd refuses streams above its StreamMaxLength, so send modest chunks
+const CHUNK_SIZE = 64 * 1024;
+
+export interface ClamAvOptions {
+  host: string;
+  port: number;
+  timeoutMs: number;
+}
+
+/**
+ * Streams files to a clamd daemon with the INSTREAM command
+ */
+export class ClamAvMalwareScanner implements MalwareScanner {
+  readonly name = 'clamav';
+
+  constructor(private options: ClamAvOptions) {}
+
+  scan(buffer: Buffer): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({
+        host: this.options.host,
+        port: this.options.port,
+      });
+      const chunks: Buffer[] = [];
+
+      socket.setTimeout(this.options.timeoutMs, () => {
+        socket.destroy(new Error('ClamAV scan timed out'));
+      });
+      socket.on('error', error => {
+        reject(new Error(`ClamAV scan failed: ${error.message}`));
+      });
+      socket.on('data', chunk => chunks.push(chunk));
+      socket.on('end', () => {
+        try {
+          resolve(this.parseReply(Buffer.concat(chunks).toString('utf8')));
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < buffer.length; offset += CHUNK_SIZE) {
+          const chunk = buffer.subarray(offset, offset + CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        // A zero-length chunk ends the stream
+        socket.end(Buffer.alloc(4));
+      });
+    });
+  }
+
+  // "stream: OK" or "stream: <signature> FOUND"
+  private parseReply(reply: string): ScanResult {
+    const message = reply.replace(/\0/g, '').trim();
+    if (message.endsWith('OK')) {
+      return { clean: true };
+    }
+
+    const found = /^stream: (.+) FOUND$/.exec(message);
+    if (found) {
+      return { clean: false, signature: found[1] };
+    }
+
+    throw new Error(`ClamAV scan failed: ${message || 'no reply'}`);
+  }
+}
@@ -0,0 +1,19 @@
+import { MalwareScanner } from './malwareScanner';
+
+// The standard antivirus test file, harmless but detected by every scanner
+export const EICAR_TEST_STRING =
+  'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Flags files containing the EICAR test string, so the quarantine path can
+ * be exercised in development and tests without a ClamAV daemon
+ */
+export class FakeMalwareScanner implements MalwareScanner {
+  readonly name = 'fake';
+
+  async scan(buffer: Buffer) {
+    return buffer.includes(EICAR_TEST_STRING)
+      ? { clean: false, signature: 'Eicar-Test-Signature' }
+      : { clean: true };
+  }
+}
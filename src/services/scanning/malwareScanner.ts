@@ -0,0 +1,15 @@
+export interface ScanResult {
+  clean: boolean;
+  // Name of what was found, when not clean
+  signature?: string;
+}
+
+/**
+ * Checks uploads for malware before they are stored. Scanners throw when
+ * they can't give a verdict, and the upload is then refused.
+ */
+export interface MalwareScanner {
+  readonly name: string;
+
+  scan(buffer: Buffer): Promise<ScanResult>;
+}
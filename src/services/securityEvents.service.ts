@@ -0,0 +1,81 @@
+import { and, count, desc, eq, gte, lte, SQL } from 'drizzle-orm';
+import { db } from '../config/database';
+import { securityEvents } from '../db/schema';
+import { NewSecurityEvent } from '../types';
+
+export type SecurityEventType =
+  | 'ACCOUNT_LOCKED'
+  | 'IP_BLOCKED'
+  | 'ACCOUNT_UNLOCKED'
+  | 'IP_UNLOCKED'
+  | 'USER_SUSPENDED'
+  | 'USER_REACTIVATED'
+  | 'USER_ROLE_CHANGED'
+  | 'USER_DELETED'
+  | 'UPLOAD_QUARANTINED';
+
+export interface SecurityEventFilters {
+  type?: string;
+  userId?: string;
+  email?: string;
+  ipAddress?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+class SecurityEventsService {
+  async record(
+    event: Omit<NewSecurityEvent, 'type'> & { type: SecurityEventType }
+  ): Promise<void> {
+    await db.insert(securityEvents).values(event);
+  }
+
+  /**
+   * Newest first, with optional filters and pagination
+   */
+  async list(filters: SecurityEventFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const conditions: SQL[] = [];
+    if (filters.type) conditions.push(eq(securityEvents.type, filters.type));
+    if (filters.userId)
+      conditions.push(eq(securityEvents.userId, filters.userId));
+    if (filters.email)
+      conditions.push(eq(securityEvents.email, filters.email.toLowerCase()));
+    if (filters.ipAddress)
+      conditions.push(eq(securityEvents.ipAddress, filters.ipAddress));
+    if (filters.from)
+      conditions.push(gte(securityEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(securityEvents.createdAt, filters.to));
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const events = await db
+      .select()
+      .from(securityEvents)
+      .where(where)
+      .orderBy(desc(securityEvents.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(securityEvents)
+      .where(where);
+
+    return {
+      events,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages: Math.ceil(totalResult.count / limit),
+      },
+    };
+  }
+}
+
+export default new SecurityEventsService();
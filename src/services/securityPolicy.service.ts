@@ -0,0 +1,82 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { appSettings, roleEnum } from '../db/schema';
+import { cache } from '../utils/cache';
+
+const TWO_FACTOR_REQUIRED_ROLES = 'security.twoFactorRequiredRoles';
+
+export type Role = (typeof roleEnum.enumValues)[number];
+
+class SecurityPolicyService {
+  /**
+   * Roles that must have 2FA enabled. The admin-managed setting wins over
+   * the TWO_FACTOR_REQUIRED_ROLES env default.
+   */
+  async getTwoFactorRequiredRoles(): Promise<Role[]> {
+    const cacheKey = `settings:${TWO_FACTOR_REQUIRED_ROLES}`;
+    const cached = cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const [setting] = await db
+      .select()
+      .from(appSettings)
+      .where(eq(appSettings.key, TWO_FACTOR_REQUIRED_ROLES))
+      .limit(1);
+
+    const roles = setting
+      ? (setting.value as Role[])
+      : this.parseRoles(process.env.TWO_FACTOR_REQUIRED_ROLES);
+
+    cache.set(cacheKey, roles);
+    return roles;
+  }
+
+  async setTwoFactorRequiredRoles(
+    roles: string[],
+    updatedById: string
+  ): Promise<Role[]> {
+    const invalid = roles.filter(
+      role => !roleEnum.enumValues.includes(role as Role)
+    );
+    if (invalid.length > 0) {
+      throw new Error(`Invalid role: ${invalid.join(', ')}`);
+    }
+
+    const value = [...new Set(roles)] as Role[];
+    const now = new Date();
+
+    await db
+      .insert(appSettings)
+      .values({
+        key: TWO_FACTOR_REQUIRED_ROLES,
+        value,
+        updatedById,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value, updatedById, updatedAt: now },
+      });
+
+    cache.set(`settings:${TWO_FACTOR_REQUIRED_ROLES}`, value);
+    return value;
+  }
+
+  async isTwoFactorRequired(role: string): Promise<boolean> {
+    const roles = await this.getTwoFactorRequiredRoles();
+    return roles.includes(role as Role);
+  }
+
+  private parseRoles(value: string | undefined): Role[] {
+    return (value || '')
+      .split(',')
+      .map(role => role.trim().toUpperCase())
+      .filter((role): role is Role =>
+        roleEnum.enumValues.includes(role as Role)
+      );
+  }
+}
+
+export default new SecurityPolicyService();
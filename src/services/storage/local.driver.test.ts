@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalStorageDriver } from './local.driver';
+
+const KEY = 'rentverse/signatures/signature.png';
+const PRIVATE_URL = 'http://localhost:3005/private-files';
+
+describe('LocalStorageDriver signed URLs', () => {
+  let dir: string;
+  let driver: LocalStorageDriver;
+
+  // Status of the response and the file sent, for a request to the URL
+  const request = async (url: string) => {
+    // Split by hand, as URL would resolve dot segments in the key
+    const [location, query] = url.split('?');
+    const key = location.slice(PRIVATE_URL.length + 1);
+    const res = {
+      statusCode: 200,
+      sent: undefined as string | undefined,
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json() {
+        return this;
+      },
+      set() {
+        return this;
+      },
+      sendFile(filePath: string) {
+        this.sent = filePath;
+      },
+    };
+    await driver.serveSigned(
+      {
+        params: { 0: key },
+        query: Object.fromEntries(new URLSearchParams(query)),
+      } as unknown as Request,
+      res as unknown as Response
+    );
+    return res;
+  };
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-driver-'));
+    driver = new LocalStorageDriver(
+      path.join(dir, 'public'),
+      path.join(dir, 'private'),
+      'http://localhost:3005',
+      'signing-secret'
+    );
+    await driver.upload(KEY, Buffer.from('png'), 'image/png', 'private');
+  });
+
+  afterAll(async () => {
+    vi.useRealTimers();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores private files outside the public root', async () => {
+    await expect(
+      fs.access(path.join(dir, 'private', KEY))
+    ).resolves.toBeUndefined();
+    await expect(fs.access(path.join(dir, 'public', KEY))).rejects.toThrow();
+  });
+
+  it('serves a private file to its signed URL', async () => {
+    const res = await request(await driver.getSignedUrl(KEY, 60));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.sent).toBe(path.join(dir, 'private', KEY));
+  });
+
+  it('refuses tampered and expired URLs', async () => {
+    const url = new URL(await driver.getSignedUrl(KEY, 60));
+
+    const otherFile = new URL(url);
+    otherFile.pathname = '/private-files/rentverse/signatures/other.png';
+    const longer = new URL(url);
+    longer.searchParams.set(
+      'expires',
+      String(Number(url.searchParams.get('expires')) + 3600)
+    );
+    const unsigned = new URL(url);
+    unsigned.searchParams.delete('signature');
+
+    for (const forged of [otherFile, longer, unsigned]) {
+      const res = await request(forged.toString());
+      expect(res.statusCode).toBe(403);
+      expect(res.sent).toBeUndefined();
+    }
+
+    vi.useFakeTimers({ now: Date.now() + 61 * 1000 });
+    const expired = await request(url.toString());
+    vi.useRealTimers();
+    expect(expired.statusCode).toBe(403);
+  });
+
+  it('never serves files outside the private root', async () => {
+    const res = await request(await driver.getSignedUrl('../public/x', 60));
+
+    expect(res.statusCode).toBe(404);
+    expect(res.sent).toBeUndefined();
+  });
+});
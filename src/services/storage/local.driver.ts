@@ -0,0 +1,117 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Request, Response } from 'express';
+import fs from 'fs/promises';
+import path from 'path';
+import { StorageDriver, Visibility } from './storageDriver';
+
+// Where the API serves files of the local driver
+export const LOCAL_FILES_ROUTE = '/files';
+export const LOCAL_PRIVATE_FILES_ROUTE = '/private-files';
+
+/**
+ * Files on the API server's disk, served by an Express static route. Meant
+ * for development and tests, which then need no network.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  readonly bucket = 'local';
+  readonly baseUrl: string;
+  readonly root: string;
+  private privateRoot: string;
+  private privateUrl: string;
+
+  /**
+   * Private files live outside the static root and are served by
+   * `serveSigned` to requests carrying a valid signature
+   */
+  constructor(
+    root: string,
+    privateRoot: string,
+    publicUrl: string,
+    private signingSecret: string
+  ) {
+    this.root = path.resolve(root);
+    this.privateRoot = path.resolve(privateRoot);
+    this.baseUrl = `${publicUrl.replace(/\/$/, '')}${LOCAL_FILES_ROUTE}`;
+    this.privateUrl = `${publicUrl.replace(/\/$/, '')}${LOCAL_PRIVATE_FILES_ROUTE}`;
+  }
+
+  // Keys come from clients on deletion, so never leave the root
+  private resolve(key: string, visibility: Visibility): string {
+    const root = visibility === 'private' ? this.privateRoot : this.root;
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private sign(key: string, expires: number) {
+    return createHmac('sha256', this.signingSecret)
+      .update(`${key}:${expires}`)
+      .digest('base64url');
+  }
+
+  async upload(
+    key: string,
+    body: Buffer,
+    contentType: string,
+    visibility: Visibility = 'public'
+  ) {
+    const filePath = this.resolve(key, visibility);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Fail like the other drivers instead of overwriting
+    await fs.writeFile(filePath, body, { flag: 'wx' });
+  }
+
+  async remove(keys: string[], visibility: Visibility = 'public') {
+    for (const key of keys) {
+      await fs.rm(this.resolve(key, visibility), { force: true });
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number) {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const query = new URLSearchParams({
+      expires: String(expires),
+      signature: this.sign(key, expires),
+    });
+    return `${this.privateUrl}/${key}?${query}`;
+  }
+
+  /**
+   * Send a private file to a request made with a URL from `getSignedUrl`
+   */
+  async serveSigned(req: Request, res: Response): Promise<void> {
+    // Mounted at `${LOCAL_PRIVATE_FILES_ROUTE}/*`
+    const key = req.params[0] || '';
+    const expires = Number(req.query.expires);
+    const signature = Buffer.from(String(req.query.signature || ''));
+    const expected = Buffer.from(this.sign(key, expires));
+
+    if (
+      !Number.isInteger(expires) ||
+      expires < Date.now() / 1000 ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(signature, expected)
+    ) {
+      res.status(403).json({
+        success: false,
+        error: 'Link is invalid or has expired',
+      });
+      return;
+    }
+
+    let filePath: string;
+    try {
+      filePath = this.resolve(key, 'private');
+      await fs.access(filePath);
+    } catch {
+      res.status(404).json({ success: false, error: 'File not found' });
+      return;
+    }
+
+    res.set('Cache-Control', 'private, no-store');
+    res.sendFile(filePath);
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { StorageDriver, Visibility } from './storageDriver';
+
+// DeleteObjects takes at most this many keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+export interface S3StorageOptions {
+  bucket: string;
+  // Without a bucket of their own, private objects share the public bucket,
+  // whose policy must then only allow public reads of the public folders
+  privateBucket?: string;
+  region: string;
+  // For S3-compatible services (MinIO, R2, Spaces); AWS when unset
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  // CDN or bucket website URL; derived from the endpoint when unset
+  publicUrl?: string;
+}
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  readonly bucket: string;
+  readonly baseUrl: string;
+  private privateBucket: string;
+  private client: S3Client;
+
+  constructor(options: S3StorageOptions) {
+    this.bucket = options.bucket;
+    this.privateBucket = options.privateBucket || options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined,
+    });
+
+    this.baseUrl = (
+      options.publicUrl ||
+      (options.endpoint
+        ? `${options.endpoint.replace(/\/$/, '')}/${options.bucket}`
+        : `https://${options.bucket}.s3.${options.region}.amazonaws.com`)
+    ).replace(/\/$/, '');
+  }
+
+  private bucketFor(visibility: Visibility) {
+    return visibility === 'private' ? this.privateBucket : this.bucket;
+  }
+
+  async upload(
+    key: string,
+    body: Buffer,
+    contentType: string,
+    visibility: Visibility = 'public'
+  ) {
+    try {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: this.bucketFor(visibility),
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        })
+      );
+    } catch (error) {
+      throw new Error(`S3 upload error: ${(error as Error).message}`);
+    }
+  }
+
+  async remove(keys: string[], visibility: Visibility = 'public') {
+    for (let start = 0; start < keys.length; start += DELETE_BATCH_SIZE) {
+      const batch = keys.slice(start, start + DELETE_BATCH_SIZE);
+      const result = await this.client
+        .send(
+          new DeleteObjectsCommand({
+            Bucket: this.bucketFor(visibility),
+            Delete: { Objects: batch.map(Key => ({ Key })), Quiet: true },
+          })
+        )
+        .catch(error => {
+          throw new Error(`S3 delete error: ${(error as Error).message}`);
+        });
+
+      if (result.Errors?.length) {
+        throw new Error(
+          `S3 delete error: ${result.Errors.map(item => `${item.Key}: ${item.Message}`).join('; ')}`
+        );
+      }
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number) {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.privateBucket, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Public objects are served from `${baseUrl}/${key}`. Private ones are kept
+ * apart and only reachable through short-lived signed URLs.
+ */
+export type Visibility = 'public' | 'private';
+
+/**
+ * Where uploaded files are kept. FileUploadService builds the keys, so
+ * drivers only store, serve and remove objects.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  readonly bucket: string;
+  readonly baseUrl: string;
+
+  upload(
+    key: string,
+    body: Buffer,
+    contentType: string,
+    visibility?: Visibility
+  ): Promise<void>;
+  // Keys that don't exist are ignored
+  remove(keys: string[], visibility?: Visibility): Promise<void>;
+  // A URL to read a private object until it expires
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
@@ -0,0 +1,63 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { StorageDriver, Visibility } from './storageDriver';
+
+export class SupabaseStorageDriver implements StorageDriver {
+  readonly name = 'supabase';
+  readonly baseUrl: string;
+  private client: SupabaseClient;
+
+  /**
+   * Private objects go to a separate bucket that is not public
+   */
+  constructor(
+    url: string,
+    key: string,
+    readonly bucket: string,
+    private privateBucket: string
+  ) {
+    this.client = createClient(url, key, {
+      auth: { persistSession: false },
+    });
+    this.baseUrl = `${url}/storage/v1/object/public/${bucket}`;
+  }
+
+  private bucketFor(visibility: Visibility) {
+    return visibility === 'private' ? this.privateBucket : this.bucket;
+  }
+
+  async upload(
+    key: string,
+    body: Buffer,
+    contentType: string,
+    visibility: Visibility = 'public'
+  ) {
+    const { error } = await this.client.storage
+      .from(this.bucketFor(visibility))
+      .upload(key, body, { contentType, upsert: false });
+
+    if (error) {
+      throw new Error(`Supabase upload error: ${error.message}`);
+    }
+  }
+
+  async remove(keys: string[], visibility: Visibility = 'public') {
+    const { error } = await this.client.storage
+      .from(this.bucketFor(visibility))
+      .remove(keys);
+
+    if (error) {
+      throw new Error(`Supabase delete error: ${error.message}`);
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number) {
+    const { data, error } = await this.client.storage
+      .from(this.privateBucket)
+      .createSignedUrl(key, expiresInSeconds);
+
+    if (error || !data) {
+      throw new Error(`Supabase signed URL error: ${error?.message}`);
+    }
+    return data.signedUrl;
+  }
+}
@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import jwt from 'jsonwebtoken';
+import type { TestDatabase } from '../test/testDatabase';
+import type { JwtPayload } from '../types';
+
+vi.mock('../config/database', async () => {
+  const { createTestDatabase } = await import('../test/testDatabase');
+  return createTestDatabase();
+});
+
+describe('TokenService', () => {
+  let database: TestDatabase;
+  let tokenService: typeof import('./token.service').default;
+  let user: { id: string; email: string; role: string };
+
+  const loadUser = async () => user;
+
+  beforeAll(async () => {
+    database = (await import('../config/database')) as unknown as TestDatabase;
+    const { db, schema } = database;
+    [user] = await db
+      .insert(schema.users)
+      .values({ email: 'mobile@example.com', name: 'Mobile', password: 'x' })
+      .returning();
+    tokenService = (await import('./token.service')).default;
+  });
+
+  const sessionOf = async (sessionId: string) => {
+    const { db, schema } = database;
+    const [session] = await db
+      .select()
+      .from(schema.userSessions)
+      .where(eq(schema.userSessions.id, sessionId));
+    return session;
+  };
+
+  it('rotates the refresh token within the same session', async () => {
+    const issued = await tokenService.issueTokens(user, { deviceId: 'a' });
+
+    const rotated = await tokenService.rotateRefreshToken(
+      issued.refreshToken,
+      loadUser
+    );
+
+    expect(rotated.sessionId).toBe(issued.sessionId);
+    expect(rotated.refreshToken).not.toBe(issued.refreshToken);
+    const payload = jwt.verify(
+      rotated.token,
+      process.env.JWT_SECRET!
+    ) as JwtPayload;
+    expect(payload.sessionId).toBe(issued.sessionId);
+    expect(await tokenService.isSessionActive(issued.sessionId)).toBe(true);
+  });
+
+  it('revokes the session when a rotated token is presented again', async () => {
+    const issued = await tokenService.issueTokens(user, { deviceId: 'b' });
+    const rotated = await tokenService.rotateRefreshToken(
+      issued.refreshToken,
+      loadUser
+    );
+
+    await expect(
+      tokenService.rotateRefreshToken(issued.refreshToken, loadUser)
+    ).rejects.toThrow('Refresh token reuse detected');
+
+    const session = await sessionOf(issued.sessionId);
+    expect(session.revokedReason).toBe('REFRESH_TOKEN_REUSE');
+    expect(await tokenService.isSessionActive(issued.sessionId)).toBe(false);
+    // The token the legitimate client holds stops working too
+    await expect(
+      tokenService.rotateRefreshToken(rotated.refreshToken, loadUser)
+    ).rejects.toThrow('Session has been revoked');
+  });
+
+  it('refuses unknown and expired refresh tokens', async () => {
+    await expect(
+      tokenService.rotateRefreshToken('not-a-token', loadUser)
+    ).rejects.toThrow('Invalid refresh token');
+
+    const issued = await tokenService.issueTokens(user, { deviceId: 'c' });
+    const { db, schema } = database;
+    await db
+      .update(schema.userSessions)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(eq(schema.userSessions.id, issued.sessionId));
+
+    await expect(
+      tokenService.rotateRefreshToken(issued.refreshToken, loadUser)
+    ).rejects.toThrow('Refresh token expired');
+  });
+
+  it('replaces the earlier session of the same device', async () => {
+    const first = await tokenService.issueTokens(user, { deviceId: 'd' });
+    const second = await tokenService.issueTokens(user, { deviceId: 'd' });
+
+    expect((await sessionOf(first.sessionId)).revokedReason).toBe('REPLACED');
+    expect(await tokenService.isSessionActive(second.sessionId)).toBe(true);
+    await expect(
+      tokenService.rotateRefreshToken(first.refreshToken, loadUser)
+    ).rejects.toThrow('Session has been revoked');
+  });
+});
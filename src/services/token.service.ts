@@ -0,0 +1,371 @@
+import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import { and, desc, eq, gt, isNull, ne } from 'drizzle-orm';
+import { db } from '../config/database';
+import { refreshTokens, userSessions } from '../db/schema';
+import { AuthTokens, JwtPayload } from '../types';
+
+interface TokenSubject {
+  id: string;
+  email: string;
+  role: string;
+}
+
+/**
+ * Device and client details recorded on a session
+ */
+export interface SessionContext {
+  deviceId?: string | null;
+  deviceName?: string | null;
+  platform?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+class TokenService {
+  private accessTokenExpiresIn: string;
+  private refreshTokenTtlDays: number;
+
+  constructor() {
+    this.accessTokenExpiresIn = process.env.ACCESS_TOKEN_EXPIRES_IN || '15m';
+    this.refreshTokenTtlDays = parseInt(
+      process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS || '30'
+    );
+  }
+
+  /**
+   * Hash a raw refresh token for storage and lookup
+   */
+  private hashToken(rawToken: string): string {
+    return createHash('sha256').update(rawToken).digest('hex');
+  }
+
+  private refreshTokenExpiry(): Date {
+    return new Date(
+      Date.now() + this.refreshTokenTtlDays * 24 * 60 * 60 * 1000
+    );
+  }
+
+  /**
+   * Sign a short-lived access token bound to a session
+   */
+  signAccessToken(user: TokenSubject, sessionId: string): string {
+    const payload: JwtPayload = {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId,
+    };
+
+    return jwt.sign(payload, process.env.JWT_SECRET!, {
+      expiresIn: this.accessTokenExpiresIn,
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Persist a new refresh token for a session and return the raw value
+   */
+  private async createRefreshToken(
+    sessionId: string,
+    userId: string,
+    expiresAt: Date
+  ): Promise<{ id: string; rawToken: string }> {
+    const rawToken = randomBytes(48).toString('base64url');
+
+    const [created] = await db
+      .insert(refreshTokens)
+      .values({
+        sessionId,
+        userId,
+        tokenHash: this.hashToken(rawToken),
+        expiresAt,
+      })
+      .returning({ id: refreshTokens.id });
+
+    return { id: created.id, rawToken };
+  }
+
+  /**
+   * Start a new session for a user and issue its first token pair.
+   * Any active session already registered for the same device is revoked.
+   */
+  async issueTokens(
+    user: TokenSubject,
+    context: SessionContext = {}
+  ): Promise<AuthTokens> {
+    const now = new Date();
+    const expiresAt = this.refreshTokenExpiry();
+
+    if (context.deviceId) {
+      await db
+        .update(userSessions)
+        .set({ revokedAt: now, revokedReason: 'REPLACED', updatedAt: now })
+        .where(
+          and(
+            eq(userSessions.userId, user.id),
+            eq(userSessions.deviceId, context.deviceId),
+            isNull(userSessions.revokedAt)
+          )
+        );
+    }
+
+    const [session] = await db
+      .insert(userSessions)
+      .values({
+        userId: user.id,
+        deviceId: context.deviceId || null,
+        deviceName: context.deviceName || null,
+        platform: context.platform || null,
+        ipAddress: context.ipAddress || null,
+        userAgent: context.userAgent || null,
+        lastSeenAt: now,
+        expiresAt,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    const { rawToken } = await this.createRefreshToken(
+      session.id,
+      user.id,
+      expiresAt
+    );
+
+    return {
+      token: this.signAccessToken(user, session.id),
+      refreshToken: rawToken,
+      expiresIn: this.accessTokenExpiresIn,
+      sessionId: session.id,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair.
+   * Presenting a token that was already rotated revokes the whole session.
+   */
+  async rotateRefreshToken(
+    rawToken: string,
+    loadUser: (userId: string) => Promise<TokenSubject | undefined>,
+    context: SessionContext = {}
+  ): Promise<AuthTokens> {
+    const [stored] = await db
+      .select({ token: refreshTokens, session: userSessions })
+      .from(refreshTokens)
+      .innerJoin(userSessions, eq(refreshTokens.sessionId, userSessions.id))
+      .where(eq(refreshTokens.tokenHash, this.hashToken(rawToken)))
+      .limit(1);
+
+    if (!stored) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const { token, session } = stored;
+    const now = new Date();
+
+    if (session.revokedAt) {
+      throw new Error('Session has been revoked');
+    }
+
+    if (token.rotatedAt) {
+      await this.revokeSession(session.id, 'REFRESH_TOKEN_REUSE');
+      throw new Error('Refresh token reuse detected');
+    }
+
+    if (token.expiresAt <= now || session.expiresAt <= now) {
+      throw new Error('Refresh token expired');
+    }
+
+    // Mark the token as used; only one concurrent caller can win this update
+    const [claimed] = await db
+      .update(refreshTokens)
+      .set({ rotatedAt: now })
+      .where(
+        and(eq(refreshTokens.id, token.id), isNull(refreshTokens.rotatedAt))
+      )
+      .returning({ id: refreshTokens.id });
+
+    if (!claimed) {
+      await this.revokeSession(session.id, 'REFRESH_TOKEN_REUSE');
+      throw new Error('Refresh token reuse detected');
+    }
+
+    const user = await loadUser(session.userId);
+    if (!user) {
+      await this.revokeSession(session.id, 'USER_NOT_FOUND');
+      throw new Error('Invalid refresh token');
+    }
+
+    const next = await this.createRefreshToken(
+      session.id,
+      session.userId,
+      session.expiresAt
+    );
+
+    await db
+      .update(refreshTokens)
+      .set({ replacedById: next.id })
+      .where(eq(refreshTokens.id, token.id));
+
+    await db
+      .update(userSessions)
+      .set({
+        ipAddress: context.ipAddress || session.ipAddress,
+        userAgent: context.userAgent || session.userAgent,
+        lastSeenAt: now,
+        updatedAt: now,
+      })
+      .where(eq(userSessions.id, session.id));
+
+    return {
+      token: this.signAccessToken(user, session.id),
+      refreshToken: next.rawToken,
+      expiresIn: this.accessTokenExpiresIn,
+      sessionId: session.id,
+    };
+  }
+
+  /**
+   * Resolve the session a refresh token belongs to
+   */
+  async findSessionIdByRefreshToken(rawToken: string): Promise<string | null> {
+    const [stored] = await db
+      .select({ sessionId: refreshTokens.sessionId })
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, this.hashToken(rawToken)))
+      .limit(1);
+
+    return stored?.sessionId || null;
+  }
+
+  /**
+   * Check whether a session exists, is not revoked and has not expired
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const [session] = await db
+      .select({ id: userSessions.id })
+      .from(userSessions)
+      .where(
+        and(
+          eq(userSessions.id, sessionId),
+          isNull(userSessions.revokedAt),
+          gt(userSessions.expiresAt, new Date())
+        )
+      )
+      .limit(1);
+
+    return !!session;
+  }
+
+  /**
+   * Revoke a single session (and with it every refresh token in its family)
+   */
+  async revokeSession(sessionId: string, reason = 'LOGOUT'): Promise<void> {
+    const now = new Date();
+
+    await db
+      .update(userSessions)
+      .set({ revokedAt: now, revokedReason: reason, updatedAt: now })
+      .where(
+        and(eq(userSessions.id, sessionId), isNull(userSessions.revokedAt))
+      );
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  async listActiveSessions(userId: string) {
+    return db
+      .select({
+        id: userSessions.id,
+        deviceId: userSessions.deviceId,
+        deviceName: userSessions.deviceName,
+        platform: userSessions.platform,
+        ipAddress: userSessions.ipAddress,
+        userAgent: userSessions.userAgent,
+        lastSeenAt: userSessions.lastSeenAt,
+        createdAt: userSessions.createdAt,
+        expiresAt: userSessions.expiresAt,
+      })
+      .from(userSessions)
+      .where(
+        and(
+          eq(userSessions.userId, userId),
+          isNull(userSessions.revokedAt),
+          gt(userSessions.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(userSessions.lastSeenAt));
+  }
+
+  /**
+   * Revoke one of the user's own sessions. Returns false if it is not theirs or already revoked.
+   */
+  async revokeUserSession(
+    userId: string,
+    sessionId: string,
+    reason = 'USER_REVOKED'
+  ): Promise<boolean> {
+    const now = new Date();
+
+    const revoked = await db
+      .update(userSessions)
+      .set({ revokedAt: now, revokedReason: reason, updatedAt: now })
+      .where(
+        and(
+          eq(userSessions.id, sessionId),
+          eq(userSessions.userId, userId),
+          isNull(userSessions.revokedAt)
+        )
+      )
+      .returning({ id: userSessions.id });
+
+    return revoked.length > 0;
+  }
+
+  /**
+   * Revoke every active session of a user except the current one
+   */
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId: string,
+    reason = 'USER_REVOKED'
+  ): Promise<number> {
+    const now = new Date();
+
+    const revoked = await db
+      .update(userSessions)
+      .set({ revokedAt: now, revokedReason: reason, updatedAt: now })
+      .where(
+        and(
+          eq(userSessions.userId, userId),
+          ne(userSessions.id, currentSessionId),
+          isNull(userSessions.revokedAt)
+        )
+      )
+      .returning({ id: userSessions.id });
+
+    return revoked.length;
+  }
+
+  /**
+   * Revoke every active session of a user
+   */
+  async revokeAllSessions(
+    userId: string,
+    reason = 'LOGOUT_ALL'
+  ): Promise<number> {
+    const now = new Date();
+
+    const revoked = await db
+      .update(userSessions)
+      .set({ revokedAt: now, revokedReason: reason, updatedAt: now })
+      .where(
+        and(eq(userSessions.userId, userId), isNull(userSessions.revokedAt))
+      )
+      .returning({ id: userSessions.id });
+
+    return revoked.length;
+  }
+}
+
+export default new TokenService();
@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import type { TestDatabase } from '../test/testDatabase';
+
+vi.mock('../config/database', async () => {
+  const { createTestDatabase } = await import('../test/testDatabase');
+  return createTestDatabase();
+});
+
+describe('UploadsService.attach', () => {
+  let database: TestDatabase;
+  let uploadsService: typeof import('./uploads.service').default;
+  let owner: { id: string };
+  let other: { id: string };
+
+  const referenceOf = async (key: string) => {
+    const { db, schema } = database;
+    const [upload] = await db
+      .select()
+      .from(schema.uploads)
+      .where(eq(schema.uploads.key, key));
+    return (
+      upload && { type: upload.referencedByType, id: upload.referencedById }
+    );
+  };
+
+  beforeAll(async () => {
+    database = (await import('../config/database')) as unknown as TestDatabase;
+    const { db, schema } = database;
+    [owner, other] = await db
+      .insert(schema.users)
+      .values([
+        { email: 'owner@example.com', name: 'Owner', password: 'x' },
+        { email: 'other@example.com', name: 'Other', password: 'x' },
+      ])
+      .returning();
+
+    uploadsService = (await import('./uploads.service')).default;
+    await uploadsService.register(
+      [
+        { key: 'rentverse/properties/a.jpg', size: 1, mimetype: 'image/jpeg' },
+        { key: 'rentverse/properties/b.jpg', size: 1, mimetype: 'image/jpeg' },
+      ],
+      owner.id
+    );
+  });
+
+  it("refuses someone else's upload and attaches none of the files", async () => {
+    await expect(
+      uploadsService.attach(
+        database.db,
+        ['rentverse/properties/a.jpg', 'rentverse/properties/b.jpg'],
+        { type: 'property', id: 'listing-1' },
+        other.id
+      )
+    ).rejects.toThrow('Access denied');
+
+    expect(await referenceOf('rentverse/properties/a.jpg')).toEqual({
+      type: null,
+      id: null,
+    });
+  });
+
+  it('refuses files that are not in the registry', async () => {
+    await expect(
+      uploadsService.attach(
+        database.db,
+        ['rentverse/properties/unknown.jpg'],
+        { type: 'property', id: 'listing-1' },
+        owner.id
+      )
+    ).rejects.toThrow('Access denied');
+  });
+
+  it("attaches the owner's files once, and again only to the same reference", async () => {
+    const reference = { type: 'property', id: 'listing-1' };
+    await uploadsService.attach(
+      database.db,
+      ['rentverse/properties/a.jpg'],
+      reference,
+      owner.id
+    );
+    expect(await referenceOf('rentverse/properties/a.jpg')).toEqual(reference);
+
+    // Saving the same listing again, e.g. by a moderator, keeps it attached
+    await uploadsService.attach(
+      database.db,
+      ['rentverse/properties/a.jpg'],
+      reference,
+      other.id
+    );
+
+    await expect(
+      uploadsService.attach(
+        database.db,
+        ['rentverse/properties/a.jpg'],
+        { type: 'property', id: 'listing-2' },
+        owner.id
+      )
+    ).rejects.toThrow('Access denied');
+    expect(await referenceOf('rentverse/properties/a.jpg')).toEqual(reference);
+  });
+});
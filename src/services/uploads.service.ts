@@ -0,0 +1,248 @@
+import { and, eq, inArray, isNull, lt, or } from 'drizzle-orm';
+import { db } from '../config/database';
+import { uploads } from '../db/schema';
+import fileUploadService from '../utils/fileUpload';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+// Attaching usually happens inside the transaction that saves the reference
+type Executor = typeof db | Transaction;
+
+// Unattached uploads are deleted once they are this old
+const ORPHAN_TTL_HOURS = parseInt(process.env.UPLOAD_ORPHAN_TTL_HOURS || '24');
+const COLLECT_BATCH_SIZE = 100;
+
+export interface UploadReference {
+  // What uses the file, e.g. 'property', 'user', 'landlord_registration'
+  type: string;
+  id: string;
+}
+
+export interface CollectOptions {
+  olderThanHours?: number;
+  // List what would be deleted without deleting it
+  dryRun?: boolean;
+}
+
+// Storage paths of stored references, skipping files stored elsewhere
+const toPaths = (references: (string | null | undefined)[]) => [
+  ...new Set(
+    references
+      .map(reference =>
+        reference ? fileUploadService.getStoragePath(reference) : null
+      )
+      .filter((path): path is string => !!path)
+  ),
+];
+
+/**
+ * Registry of files sent to the upload endpoints. Files start unattached
+ * and are attached when something saves a reference to them; those never
+ * attached are deleted by `collectOrphans`.
+ */
+class UploadsService {
+  /**
+   * Record freshly stored files as unattached
+   */
+  async register(
+    files: { key: string; size: number; mimetype: string }[],
+    ownerId: string
+  ): Promise<void> {
+    if (files.length === 0) {
+      return;
+    }
+
+    await db
+      .insert(uploads)
+      .values(
+        files.map(file => ({
+          ownerId,
+          key: file.key,
+          size: file.size,
+          mimetype: file.mimetype,
+        }))
+      )
+      .onConflictDoNothing();
+  }
+
+  /**
+   * The record of a stored file, if it was sent to the upload endpoints
+   */
+  async find(key: string) {
+    const [upload] = await db
+      .select()
+      .from(uploads)
+      .where(eq(uploads.key, key))
+      .limit(1);
+    return upload ?? null;
+  }
+
+  /**
+   * Mark files, by key or URL, as used by the reference so they are kept.
+   * Each file must be an unattached upload of the owner, or already used by
+   * the same reference; otherwise nothing is attached and this throws.
+   */
+  async attach(
+    executor: Executor,
+    references: (string | null | undefined)[],
+    reference: UploadReference,
+    ownerId: string
+  ): Promise<void> {
+    const paths = toPaths(references);
+    if (paths.length === 0) {
+      return;
+    }
+
+    const attached = await executor
+      .update(uploads)
+      .set({
+        referencedByType: reference.type,
+        referencedById: reference.id,
+        referencedAt: new Date(),
+      })
+      .where(
+        and(
+          inArray(uploads.key, paths),
+          or(
+            and(eq(uploads.ownerId, ownerId), isNull(uploads.referencedByType)),
+            and(
+              eq(uploads.referencedByType, reference.type),
+              eq(uploads.referencedById, reference.id)
+            )
+          )
+        )
+      )
+      .returning({ key: uploads.key });
+
+    if (attached.length < paths.length) {
+      throw new Error(
+        'Access denied: Files must be your own uploads and not already in use'
+      );
+    }
+  }
+
+  /**
+   * The storage paths, among those given, of files used by the reference
+   */
+  async filterReferencedBy(
+    executor: Executor,
+    paths: string[],
+    reference: UploadReference
+  ): Promise<string[]> {
+    if (paths.length === 0) {
+      return [];
+    }
+
+    const rows = await executor
+      .select({ key: uploads.key })
+      .from(uploads)
+      .where(
+        and(
+          inArray(uploads.key, [...new Set(paths)]),
+          eq(uploads.referencedByType, reference.type),
+          eq(uploads.referencedById, reference.id)
+        )
+      );
+    return rows.map(row => row.key);
+  }
+
+  /**
+   * Mark files as no longer used, so the next collection deletes them
+   */
+  async detach(
+    executor: Executor,
+    references: (string | null | undefined)[]
+  ): Promise<void> {
+    const paths = toPaths(references);
+    if (paths.length === 0) {
+      return;
+    }
+
+    await executor
+      .update(uploads)
+      .set({
+        referencedByType: null,
+        referencedById: null,
+        referencedAt: null,
+      })
+      .where(inArray(uploads.key, paths));
+  }
+
+  /**
+   * Drop the records of files that were deleted from storage
+   */
+  async forget(paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    await db.delete(uploads).where(inArray(uploads.key, [...new Set(paths)]));
+  }
+
+  /**
+   * Delete unattached files older than the TTL from storage, in batches.
+   * Records are only removed while still unattached, so a file attached
+   * meanwhile is kept.
+   */
+  async collectOrphans(options: CollectOptions = {}) {
+    const olderThanHours = options.olderThanHours ?? ORPHAN_TTL_HOURS;
+    const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
+    const orphaned = and(
+      isNull(uploads.referencedByType),
+      lt(uploads.createdAt, cutoff)
+    );
+
+    if (options.dryRun) {
+      const orphans = await db
+        .select({ key: uploads.key })
+        .from(uploads)
+        .where(orphaned);
+      return { deleted: 0, keys: orphans.map(orphan => orphan.key), cutoff };
+    }
+
+    const keys: string[] = [];
+    for (;;) {
+      const batch = await db
+        .select({ id: uploads.id })
+        .from(uploads)
+        .where(orphaned)
+        .limit(COLLECT_BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      // If storage fails the records come back, to retry next time
+      const removed = await db.transaction(async tx => {
+        const rows = await tx
+          .delete(uploads)
+          .where(
+            and(
+              inArray(
+                uploads.id,
+                batch.map(upload => upload.id)
+              ),
+              isNull(uploads.referencedByType)
+            )
+          )
+          .returning({ key: uploads.key });
+
+        if (rows.length > 0) {
+          await fileUploadService.deleteMultipleFiles(rows.map(row => row.key));
+        }
+        return rows.map(row => row.key);
+      });
+      keys.push(...removed);
+
+      if (batch.length < COLLECT_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (keys.length > 0) {
+      console.log(`🧹 Deleted ${keys.length} orphaned uploads`);
+    }
+
+    return { deleted: keys.length, keys, cutoff };
+  }
+}
+
+export default new UploadsService();
@@ -0,0 +1,218 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { eq, inArray } from 'drizzle-orm';
+import type { TestDatabase } from '../test/testDatabase';
+import type { User } from '../types';
+
+vi.mock('../config/database', async () => {
+  const { createTestDatabase } = await import('../test/testDatabase');
+  return createTestDatabase();
+});
+
+describe('UserManagementService', () => {
+  let database: TestDatabase;
+  let userManagementService: typeof import('./userManagement.service').default;
+  let tokenService: typeof import('./token.service').default;
+
+  const createUser = async (email: string, role: User['role'] = 'USER') => {
+    const { db, schema } = database;
+    const [user] = await db
+      .insert(schema.users)
+      .values({ email, name: email, password: 'x', role })
+      .returning();
+    return user;
+  };
+
+  beforeAll(async () => {
+    database = (await import('../config/database')) as unknown as TestDatabase;
+    userManagementService = (await import('./userManagement.service')).default;
+    tokenService = (await import('./token.service')).default;
+  });
+
+  describe('last admin guard', () => {
+    it('refuses to demote, suspend or delete the only active admin', async () => {
+      const admin = await createUser('only-admin@example.com', 'ADMIN');
+      const other = await createUser('staff@example.com');
+
+      await expect(
+        userManagementService.changeRole(admin.id, 'USER', other.id, 'test')
+      ).rejects.toThrow('Cannot remove the last active admin');
+      await expect(
+        userManagementService.suspend(admin.id, other.id, 'test')
+      ).rejects.toThrow('Cannot remove the last active admin');
+      await expect(
+        userManagementService.deleteUser(admin.id, other.id, 'test')
+      ).rejects.toThrow('Cannot remove the last active admin');
+
+      // With a second admin the first can step down
+      await userManagementService.changeRole(other.id, 'ADMIN', admin.id, 'x');
+      const demoted = await userManagementService.changeRole(
+        admin.id,
+        'USER',
+        other.id,
+        'test'
+      );
+      expect(demoted.role).toBe('USER');
+    });
+
+    it('does not count suspended admins', async () => {
+      const admin = await createUser('active-admin@example.com', 'ADMIN');
+      const suspended = await createUser(
+        'suspended-admin@example.com',
+        'ADMIN'
+      );
+      const other = await createUser('other-staff@example.com');
+      // Suspend every admin but one, including those of earlier tests
+      const { db, schema } = database;
+      await db
+        .update(schema.users)
+        .set({ isActive: false })
+        .where(eq(schema.users.role, 'ADMIN'));
+      await db
+        .update(schema.users)
+        .set({ isActive: true })
+        .where(eq(schema.users.id, admin.id));
+
+      await expect(
+        userManagementService.changeRole(admin.id, 'USER', other.id, 'test')
+      ).rejects.toThrow('Cannot remove the last active admin');
+
+      await userManagementService.reactivate(suspended.id, admin.id, 'back');
+      const demoted = await userManagementService.changeRole(
+        admin.id,
+        'USER',
+        other.id,
+        'test'
+      );
+      expect(demoted.role).toBe('USER');
+    });
+
+    it("refuses to act on the caller's own account", async () => {
+      const admin = await createUser('self@example.com', 'ADMIN');
+
+      await expect(
+        userManagementService.deleteUser(admin.id, admin.id, 'test')
+      ).rejects.toThrow('You cannot delete your own account');
+    });
+  });
+
+  describe('suspend and changeRole', () => {
+    it('end the sessions of the user', async () => {
+      const admin = await createUser('session-admin@example.com', 'ADMIN');
+      const user = await createUser('sessions@example.com');
+      const first = await tokenService.issueTokens(user, { deviceId: 'a' });
+      await tokenService.issueTokens(user, { deviceId: 'b' });
+
+      const { revokedSessions } = await userManagementService.suspend(
+        user.id,
+        admin.id,
+        'spam'
+      );
+      expect(revokedSessions).toBe(2);
+      expect(await tokenService.isSessionActive(first.sessionId)).toBe(false);
+      await expect(
+        userManagementService.suspend(user.id, admin.id, 'spam')
+      ).rejects.toThrow('User is already suspended');
+
+      await userManagementService.reactivate(user.id, admin.id, 'appeal');
+      const next = await tokenService.issueTokens(user);
+      await userManagementService.changeRole(user.id, 'HOST', admin.id, 'x');
+      expect(await tokenService.isSessionActive(next.sessionId)).toBe(false);
+    });
+  });
+
+  describe('eraseAccount', () => {
+    it('removes the email, IP addresses and devices from the account history', async () => {
+      const { db, schema } = database;
+      const user = await createUser('Erased@Example.com');
+      const now = new Date();
+
+      const recorded = await db
+        .insert(schema.securityEvents)
+        .values([
+          {
+            type: 'LOGIN_SUCCESS',
+            userId: user.id,
+            email: 'erased@example.com',
+            ipAddress: '203.0.113.1',
+            userAgent: 'Phone',
+          },
+          // Recorded before the user was known
+          {
+            type: 'LOGIN_FAILED',
+            email: 'erased@example.com',
+            ipAddress: '203.0.113.2',
+          },
+          {
+            type: 'USER_SUSPENDED',
+            actorId: user.id,
+            ipAddress: '203.0.113.3',
+            userAgent: 'Laptop',
+          },
+        ])
+        .returning({ id: schema.securityEvents.id });
+      await db.insert(schema.userSessions).values({
+        userId: user.id,
+        deviceName: 'My phone',
+        ipAddress: '203.0.113.1',
+        userAgent: 'Phone',
+        expiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+      });
+      await db
+        .insert(schema.loginThrottles)
+        .values({ key: 'account:erased@example.com', failureCount: 2 });
+      await db.insert(schema.auditEvents).values({
+        actorId: user.id,
+        action: 'PROPERTY_UPDATED',
+        entityType: 'property',
+        ipAddress: '203.0.113.1',
+        userAgent: 'Phone',
+      });
+
+      await userManagementService.eraseAccount(user.id);
+
+      const events = await db
+        .select()
+        .from(schema.securityEvents)
+        .where(
+          inArray(
+            schema.securityEvents.id,
+            recorded.map(event => event.id)
+          )
+        );
+      expect(events).toHaveLength(3);
+      for (const event of events) {
+        expect(event).toMatchObject({
+          email: null,
+          ipAddress: null,
+          userAgent: null,
+        });
+      }
+
+      const [session] = await db
+        .select()
+        .from(schema.userSessions)
+        .where(eq(schema.userSessions.userId, user.id));
+      expect(session).toMatchObject({
+        deviceName: null,
+        ipAddress: null,
+        userAgent: null,
+        revokedReason: 'ACCOUNT_DELETED',
+      });
+
+      expect(await db.select().from(schema.loginThrottles)).toEqual([]);
+
+      const [audit] = await db
+        .select()
+        .from(schema.auditEvents)
+        .where(eq(schema.auditEvents.actorId, user.id));
+      expect(audit).toMatchObject({ ipAddress: null, userAgent: null });
+
+      const [erased] = await db
+        .select()
+        .from(schema.users)
+        .where(eq(schema.users.id, user.id));
+      expect(erased.email).toBe(`deleted-${user.id}@deleted.invalid`);
+      expect(erased.deletedAt).toBeInstanceOf(Date);
+    });
+  });
+});
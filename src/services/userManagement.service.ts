@@ -0,0 +1,478 @@
+import { and, count, desc, eq, inArray, ne, or, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import {
+  auditEvents,
+  bookings,
+  landlordRegistrations,
+  loginThrottles,
+  passwordResetTokens,
+  paymentTransactions,
+  properties,
+  propertyFavorites,
+  propertyRatings,
+  propertyViews,
+  securityEvents,
+  twoFactorRecoveryCodes,
+  userSessions,
+  userSignatures,
+  users,
+} from '../db/schema';
+import { User } from '../types';
+import fileUploadService from '../utils/fileUpload';
+import loginProtectionService from './loginProtection.service';
+import { toPublicUser } from '../utils/publicUser';
+import personalDataService, {
+  PERSONAL_FILE_TYPES,
+  StoredFile,
+} from './personalData.service';
+import { Role } from './securityPolicy.service';
+import securityEventsService from './securityEvents.service';
+import tokenService from './token.service';
+import uploadsService from './uploads.service';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const ACTIVE_BOOKING_STATUSES = ['PENDING', 'CONFIRMED', 'ACTIVE'] as const;
+const OVERVIEW_LIMIT = 50;
+
+/**
+ * Admin actions on user accounts. Every change is recorded as a security
+ * event with the acting admin and the reason given.
+ */
+class UserManagementService {
+  private async loadUser(tx: Transaction, userId: string): Promise<User> {
+    const [user] = await tx
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user || user.deletedAt) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  /**
+   * Refuse to take away the last active admin. Locks the admin rows so two
+   * admins cannot demote each other at the same time.
+   */
+  private async assertNotLastAdmin(tx: Transaction, user: User): Promise<void> {
+    if (user.role !== 'ADMIN' || !user.isActive) {
+      return;
+    }
+
+    const admins = await tx
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.role, 'ADMIN'), eq(users.isActive, true)))
+      .orderBy(users.id)
+      .for('update');
+
+    if (!admins.some(admin => admin.id !== user.id)) {
+      throw new Error('Cannot remove the last active admin');
+    }
+  }
+
+  private assertNotSelf(userId: string, actorId: string, action: string) {
+    if (userId === actorId) {
+      throw new Error(`You cannot ${action} your own account`);
+    }
+  }
+
+  /**
+   * Deactivate the account and end all of its sessions
+   */
+  async suspend(userId: string, actorId: string, reason: string) {
+    this.assertNotSelf(userId, actorId, 'suspend');
+
+    const user = await db.transaction(async tx => {
+      const user = await this.loadUser(tx, userId);
+      if (!user.isActive) {
+        throw new Error('User is already suspended');
+      }
+      await this.assertNotLastAdmin(tx, user);
+
+      const [updated] = await tx
+        .update(users)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      return updated;
+    });
+
+    const revokedSessions = await tokenService.revokeAllSessions(
+      userId,
+      'ADMIN_SUSPENDED'
+    );
+
+    await securityEventsService.record({
+      type: 'USER_SUSPENDED',
+      userId,
+      email: user.email.toLowerCase(),
+      actorId,
+      metadata: { reason, revokedSessions },
+    });
+
+    return { user: toPublicUser(user), revokedSessions };
+  }
+
+  async reactivate(userId: string, actorId: string, reason: string) {
+    const user = await db.transaction(async tx => {
+      const user = await this.loadUser(tx, userId);
+      if (user.isActive) {
+        throw new Error('User is not suspended');
+      }
+
+      const [updated] = await tx
+        .update(users)
+        .set({ isActive: true, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      return updated;
+    });
+
+    await securityEventsService.record({
+      type: 'USER_REACTIVATED',
+      userId,
+      email: user.email.toLowerCase(),
+      actorId,
+      metadata: { reason },
+    });
+
+    return toPublicUser(user);
+  }
+
+  /**
+   * Change the user's role. Sessions are ended so new tokens carry the new role.
+   */
+  async changeRole(
+    userId: string,
+    role: Role,
+    actorId: string,
+    reason: string
+  ) {
+    const { user, previousRole } = await db.transaction(async tx => {
+      const user = await this.loadUser(tx, userId);
+      if (user.role === role) {
+        throw new Error(`User already has the ${role} role`);
+      }
+      if (role !== 'ADMIN') {
+        await this.assertNotLastAdmin(tx, user);
+      }
+
+      const [updated] = await tx
+        .update(users)
+        .set({ role, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      return { user: updated, previousRole: user.role };
+    });
+
+    await tokenService.revokeAllSessions(userId, 'ROLE_CHANGED');
+
+    await securityEventsService.record({
+      type: 'USER_ROLE_CHANGED',
+      userId,
+      email: user.email.toLowerCase(),
+      actorId,
+      metadata: { reason, from: previousRole, to: role },
+    });
+
+    return toPublicUser(user);
+  }
+
+  /**
+   * Delete a user's account on an admin's behalf
+   */
+  async deleteUser(userId: string, actorId: string, reason: string) {
+    this.assertNotSelf(userId, actorId, 'delete');
+    return this.eraseAccount(userId, { actorId, reason });
+  }
+
+  /**
+   * Erase the account's personal data. The row is kept anonymized so bookings,
+   * installments and payments stay intact; favorites, signatures and personal
+   * files are removed and the user's listings taken offline. Security events,
+   * sessions and audit events stay as the account's history, without email,
+   * IP address or device. Refused while the user has bookings in progress.
+   */
+  async eraseAccount(
+    userId: string,
+    options: { actorId?: string; reason?: string } = {}
+  ) {
+    const storedFiles = await personalDataService.listStoredFiles(userId);
+
+    const { unpublishedProperties } = await db.transaction(async tx => {
+      const user = await this.loadUser(tx, userId);
+      await this.assertNotLastAdmin(tx, user);
+
+      const [activeBookings] = await tx
+        .select({ count: count() })
+        .from(bookings)
+        .where(
+          and(
+            or(eq(bookings.tenantId, userId), eq(bookings.landlordId, userId)),
+            inArray(bookings.status, [...ACTIVE_BOOKING_STATUSES])
+          )
+        );
+
+      if (activeBookings.count > 0) {
+        throw new Error('User has active bookings and cannot be deleted');
+      }
+
+      const now = new Date();
+      await tx
+        .update(users)
+        .set({
+          email: `deleted-${user.id}@deleted.invalid`,
+          firstName: 'Deleted',
+          lastName: 'User',
+          name: 'Deleted User',
+          phone: null,
+          dateOfBirth: null,
+          profilePicture: null,
+          password: '',
+          googleId: null,
+          facebookId: null,
+          appleId: null,
+          githubId: null,
+          twitterId: null,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+          isActive: false,
+          deletedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(users.id, userId));
+
+      await tx
+        .delete(twoFactorRecoveryCodes)
+        .where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx
+        .delete(passwordResetTokens)
+        .where(eq(passwordResetTokens.userId, userId));
+      await tx
+        .delete(propertyFavorites)
+        .where(eq(propertyFavorites.userId, userId));
+      await tx.delete(userSignatures).where(eq(userSignatures.userId, userId));
+
+      // Ratings still count towards the property's average, without the text
+      await tx
+        .update(propertyRatings)
+        .set({ comment: null, updatedAt: now })
+        .where(eq(propertyRatings.userId, userId));
+
+      await tx
+        .update(propertyViews)
+        .set({ userId: null, ipAddress: null, userAgent: null })
+        .where(eq(propertyViews.userId, userId));
+
+      // Failed logins are recorded by email, also before the user is known
+      await tx
+        .update(securityEvents)
+        .set({ email: null, ipAddress: null, userAgent: null })
+        .where(
+          or(
+            eq(securityEvents.userId, userId),
+            eq(securityEvents.actorId, userId),
+            eq(sql`lower(${securityEvents.email})`, user.email.toLowerCase())
+          )
+        );
+      await tx
+        .delete(loginThrottles)
+        .where(
+          eq(loginThrottles.key, loginProtectionService.accountKey(user.email))
+        );
+
+      // Revoked below, and kept with the rest of the account's history
+      await tx
+        .update(userSessions)
+        .set({
+          deviceName: null,
+          ipAddress: null,
+          userAgent: null,
+          updatedAt: now,
+        })
+        .where(eq(userSessions.userId, userId));
+
+      // What the user did as an admin stays on record, not where from
+      await tx
+        .update(auditEvents)
+        .set({ ipAddress: null, userAgent: null })
+        .where(eq(auditEvents.actorId, userId));
+
+      // The registration stays as a record of the decision, without contact or bank details
+      await tx
+        .update(landlordRegistrations)
+        .set({
+          businessName: 'Deleted',
+          businessAddress: '',
+          businessPhone: '',
+          businessEmail: '',
+          taxId: null,
+          bankAccountName: '',
+          bankAccountNumber: '',
+          bankName: '',
+          identityCardUrl: null,
+          businessLicenseUrl: null,
+          taxDocumentUrl: null,
+          updatedAt: now,
+        })
+        .where(eq(landlordRegistrations.userId, userId));
+
+      const unpublished = await tx
+        .update(properties)
+        .set({ status: 'REJECTED', updatedAt: now })
+        .where(
+          and(eq(properties.ownerId, userId), ne(properties.status, 'REJECTED'))
+        )
+        .returning({ id: properties.id });
+
+      return { unpublishedProperties: unpublished.length };
+    });
+
+    await tokenService.revokeAllSessions(userId, 'ACCOUNT_DELETED');
+
+    const filesDeleted = await this.deletePersonalFiles(storedFiles);
+
+    await securityEventsService.record({
+      type: 'USER_DELETED',
+      userId,
+      actorId: options.actorId,
+      metadata: {
+        method: options.actorId ? 'ADMIN' : 'SELF',
+        reason: options.reason,
+        unpublishedProperties,
+        filesDeleted,
+      },
+    });
+
+    return { unpublishedProperties, filesDeleted };
+  }
+
+  /**
+   * Remove the user's own files from storage. Failures are logged rather than
+   * thrown, as the account itself has already been erased.
+   */
+  private async deletePersonalFiles(files: StoredFile[]): Promise<number> {
+    const paths = files
+      .filter(file => PERSONAL_FILE_TYPES.includes(file.type))
+      .map(file => fileUploadService.getStoragePath(file.url))
+      .filter((filePath): filePath is string => !!filePath);
+
+    if (paths.length === 0) {
+      return 0;
+    }
+
+    try {
+      const result = await fileUploadService.deleteMultipleFiles(paths);
+      await uploadsService.forget(paths);
+      return result.deleted.length;
+    } catch (error) {
+      console.error('Delete personal files error:', { paths, error });
+      return 0;
+    }
+  }
+
+  /**
+   * Everything an admin needs to review an account in one call
+   */
+  async getOverview(userId: string) {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const ownedProperties = await db
+      .select({
+        id: properties.id,
+        code: properties.code,
+        title: properties.title,
+        city: properties.city,
+        price: properties.price,
+        status: properties.status,
+        createdAt: properties.createdAt,
+      })
+      .from(properties)
+      .where(eq(properties.ownerId, userId))
+      .orderBy(desc(properties.createdAt))
+      .limit(OVERVIEW_LIMIT);
+
+    const userBookings = await db
+      .select({
+        id: bookings.id,
+        propertyId: bookings.propertyId,
+        propertyTitle: properties.title,
+        tenantId: bookings.tenantId,
+        landlordId: bookings.landlordId,
+        startDate: bookings.startDate,
+        endDate: bookings.endDate,
+        totalAmount: bookings.totalAmount,
+        paymentType: bookings.paymentType,
+        status: bookings.status,
+        createdAt: bookings.createdAt,
+      })
+      .from(bookings)
+      .leftJoin(properties, eq(bookings.propertyId, properties.id))
+      .where(or(eq(bookings.tenantId, userId), eq(bookings.landlordId, userId)))
+      .orderBy(desc(bookings.createdAt))
+      .limit(OVERVIEW_LIMIT);
+
+    const payments = await db
+      .select({
+        id: paymentTransactions.id,
+        bookingId: paymentTransactions.bookingId,
+        installmentId: paymentTransactions.installmentId,
+        amount: paymentTransactions.amount,
+        paymentMethod: paymentTransactions.paymentMethod,
+        status: paymentTransactions.status,
+        paidAt: paymentTransactions.paidAt,
+        createdAt: paymentTransactions.createdAt,
+      })
+      .from(paymentTransactions)
+      .innerJoin(bookings, eq(paymentTransactions.bookingId, bookings.id))
+      .where(eq(bookings.tenantId, userId))
+      .orderBy(desc(paymentTransactions.createdAt))
+      .limit(OVERVIEW_LIMIT);
+
+    const adminActions = await db
+      .select()
+      .from(securityEvents)
+      .where(
+        and(
+          eq(securityEvents.userId, userId),
+          inArray(securityEvents.type, [
+            'USER_SUSPENDED',
+            'USER_REACTIVATED',
+            'USER_ROLE_CHANGED',
+            'USER_DELETED',
+          ])
+        )
+      )
+      .orderBy(desc(securityEvents.createdAt))
+      .limit(OVERVIEW_LIMIT);
+
+    const activeSessions = await tokenService.listActiveSessions(userId);
+
+    return {
+      user: toPublicUser(user),
+      properties: ownedProperties,
+      bookings: userBookings.map(booking => ({
+        ...booking,
+        relation: booking.tenantId === userId ? 'TENANT' : 'LANDLORD',
+      })),
+      payments,
+      activeSessions: activeSessions.length,
+      adminActions,
+    };
+  }
+}
+
+export default new UserManagementService();
@@ -7,6 +7,17 @@ import {
   propertyAmenities,
   leases,
   propertyViews,
+  userSessions,
+  refreshTokens,
+  passwordResetTokens,
+  twoFactorRecoveryCodes,
+  appSettings,
+  loginThrottles,
+  securityEvents,
+  auditEvents,
+  listingApprovals,
+  propertyImages,
+  uploads,
 } from '../db/schema';
 
 // User types
@@ -17,6 +28,13 @@ export type NewUser = InferInsertModel<typeof users>;
 export type Property = InferSelectModel<typeof properties>;
 export type NewProperty = InferInsertModel<typeof properties>;
 
+// Property Image types
+export type PropertyImage = InferSelectModel<typeof propertyImages>;
+export type RoomTag = NonNullable<PropertyImage['roomTag']>;
+
+// Upload types
+export type Upload = InferSelectModel<typeof uploads>;
+
 // Property Type types
 export type PropertyType = InferSelectModel<typeof propertyTypes>;
 export type NewPropertyType = InferInsertModel<typeof propertyTypes>;
@@ -37,6 +55,35 @@ export type NewBooking = InferInsertModel<typeof leases>;
 export type PropertyView = InferSelectModel<typeof propertyViews>;
 export type NewPropertyView = InferInsertModel<typeof propertyViews>;
 
+// Session types
+export type UserSession = InferSelectModel<typeof userSessions>;
+export type NewUserSession = InferInsertModel<typeof userSessions>;
+export type RefreshToken = InferSelectModel<typeof refreshTokens>;
+export type NewRefreshToken = InferInsertModel<typeof refreshTokens>;
+export type PasswordResetToken = InferSelectModel<typeof passwordResetTokens>;
+export type NewPasswordResetToken = InferInsertModel<typeof passwordResetTokens>;
+
+// Two-factor authentication types
+export type TwoFactorRecoveryCode = InferSelectModel<typeof twoFactorRecoveryCodes>;
+export type NewTwoFactorRecoveryCode = InferInsertModel<typeof twoFactorRecoveryCodes>;
+
+// Login protection types
+export type LoginThrottle = InferSelectModel<typeof loginThrottles>;
+export type SecurityEvent = InferSelectModel<typeof securityEvents>;
+export type NewSecurityEvent = InferInsertModel<typeof securityEvents>;
+
+// Audit types
+export type AuditEvent = InferSelectModel<typeof auditEvents>;
+export type NewAuditEvent = InferInsertModel<typeof auditEvents>;
+
+// Moderation types
+export type ListingStatus = Property['status'];
+export type ListingApproval = InferSelectModel<typeof listingApprovals>;
+export type ScreeningFlag = NonNullable<Property['screeningFlags']>[number];
+
+// Settings types
+export type AppSetting = InferSelectModel<typeof appSettings>;
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -59,6 +106,14 @@ export interface JwtPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+  sessionId: string;
 }
 
 // Query types
@@ -67,15 +122,44 @@ export interface PaginationQuery {
   limit?: number;
 }
 
+export type PropertySort =
+  | 'relevance'
+  | 'newest'
+  | 'oldest'
+  | 'price_asc'
+  | 'price_desc'
+  | 'most_viewed'
+  | 'top_rated'
+  | 'distance';
+
 export interface PropertyQuery extends PaginationQuery {
   city?: string;
+  state?: string;
+  country?: string;
   minPrice?: number;
   maxPrice?: number;
   bedrooms?: number;
+  minBedrooms?: number;
+  maxBedrooms?: number;
   bathrooms?: number;
+  minBathrooms?: number;
+  maxBathrooms?: number;
+  minArea?: number;
+  maxArea?: number;
   furnished?: boolean;
+  isAvailable?: boolean;
   propertyType?: string;
+  amenities?: string[];
+  amenityMatch?: 'all' | 'any';
+  listedAfter?: Date;
+  listedBefore?: Date;
   search?: string;
-  status?: 'PANDDING_REVIEW' | 'REJECTED' | 'APPROVED';
+  status?: ListingStatus;
   ownerId?: string;
+  sort?: PropertySort[];
+  // Reference point for the distance sort
+  latitude?: number;
+  longitude?: number;
+  // Opaque position from a previous page's nextCursor
+  cursor?: string;
 }
@@ -0,0 +1,138 @@
+import sharp from 'sharp';
+
+// Images wider or taller than this are refused before decoding them
+export const MAX_IMAGE_DIMENSION = parseInt(
+  process.env.MAX_IMAGE_DIMENSION || '8000'
+);
+
+// A PDF shouldn't run code or carry other files
+const PDF_ACTIVE_CONTENT = /\/(JavaScript|JS|Launch|EmbeddedFile)\b/;
+
+interface FileSignature {
+  mimetype: string;
+  extension: string;
+  matches: (buffer: Buffer) => boolean;
+}
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  buffer.length >= offset + bytes.length &&
+  bytes.every((byte, index) => buffer[offset + index] === byte);
+
+// Magic bytes of the types we accept
+const SIGNATURES: FileSignature[] = [
+  {
+    mimetype: 'image/jpeg',
+    extension: '.jpg',
+    matches: b => startsWith(b, [0xff, 0xd8, 0xff]),
+  },
+  {
+    mimetype: 'image/png',
+    extension: '.png',
+    matches: b =>
+      startsWith(b, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    mimetype: 'image/webp',
+    extension: '.webp',
+    matches: b =>
+      b.toString('ascii', 0, 4) === 'RIFF' &&
+      b.toString('ascii', 8, 12) === 'WEBP',
+  },
+  {
+    mimetype: 'image/gif',
+    extension: '.gif',
+    matches: b => /^GIF8[79]a/.test(b.toString('ascii', 0, 6)),
+  },
+  {
+    mimetype: 'application/pdf',
+    extension: '.pdf',
+    matches: b => b.toString('ascii', 0, 5) === '%PDF-',
+  },
+];
+
+// Clients send image/jpg as often as image/jpeg
+const normalizeMimetype = (mimetype: string) =>
+  mimetype === 'image/jpg' ? 'image/jpeg' : mimetype;
+
+/**
+ * The type of a file from its first bytes, or null when it isn't one we know
+ */
+export const detectContentType = (buffer: Buffer): string | null =>
+  SIGNATURES.find(signature => signature.matches(buffer))?.mimetype ?? null;
+
+/**
+ * The extension files of a type we know are stored with, or an empty string,
+ * so the name the client sent never decides how a file is served
+ */
+export const extensionForType = (mimetype: string): string =>
+  SIGNATURES.find(
+    signature => signature.mimetype === normalizeMimetype(mimetype)
+  )?.extension ?? '';
+
+/**
+ * Whether the file's content is of the type the client claimed
+ */
+export const contentMatchesType = (buffer: Buffer, mimetype: string) =>
+  detectContentType(buffer) === normalizeMimetype(mimetype);
+
+const checkImage = async (buffer: Buffer) => {
+  let metadata: sharp.Metadata;
+  try {
+    // Only reads the header, so oversized images are never decoded
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new Error('File is not a readable image');
+  }
+
+  if (!metadata.width || !metadata.height) {
+    throw new Error('File is not a readable image');
+  }
+  if (
+    metadata.width > MAX_IMAGE_DIMENSION ||
+    metadata.height > MAX_IMAGE_DIMENSION
+  ) {
+    throw new Error(
+      `Image dimensions exceed the maximum of ${MAX_IMAGE_DIMENSION}x${MAX_IMAGE_DIMENSION} pixels`
+    );
+  }
+};
+
+const checkPdf = (buffer: Buffer) => {
+  // Trailers may be followed by a little whitespace or padding
+  const tail = buffer.toString('latin1', Math.max(0, buffer.length - 1024));
+  if (!tail.includes('%%EOF')) {
+    throw new Error('PDF is truncated or malformed');
+  }
+
+  const content = buffer.toString('latin1');
+  if (content.includes('/Encrypt')) {
+    throw new Error('Encrypted PDFs are not allowed');
+  }
+  if (PDF_ACTIVE_CONTENT.test(content)) {
+    throw new Error(
+      'PDFs with scripts, actions or embedded files are not allowed'
+    );
+  }
+};
+
+/**
+ * Check an upload by its content rather than the type the client sent: the
+ * magic bytes must match the declared type, images must be readable and
+ * within MAX_IMAGE_DIMENSION, and PDFs must be complete, unencrypted and
+ * free of active content
+ */
+export const verifyFileContent = async (file: {
+  buffer: Buffer;
+  mimetype: string;
+}): Promise<void> => {
+  const detected = detectContentType(file.buffer);
+  if (!detected || detected !== normalizeMimetype(file.mimetype)) {
+    throw new Error('File content does not match its type');
+  }
+
+  if (detected.startsWith('image/')) {
+    await checkImage(file.buffer);
+  } else if (detected === 'application/pdf') {
+    checkPdf(file.buffer);
+  }
+};
@@ -0,0 +1,55 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]);
+const PDF = Buffer.from('%PDF-1.4\n1 0 obj\n<<>>\nendobj\n%%EOF\n', 'latin1');
+
+const fileOf = (buffer: Buffer, mimetype: string, originalname: string) => ({
+  fieldname: 'file',
+  originalname,
+  encoding: '7bit',
+  mimetype,
+  buffer,
+  size: buffer.length,
+});
+
+describe('FileUploadService storage paths', () => {
+  let fileUploadService: typeof import('./fileUpload').default;
+  let storage: NonNullable<typeof import('../config/storage').storage>;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fileUploadService = (await import('./fileUpload')).default;
+    storage = (await import('../config/storage')).storage!;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ['image/png', 'photo.html', PNG, '.png'],
+    ['image/jpg', 'photo', Buffer.from([0xff, 0xd8, 0xff, 0]), '.jpg'],
+    ['application/pdf', 'contract.svg', PDF, '.pdf'],
+  ])(
+    'names a %s file %s by its type',
+    async (mimetype, originalname, buffer, extension) => {
+      const upload = vi.spyOn(storage, 'upload').mockResolvedValue();
+
+      const result = await fileUploadService.uploadFile(
+        fileOf(buffer, mimetype, originalname),
+        'documents'
+      );
+
+      expect(result.key).toMatch(
+        new RegExp(`^rentverse/documents/[^/.]+\\${extension}$`)
+      );
+      expect(result.originalName).toBe(originalname);
+      expect(upload).toHaveBeenCalledWith(
+        result.key,
+        buffer,
+        mimetype,
+        'public'
+      );
+    }
+  );
+});
@@ -1,6 +1,13 @@
-import { supabase, storageConfig, isStorageConfigured, STORAGE_FOLDER_PREFIX } from '../config/storage';
+import { storage, isStorageConfigured, STORAGE_FOLDER_PREFIX } from '../config/storage';
+import { Visibility } from '../services/storage/storageDriver';
 import { v4 as uuidv4 } from 'uuid';
-import path from 'path';
+import {
+  IMAGE_VARIANTS,
+  ImageVariantName,
+  processImage,
+  shouldProcessImage,
+} from './imageProcessing';
+import { contentMatchesType, extensionForType } from './fileContent';
 
 interface UploadedFile {
   fieldname: string;
@@ -19,15 +26,46 @@ interface UploadResult {
   originalName: string;
   size: number;
   mimetype: string;
+  // Private files have a short-lived signed URL; store the key instead
+  visibility: Visibility;
+  // Photos in processed folders only
+  width?: number;
+  height?: number;
+  variants?: Record<ImageVariantName, ImageVariant>;
 }
 
+interface ImageVariant {
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+// Identity documents, signatures and contracts are only readable through
+// signed URLs handed out after an access check
+const PRIVATE_FOLDERS = (
+  process.env.PRIVATE_STORAGE_FOLDERS ||
+  'signatures,rental-agreements,landlord-documents'
+).split(',');
+
+const SIGNED_URL_TTL_SECONDS = parseInt(process.env.SIGNED_URL_TTL_SECONDS || '300');
+
+// Processed photos are stored as <dir>/original.<ext> next to <dir>/<variant>.webp
+const PROCESSED_ORIGINAL = /^(.+)\/original\.(?:jpg|png|webp)$/;
+
+// Files the malware scan flagged, kept private for review
+const QUARANTINE_FOLDER = 'quarantine';
+
 class FileUploadService {
   private maxFileSize: number;
+  private maxSignatureSize: number;
   private allowedImageTypes: string[];
   private allowedFileTypes: string[];
 
   constructor() {
     this.maxFileSize = parseInt(process.env.MAX_FILE_SIZE || '10485760'); // 10MB default
+    this.maxSignatureSize = parseInt(process.env.MAX_SIGNATURE_FILE_SIZE || '2097152'); // 2MB default
     this.allowedImageTypes = (
       process.env.ALLOWED_IMAGE_TYPES ||
       'image/jpeg,image/jpg,image/png,image/webp'
@@ -39,18 +77,18 @@ class FileUploadService {
   }
 
   /**
-   * Check if Supabase storage is configured
+   * Check if storage is configured
    */
   private checkStorageConfig(): void {
     if (!isStorageConfigured) {
       throw new Error(
-        'Supabase storage is not configured. Please check your environment variables.'
+        'File storage is not configured. Please check your environment variables.'
       );
     }
   }
 
   /**
-   * Validate file type and size
+   * Validate file type, by its declared type and its content, and size
    */
   validateFile(file: UploadedFile, allowedTypes?: string[]): boolean {
     if (!file) {
@@ -62,6 +100,10 @@ class FileUploadService {
       throw new Error(`Invalid file type. Allowed types: ${types.join(', ')}`);
     }
 
+    if (!contentMatchesType(file.buffer, file.mimetype)) {
+      throw new Error('File content does not match its type');
+    }
+
     if (file.size > this.maxFileSize) {
       throw new Error(
         `File size exceeds maximum allowed size of ${this.maxFileSize / 1024 / 1024}MB`
@@ -72,7 +114,7 @@ class FileUploadService {
   }
 
   /**
-   * Validate signature file (no size limit)
+   * Validate signature file, an image of at most MAX_SIGNATURE_FILE_SIZE
    */
   validateSignatureFile(file: UploadedFile): boolean {
     if (!file) {
@@ -83,14 +125,25 @@ class FileUploadService {
       throw new Error('Only image files are allowed for signatures');
     }
 
+    if (!contentMatchesType(file.buffer, file.mimetype)) {
+      throw new Error('File content does not match its type');
+    }
+
+    if (file.size > this.maxSignatureSize) {
+      throw new Error(
+        `Signature size exceeds maximum allowed size of ${this.maxSignatureSize / 1024 / 1024}MB`
+      );
+    }
+
     return true;
   }
 
   /**
-   * Generate storage path
+   * Generate storage path, with the extension of the file's verified type,
+   * or none
    */
-  private generateStoragePath(originalName: string, folder = 'uploads'): string {
-    const ext = path.extname(originalName);
+  private generateStoragePath(mimetype: string | null, folder = 'uploads'): string {
+    const ext = mimetype ? extensionForType(mimetype) : '';
     const uniqueId = uuidv4();
     const timestamp = Date.now();
     const filename = `${uniqueId}-${timestamp}${ext}`;
@@ -99,7 +152,24 @@ class FileUploadService {
   }
 
   /**
-   * Upload file to Supabase Storage
+   * Whether files of the folder, or the file at the path, are private
+   */
+  private visibilityOf(folderOrPath: string): Visibility {
+    const folder = folderOrPath.startsWith(`${STORAGE_FOLDER_PREFIX}/`)
+      ? folderOrPath.split('/')[1]
+      : folderOrPath;
+    return PRIVATE_FOLDERS.includes(folder) ? 'private' : 'public';
+  }
+
+  // Public URL, or a signed one for private files
+  private async urlFor(filePath: string, visibility: Visibility): Promise<string> {
+    return visibility === 'private'
+      ? storage!.getSignedUrl(filePath, SIGNED_URL_TTL_SECONDS)
+      : `${storage!.baseUrl}/${filePath}`;
+  }
+
+  /**
+   * Upload file to storage
    */
   async uploadFile(file: UploadedFile, folder = 'uploads'): Promise<UploadResult> {
     try {
@@ -109,87 +179,143 @@ class FileUploadService {
       // Validate file
       this.validateFile(file);
 
-      // Generate storage path
-      const filePath = this.generateStoragePath(file.originalname, folder);
-
-      // Upload to Supabase Storage
-      const { data, error } = await supabase!.storage
-        .from(storageConfig.bucket)
-        .upload(filePath, file.buffer, {
-          contentType: file.mimetype,
-          upsert: false
-        });
-
-      if (error) {
-        throw new Error(`Supabase upload error: ${error.message}`);
+      if (shouldProcessImage(folder, file.mimetype)) {
+        return await this.uploadProcessedImage(file, folder);
       }
 
-      // Generate public URL
-      const url = `${storageConfig.baseUrl}/${filePath}`;
+      // Generate storage path
+      const filePath = this.generateStoragePath(file.mimetype, folder);
+
+      const visibility = this.visibilityOf(folder);
+      await storage!.upload(filePath, file.buffer, file.mimetype, visibility);
+
+      const url = await this.urlFor(filePath, visibility);
 
-      console.log(`✅ File uploaded to Supabase: ${filePath}`);
+      console.log(`✅ File uploaded to ${storage!.name} storage: ${filePath}`);
 
       return {
         key: filePath,
         url,
-        bucket: storageConfig.bucket,
-        path: data.path,
+        bucket: storage!.bucket,
+        path: filePath,
         originalName: file.originalname,
         size: file.size,
         mimetype: file.mimetype,
+        visibility,
       };
     } catch (error) {
-      console.error('Supabase upload error:', error);
+      console.error('Storage upload error:', error);
       throw new Error(`Failed to upload file: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Upload signature file (no size limit)
+   * Store a photo upright and without metadata, with its resized WebP
+   * variants alongside
+   */
+  private async uploadProcessedImage(file: UploadedFile, folder: string): Promise<UploadResult> {
+    const { original, variants } = await processImage(file.buffer);
+    const dir = this.generateStoragePath(null, folder);
+    const filePath = `${dir}/original${original.extension}`;
+    const stored: string[] = [];
+
+    const store = async (key: string, buffer: Buffer, contentType: string) => {
+      await storage!.upload(key, buffer, contentType);
+      stored.push(key);
+    };
+
+    try {
+      await store(filePath, original.buffer, original.contentType);
+
+      const variantResults = {} as Record<ImageVariantName, ImageVariant>;
+      for (const [name, variant] of Object.entries(variants)) {
+        const key = `${dir}/${name}${variant.extension}`;
+        await store(key, variant.buffer, variant.contentType);
+        variantResults[name as ImageVariantName] = {
+          key,
+          url: `${storage!.baseUrl}/${key}`,
+          width: variant.width,
+          height: variant.height,
+          size: variant.buffer.length,
+        };
+      }
+
+      console.log(`✅ Image and variants uploaded to ${storage!.name} storage: ${filePath}`);
+
+      return {
+        key: filePath,
+        url: `${storage!.baseUrl}/${filePath}`,
+        bucket: storage!.bucket,
+        path: filePath,
+        originalName: file.originalname,
+        size: original.buffer.length,
+        mimetype: original.contentType,
+        visibility: 'public',
+        width: original.width,
+        height: original.height,
+        variants: variantResults,
+      };
+    } catch (error) {
+      // Don't leave a partial set of files behind
+      if (stored.length > 0) {
+        await storage!.remove(stored);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Upload signature file
    */
   async uploadSignature(file: UploadedFile, folder = 'signatures'): Promise<UploadResult> {
     try {
       // Check storage configuration
       this.checkStorageConfig();
 
-      // Validate signature file (no size limit)
+      // Validate signature file
       this.validateSignatureFile(file);
 
       // Generate storage path
-      const filePath = this.generateStoragePath(file.originalname, folder);
-
-      // Upload to Supabase Storage
-      const { data, error } = await supabase!.storage
-        .from(storageConfig.bucket)
-        .upload(filePath, file.buffer, {
-          contentType: file.mimetype,
-          upsert: false
-        });
-
-      if (error) {
-        throw new Error(`Supabase upload error: ${error.message}`);
-      }
+      const filePath = this.generateStoragePath(file.mimetype, folder);
 
-      // Generate public URL
-      const url = `${storageConfig.baseUrl}/${filePath}`;
+      const visibility = this.visibilityOf(folder);
+      await storage!.upload(filePath, file.buffer, file.mimetype, visibility);
 
-      console.log(`✅ Signature uploaded to Supabase: ${filePath}`);
+      const url = await this.urlFor(filePath, visibility);
+
+      console.log(`✅ Signature uploaded to ${storage!.name} storage: ${filePath}`);
 
       return {
         key: filePath,
         url,
-        bucket: storageConfig.bucket,
-        path: data.path,
+        bucket: storage!.bucket,
+        path: filePath,
         originalName: file.originalname,
         size: file.size,
         mimetype: file.mimetype,
+        visibility,
       };
     } catch (error) {
-      console.error('Supabase signature upload error:', error);
+      console.error('Storage signature upload error:', error);
       throw new Error(`Failed to upload signature: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Keep a file the malware scan flagged where no one can reach it, instead
+   * of storing it where it was sent. Returns its storage path.
+   */
+  async quarantineFile(file: UploadedFile): Promise<string> {
+    this.checkStorageConfig();
+
+    // No extension, so it is never served as what it claims to be
+    const filePath = this.generateStoragePath(null, QUARANTINE_FOLDER);
+    await storage!.upload(filePath, file.buffer, 'application/octet-stream', 'private');
+
+    console.warn(`⚠️ File quarantined in ${storage!.name} storage: ${filePath}`);
+    return filePath;
+  }
+
   /**
    * Upload multiple files
    */
@@ -199,21 +325,15 @@ class FileUploadService {
   }
 
   /**
-   * Delete file from Supabase Storage
+   * Delete file from storage
    */
   async deleteFile(filePath: string): Promise<{ success: boolean; message: string; key: string }> {
     try {
       this.checkStorageConfig();
 
-      const { error } = await supabase!.storage
-        .from(storageConfig.bucket)
-        .remove([filePath]);
+      await storage!.remove([filePath, ...this.getVariantPaths(filePath)], this.visibilityOf(filePath));
 
-      if (error) {
-        throw new Error(`Supabase delete error: ${error.message}`);
-      }
-
-      console.log(`✅ File deleted from Supabase: ${filePath}`);
+      console.log(`✅ File deleted from ${storage!.name} storage: ${filePath}`);
 
       return {
         success: true,
@@ -221,7 +341,7 @@ class FileUploadService {
         key: filePath,
       };
     } catch (error) {
-      console.error('Supabase delete error:', error);
+      console.error('Storage delete error:', error);
       throw new Error(`Failed to delete file: ${(error as Error).message}`);
     }
   }
@@ -233,23 +353,22 @@ class FileUploadService {
     try {
       this.checkStorageConfig();
 
-      const { data, error } = await supabase!.storage
-        .from(storageConfig.bucket)
-        .remove(filePaths);
+      const keys = filePaths.flatMap(filePath => [filePath, ...this.getVariantPaths(filePath)]);
+      const privateKeys = keys.filter(key => this.visibilityOf(key) === 'private');
+      const publicKeys = keys.filter(key => this.visibilityOf(key) === 'public');
 
-      if (error) {
-        throw new Error(`Supabase bulk delete error: ${error.message}`);
-      }
+      if (publicKeys.length > 0) await storage!.remove(publicKeys, 'public');
+      if (privateKeys.length > 0) await storage!.remove(privateKeys, 'private');
 
-      console.log(`✅ ${data?.length || 0} files deleted from Supabase`);
+      console.log(`✅ ${keys.length} files deleted from ${storage!.name} storage`);
 
       return {
         success: true,
-        deleted: data || [],
+        deleted: keys,
         errors: [],
       };
     } catch (error) {
-      console.error('Supabase bulk delete error:', error);
+      console.error('Storage bulk delete error:', error);
       throw new Error(`Failed to delete files: ${(error as Error).message}`);
     }
   }
@@ -258,45 +377,105 @@ class FileUploadService {
    * Get file URL
    */
   getFileUrl(filePath: string): string | null {
-    if (!filePath) return null;
-    return `${storageConfig.baseUrl}/${filePath}`;
+    if (!filePath || !storage) return null;
+    return `${storage.baseUrl}/${filePath}`;
+  }
+
+  /**
+   * Get storage path from a file URL, or null for files stored elsewhere
+   */
+  getFilePathFromUrl(url: string): string | null {
+    if (!url || !storage) return null;
+    const prefix = `${storage.baseUrl}/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length).split('?')[0] : null;
+  }
+
+  /**
+   * Storage path of a stored reference: a key, or the public URL of one of
+   * our files. Null for files stored elsewhere.
+   */
+  getStoragePath(keyOrUrl: string): string | null {
+    if (!keyOrUrl) return null;
+    return keyOrUrl.includes('://') ? this.getFilePathFromUrl(keyOrUrl) : keyOrUrl;
   }
 
   /**
-   * Upload PDF buffer to Supabase Storage
+   * Whether the stored file is in the folder, as given to the upload
+   */
+  isInFolder(filePath: string, folder: string): boolean {
+    return filePath.startsWith(`${STORAGE_FOLDER_PREFIX}/${folder}/`);
+  }
+
+  /**
+   * A URL to read a stored file: signed and short-lived for private files,
+   * public otherwise. References to files stored elsewhere are returned as is.
+   */
+  async getDownloadUrl(keyOrUrl: string): Promise<{ url: string; expiresAt: Date | null }> {
+    const filePath = this.getStoragePath(keyOrUrl);
+    if (!filePath || this.visibilityOf(filePath) === 'public') {
+      return { url: (filePath && this.getFileUrl(filePath)) || keyOrUrl, expiresAt: null };
+    }
+
+    this.checkStorageConfig();
+    return {
+      url: await storage!.getSignedUrl(filePath, SIGNED_URL_TTL_SECONDS),
+      expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000),
+    };
+  }
+
+  /**
+   * Storage paths of a processed photo's variants, none for other files
+   */
+  getVariantPaths(filePath: string): string[] {
+    const match = PROCESSED_ORIGINAL.exec(filePath);
+    if (!match) return [];
+    return Object.keys(IMAGE_VARIANTS).map(name => `${match[1]}/${name}.webp`);
+  }
+
+  /**
+   * Variant URLs of a processed photo, given its URL or storage path, or null
+   * for files stored before processing or elsewhere
+   */
+  getImageVariants(urlOrPath: string): Record<ImageVariantName, string> | null {
+    const filePath = this.getStoragePath(urlOrPath);
+    if (!filePath || !storage || !PROCESSED_ORIGINAL.test(filePath)) return null;
+
+    const paths = this.getVariantPaths(filePath);
+    const variants = {} as Record<ImageVariantName, string>;
+    (Object.keys(IMAGE_VARIANTS) as ImageVariantName[]).forEach((name, index) => {
+      variants[name] = `${storage!.baseUrl}/${paths[index]}`;
+    });
+    return variants;
+  }
+
+  /**
+   * Upload PDF buffer to storage
    */
   async uploadPDFBuffer(pdfBuffer: Buffer, fileName: string, folder = 'pdfs'): Promise<UploadResult> {
     try {
       this.checkStorageConfig();
 
-      const filePath = this.generateStoragePath(fileName, folder);
+      const filePath = this.generateStoragePath('application/pdf', folder);
 
-      const { data, error } = await supabase!.storage
-        .from(storageConfig.bucket)
-        .upload(filePath, pdfBuffer, {
-          contentType: 'application/pdf',
-          upsert: false
-        });
-
-      if (error) {
-        throw new Error(`Supabase PDF upload error: ${error.message}`);
-      }
+      const visibility = this.visibilityOf(folder);
+      await storage!.upload(filePath, pdfBuffer, 'application/pdf', visibility);
 
-      const url = `${storageConfig.baseUrl}/${filePath}`;
+      const url = await this.urlFor(filePath, visibility);
 
-      console.log(`✅ PDF uploaded to Supabase: ${filePath}`);
+      console.log(`✅ PDF uploaded to ${storage!.name} storage: ${filePath}`);
 
       return {
         key: filePath,
         url,
-        bucket: storageConfig.bucket,
-        path: data.path,
+        bucket: storage!.bucket,
+        path: filePath,
         originalName: fileName,
         size: pdfBuffer.length,
         mimetype: 'application/pdf',
+        visibility,
       };
     } catch (error) {
-      console.error('Supabase PDF upload error:', error);
+      console.error('Storage PDF upload error:', error);
       throw new Error(`Failed to upload PDF: ${(error as Error).message}`);
     }
   }
@@ -0,0 +1,72 @@
+export const EARTH_RADIUS_KM = 6371;
+
+// Length of one degree of latitude, and of longitude at the equator
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * A map viewport. `west` is greater than `east` when the box crosses the
+ * antimeridian.
+ */
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const normalizeLongitude = (longitude: number) =>
+  ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+export const isValidLatitude = (value: number) =>
+  Number.isFinite(value) && value >= -90 && value <= 90;
+
+export const isValidLongitude = (value: number) =>
+  Number.isFinite(value) && value >= -180 && value <= 180;
+
+/**
+ * The smallest box containing the circle, used to narrow a radius search
+ * before computing exact distances
+ */
+export const boundsAroundPoint = (
+  center: GeoPoint,
+  radiusKm: number
+): GeoBounds => {
+  const latDelta = radiusKm / KM_PER_DEGREE;
+  const north = Math.min(center.latitude + latDelta, 90);
+  const south = Math.max(center.latitude - latDelta, -90);
+
+  // Near the poles the circle covers every longitude
+  const cosLat = Math.cos((center.latitude * Math.PI) / 180);
+  const lonDelta = radiusKm / (KM_PER_DEGREE * Math.max(cosLat, 1e-6));
+  if (north === 90 || south === -90 || lonDelta >= 180) {
+    return { north, south, east: 180, west: -180 };
+  }
+
+  return {
+    north,
+    south,
+    east: normalizeLongitude(center.longitude + lonDelta),
+    west: normalizeLongitude(center.longitude - lonDelta),
+  };
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in km (haversine)
+ */
+export const distanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
@@ -0,0 +1,95 @@
+import sharp from 'sharp';
+
+// Longest side in pixels of each variant
+export const IMAGE_VARIANTS = {
+  thumb: 320,
+  medium: 800,
+  large: 1600,
+} as const;
+
+export type ImageVariantName = keyof typeof IMAGE_VARIANTS;
+
+// Uploads to these folders are photos shown in the app and get variants
+export const PROCESSED_IMAGE_FOLDERS = ['properties', 'profile-pictures'];
+
+const PROCESSED_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+const WEBP_QUALITY = 80;
+
+export interface ProcessedImage {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedUpload {
+  original: ProcessedImage;
+  variants: Record<ImageVariantName, ProcessedImage>;
+}
+
+export const shouldProcessImage = (folder: string, mimetype: string) =>
+  PROCESSED_IMAGE_FOLDERS.includes(folder) &&
+  PROCESSED_TYPES.includes(mimetype);
+
+const toImage = async (
+  pipeline: sharp.Sharp,
+  contentType: string,
+  extension: string
+): Promise<ProcessedImage> => {
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+  return {
+    buffer: data,
+    contentType,
+    extension,
+    width: info.width,
+    height: info.height,
+  };
+};
+
+/**
+ * Turn an uploaded photo upright and drop its metadata (EXIF, GPS), keeping
+ * its format, and make WebP variants for each size. Sharp leaves metadata
+ * out of its output unless asked to keep it.
+ */
+export const processImage = async (
+  buffer: Buffer
+): Promise<ProcessedUpload> => {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new Error('File is not a readable image');
+  }
+
+  const upright = () => sharp(buffer).rotate();
+
+  const original =
+    metadata.format === 'png'
+      ? await toImage(upright().png(), 'image/png', '.png')
+      : metadata.format === 'webp'
+        ? await toImage(upright().webp(), 'image/webp', '.webp')
+        : await toImage(
+            upright().jpeg({ quality: 90, mozjpeg: true }),
+            'image/jpeg',
+            '.jpg'
+          );
+
+  const variants = {} as Record<ImageVariantName, ProcessedImage>;
+  for (const [name, size] of Object.entries(IMAGE_VARIANTS)) {
+    variants[name as ImageVariantName] = await toImage(
+      upright()
+        .resize({
+          width: size,
+          height: size,
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .webp({ quality: WEBP_QUALITY }),
+      'image/webp',
+      '.webp'
+    );
+  }
+
+  return { original, variants };
+};
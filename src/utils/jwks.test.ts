@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { Jwk, RemoteJwksKeySource, resolveSigningKey } from './jwks';
+
+const { publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk: Jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'current' };
+
+describe('RemoteJwksKeySource', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let uri: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ keys: [jwk] }), {
+          headers: { 'cache-control': 'max-age=3600' },
+        })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    // Cooldowns are kept per URL, so each test gets its own
+    uri = `https://keys.example.com/${Math.random()}`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('finds a known key from the cache', async () => {
+    const source = new RemoteJwksKeySource(uri);
+
+    expect(await resolveSigningKey(source, 'current')).not.toBeNull();
+    expect(await resolveSigningKey(source, 'current')).not.toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't refetch for unknown kids within the minimum interval", async () => {
+    const source = new RemoteJwksKeySource(uri);
+    await source.getKeys();
+
+    vi.advanceTimersByTime(61 * 1000);
+    expect(await resolveSigningKey(source, 'rotated')).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    for (let i = 0; i < 10; i++) {
+      expect(await resolveSigningKey(source, `forged-${i}`)).toBeNull();
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(61 * 1000);
+    await resolveSigningKey(source, 'rotated');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('shares keys and the interval between sources for the same URL', async () => {
+    await new RemoteJwksKeySource(uri).getKeys();
+    const other = new RemoteJwksKeySource(uri);
+    await other.getKeys();
+
+    expect(await resolveSigningKey(other, 'unknown')).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits out the interval after a failed first fetch', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 503 }));
+    const source = new RemoteJwksKeySource(uri);
+
+    await expect(source.getKeys()).rejects.toThrow('503');
+    for (let i = 0; i < 5; i++) {
+      await expect(resolveSigningKey(source, 'current')).rejects.toThrow(
+        'unavailable'
+      );
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(61 * 1000);
+    expect(await resolveSigningKey(source, 'current')).not.toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps using expired keys while the endpoint is down', async () => {
+    const source = new RemoteJwksKeySource(uri);
+    await source.getKeys();
+    fetchMock.mockResolvedValue(new Response('', { status: 503 }));
+
+    vi.advanceTimersByTime(3601 * 1000);
+    await expect(source.getKeys()).rejects.toThrow('503');
+    for (let i = 0; i < 5; i++) {
+      expect(await resolveSigningKey(source, 'current')).not.toBeNull();
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,169 @@
+import jwt from 'jsonwebtoken';
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+
+export interface Jwk extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+/**
+ * Source of JSON Web Keys used to verify signed ID tokens
+ */
+export interface JwksKeySource {
+  getKeys(forceRefresh?: boolean): Promise<Jwk[]>;
+}
+
+/**
+ * Fixed key set, e.g. a locally generated key pair in tests
+ */
+export class StaticJwksKeySource implements JwksKeySource {
+  constructor(private keys: Jwk[]) {}
+
+  async getKeys(): Promise<Jwk[]> {
+    return this.keys;
+  }
+}
+
+interface CachedKeySet {
+  keys: Jwk[];
+  expiresAt: number;
+  // When the URL was last fetched, whether or not that worked
+  fetchedAt: number;
+  pending: Promise<Jwk[]> | null;
+}
+
+// Keys per JWKS URL, shared by every source for the URL
+const keySets = new Map<string, CachedKeySet>();
+
+/**
+ * Remote JWKS endpoint with an in-memory cache that honours Cache-Control
+ * max-age. The endpoint is fetched at most once per `minRefreshIntervalMs`
+ * for a URL, whether to refresh the cache, for tokens with an unknown `kid`
+ * or after a failed fetch, so neither such tokens nor an endpoint that is
+ * down make us hit it on every request. Meanwhile stale keys are used, and
+ * without any keys this throws.
+ */
+export class RemoteJwksKeySource implements JwksKeySource {
+  constructor(
+    private uri: string,
+    private defaultTtlMs = 60 * 60 * 1000,
+    private minRefreshIntervalMs = 60 * 1000
+  ) {}
+
+  private get keySet(): CachedKeySet {
+    let keySet = keySets.get(this.uri);
+    if (!keySet) {
+      keySet = { keys: [], expiresAt: 0, fetchedAt: 0, pending: null };
+      keySets.set(this.uri, keySet);
+    }
+    return keySet;
+  }
+
+  async getKeys(forceRefresh = false): Promise<Jwk[]> {
+    const keySet = this.keySet;
+    const now = Date.now();
+
+    if (keySet.keys.length > 0 && now < keySet.expiresAt && !forceRefresh) {
+      return keySet.keys;
+    }
+
+    if (keySet.pending) {
+      return keySet.pending;
+    }
+
+    if (now - keySet.fetchedAt < this.minRefreshIntervalMs) {
+      if (keySet.keys.length > 0) {
+        return keySet.keys;
+      }
+      throw new Error(
+        `JWKS from ${this.uri} is unavailable, retrying in at most ${this.minRefreshIntervalMs / 1000}s`
+      );
+    }
+
+    keySet.pending = this.fetchKeys(keySet).finally(() => {
+      keySet.pending = null;
+    });
+    return keySet.pending;
+  }
+
+  private async fetchKeys(keySet: CachedKeySet): Promise<Jwk[]> {
+    keySet.fetchedAt = Date.now();
+    const response = await fetch(this.uri);
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch JWKS from ${this.uri}: ${response.status}`
+      );
+    }
+
+    const body = (await response.json()) as { keys?: Jwk[] };
+    const maxAge = /max-age=(\d+)/.exec(
+      response.headers.get('cache-control') || ''
+    );
+
+    keySet.keys = body.keys || [];
+    keySet.expiresAt =
+      Date.now() + (maxAge ? Number(maxAge[1]) * 1000 : this.defaultTtlMs);
+
+    return keySet.keys;
+  }
+}
+
+/**
+ * Find the key matching a token's `kid`, refreshing the key set once to pick
+ * up rotated keys. Sources may skip the refresh, e.g. when they refreshed
+ * moments ago, and the key is then unknown.
+ */
+export async function resolveSigningKey(
+  source: JwksKeySource,
+  kid: string | undefined
+): Promise<KeyObject | null> {
+  const find = (keys: Jwk[]) =>
+    keys.find(key => (kid ? key.kid === kid : keys.length === 1));
+
+  let jwk = find(await source.getKeys());
+  if (!jwk) {
+    jwk = find(await source.getKeys(true));
+  }
+
+  return jwk ? createPublicKey({ key: jwk, format: 'jwk' }) : null;
+}
+
+interface IdTokenVerifyOptions {
+  audiences: string[];
+  issuers: [string, ...string[]];
+  label: string;
+}
+
+/**
+ * Verify an RS256-signed ID token against a JWKS key source.
+ * Errors are prefixed with `Invalid <label> ID token`.
+ */
+export async function verifyIdToken(
+  idToken: string,
+  source: JwksKeySource,
+  options: IdTokenVerifyOptions
+): Promise<jwt.JwtPayload> {
+  const prefix = `Invalid ${options.label} ID token`;
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new Error(`${prefix}: malformed token`);
+  }
+
+  const key = await resolveSigningKey(source, decoded.header.kid);
+  if (!key) {
+    throw new Error(`${prefix}: unknown signing key`);
+  }
+
+  try {
+    return jwt.verify(idToken, key, {
+      algorithms: ['RS256'],
+      audience: options.audiences as [string, ...string[]],
+      issuer: options.issuers,
+    }) as jwt.JwtPayload;
+  } catch (error) {
+    throw new Error(`${prefix}: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,18 @@
+import { User } from '../types';
+
+/**
+ * Strip credentials and 2FA secrets before a user row is sent to a client
+ */
+export const toPublicUser = (user: User) => {
+  const {
+    password: _password,
+    twoFactorSecret: _twoFactorSecret,
+    twoFactorLastUsedStep: _twoFactorLastUsedStep,
+    ...publicUser
+  } = user;
+
+  return {
+    ...publicUser,
+    twoFactorEnabled: !!user.twoFactorEnabledAt,
+  };
+};
@@ -0,0 +1,19 @@
+import { Request } from 'express';
+import { SessionContext } from '../services/token.service';
+
+/**
+ * Device details for a session, from the request body (mobile login payloads)
+ * or X-Device-* headers, plus the client IP and user agent
+ */
+export const getSessionContext = (req: Request): SessionContext => {
+  const body = req.body || {};
+  const platform = body.platform || req.header('X-Platform');
+
+  return {
+    deviceId: body.deviceId || req.header('X-Device-Id') || null,
+    deviceName: body.deviceName || req.header('X-Device-Name') || null,
+    platform: platform ? String(platform).toLowerCase() : null,
+    ipAddress: req.ip || null,
+    userAgent: req.header('User-Agent') || null,
+  };
+};
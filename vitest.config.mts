@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Each file builds its own in-process database
+    testTimeout: 30000,
+    hookTimeout: 60000,
+    env: {
+      NODE_ENV: 'test',
+      JWT_SECRET: 'test-secret',
+      DATABASE_URL: 'postgres://test@localhost/test',
+    },
+  },
+});